@@ -12,335 +12,445 @@ import {
   Maximize2, 
   Info,
   Settings2,
-  Layers
+  Layers,
+  Box,
+  Square,
+  ImageIcon,
+  AlertTriangle,
+  Link2,
+  Spline,
+  ScatterChart,
+  Dices,
+  Move,
+  Undo2,
+  Redo2
 } from 'lucide-react';
 import { 
   computeSVD, 
   reconstructMatrix, 
+  Matrix,
   Matrix2x2, 
   SVDResult,
-  getAngle,
-  fromAngle
+  SVDResultN,
+  toOrthogonalFactor,
+  fromAngle,
+  truncateSVD,
+  computeSVDContinuous,
+  svdDegeneracy,
+  NEAR_REPEAT,
+  IDENTITY
 } from './utils/matrix';
+import { DecompositionMode, DECOMPOSITION_MODES, DECOMPOSITION_LABELS, buildPipeline, pipelinePhases, withTranslation } from './utils/pipelines';
+import { toHomogeneous } from './utils/affine';
+import { Shape, Point, customPolygon } from './utils/shapes';
+import { OverlayOptions, singularVectorArrows } from './utils/overlays';
+import { ViewportOptions } from './utils/viewport';
+import { PaletteId } from './utils/palette';
+import { SnapOptions, snapPoint, withColumn, withEllipseAxis } from './utils/handles';
+import {
+  Constraint,
+  constraintLabel,
+  entryParams,
+  factorParams,
+  factorsFromParams,
+  matrixFromEntries,
+  matrixFromFactors,
+  solveConstraints
+} from './utils/constraints';
+import {
+  Session,
+  SessionError,
+  SESSION_VERSION,
+  createDefaultSession,
+  sessionFromHash,
+  sessionToHash
+} from './utils/session';
+import { RotationSlider, MatrixDisplay, MatrixInput, SigmaInput, OverlayToggles, ViewportToggles, ToggleGroup, PaletteSelect } from './components/controls';
+import { TransformStage, StageHandle } from './components/TransformStage';
+import { AlignmentPanel } from './components/AlignmentPanel';
+import { PcaExplorer } from './components/PcaExplorer';
+import { QuizPanel } from './components/QuizPanel';
+import { Visualizer3D } from './components/Visualizer3D';
+import { MorphPlayer } from './components/MorphPlayer';
+import { ShapePicker } from './components/ShapePicker';
+import { SessionMenu } from './components/SessionMenu';
+import { DerivationPanel } from './components/DerivationPanel';
+import { SnippetPanel } from './components/SnippetPanel';
+import { QuantitiesPanel } from './components/QuantitiesPanel';
+import { ConstraintPanel } from './components/ConstraintPanel';
+import { ImageCompression } from './components/ImageCompression';
+import { CompositionView } from './components/CompositionView';
+import { ExportMenu } from './components/ExportMenu';
+import { PresetGallery } from './components/PresetGallery';
+import { LessonPanel } from './components/LessonPanel';
+import { Lesson, HighlightTarget } from './utils/lessons';
+import { LESSONS, LESSON_ERRORS } from './lessons';
+import { FigurePanel } from './utils/figure';
+import { createHistory, pushHistory, undoHistory, redoHistory } from './utils/history';
 
-// --- Components ---
-
-const RotationSlider = ({ 
-  angle, 
-  onChange, 
-  label, 
-  color = "purple" 
-}: { 
-  angle: number; 
-  onChange: (val: number) => void; 
-  label: string;
-  color?: string;
-}) => {
-  const deg = (angle * 180) / Math.PI;
-  
-  const colorClasses: Record<string, string> = {
-    purple: "accent-purple-500",
-    amber: "accent-amber-500",
-  };
+// --- Main App ---
 
-  return (
-    <div className="flex flex-col gap-3 p-4 bg-zinc-900/30 rounded-xl border border-zinc-800/50">
-      <div className="flex justify-between items-center">
-        <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">{label}</span>
-        <span className="text-xs font-mono text-zinc-300 bg-zinc-800 px-2 py-0.5 rounded">{deg.toFixed(0)}°</span>
-      </div>
-      <input 
-        type="range" 
-        min="-180" 
-        max="180" 
-        step="1"
-        value={deg}
-        onChange={(e) => onChange((parseFloat(e.target.value) * Math.PI) / 180)}
-        className={`w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer ${colorClasses[color]}`}
-      />
-    </div>
-  );
+// Reads the session from the URL hash, falling back to the defaults
+const loadInitialSession = (): { session: Session; error: string | null } => {
+  try {
+    return { session: sessionFromHash(window.location.hash) ?? createDefaultSession(), error: null };
+  } catch (err) {
+    const message = err instanceof SessionError ? err.message : String(err);
+    return { session: createDefaultSession(), error: `Could not load the shared link: ${message}` };
+  }
 };
 
-const MatrixDisplay = ({ 
-  value, 
-  label, 
-  color = "blue" 
-}: { 
-  value: Matrix2x2; 
-  label: string;
-  color?: string;
-}) => {
-  const colorClasses: Record<string, string> = {
-    blue: "border-blue-500/20",
-    purple: "border-purple-500/20",
-    emerald: "border-emerald-500/20",
-    amber: "border-amber-500/20",
+export default function App() {
+  const [initial] = useState(loadInitialSession);
+  const [sessionError, setSessionError] = useState<string | null>(initial.error);
+
+  const [dimension, setDimension] = useState<2 | 3>(initial.session.dimension);
+  // The image, PCA and quiz workspaces have their own data, so they are never restored from a session
+  const [workspace, setWorkspace] = useState<'matrix' | 'chain' | 'image' | 'pca' | 'quiz'>(initial.session.view.workspace);
+  const [pipelineView, setPipelineView] = useState<'panels' | 'morph'>(initial.session.view.pipeline);
+
+  // Shape pushed through every stage; the 'F' is asymmetric enough to show mirrors
+  const [shape, setShape] = useState<Shape>(initial.session.shape);
+  const [drawing, setDrawing] = useState(false);
+
+  const [overlays, setOverlays] = useState<OverlayOptions>(initial.session.view.overlays);
+  const [viewport, setViewport] = useState<ViewportOptions>(initial.session.view.viewport);
+  const [palette, setPalette] = useState<PaletteId>(initial.session.view.palette);
+  const [continuity, setContinuity] = useState<boolean>(initial.session.view.continuity);
+  // Affine mode adds x ↦ Ax + t as a final stage
+  const [affine, setAffine] = useState<boolean>(initial.session.view.affine);
+  const [translation, setTranslation] = useState<Point>(initial.session.translation);
+  const [decomposition, setDecomposition] = useState<DecompositionMode>(initial.session.view.decomposition);
+
+  // Rank-k truncation shown on the final stage (k = 2 keeps A as is)
+  const [truncation, setTruncation] = useState(2);
+
+  // Direct manipulation on the final stage
+  const [dragTargets, setDragTargets] = useState({ basis: true, axes: false });
+  const [snap, setSnap] = useState<SnapOptions>({ grid: false, angle: false });
+
+  const handleDrawingChange = (next: boolean) => {
+    setDrawing(next);
+    // Vertices are placed on the Original panel, which the morph view hides
+    if (next) setPipelineView('panels');
   };
 
-  return (
-    <div className="flex flex-col gap-2">
-      <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">{label}</span>
-      <div className={`grid grid-cols-2 gap-2 p-3 rounded-xl border bg-zinc-900/20 transition-all ${colorClasses[color]}`}>
-        {value.map((row, i) => 
-          row.map((val, j) => (
-            <div
-              key={`${i}-${j}`}
-              className="w-full text-center font-mono text-sm text-zinc-400 py-1"
-            >
-              {val.toFixed(4)}
-            </div>
-          ))
-        )}
-      </div>
-    </div>
-  );
-};
+  const handleDrawPoint = (point: Point) => {
+    const vertices = shape.parts[0]?.points ?? [];
+    setShape(customPolygon([...vertices, point]));
+  };
 
-const MatrixInput = ({ 
-  value, 
-  onChange, 
-  label, 
-  color = "blue" 
-}: { 
-  value: Matrix2x2; 
-  onChange: (val: Matrix2x2) => void; 
-  label: string;
-  color?: string;
-}) => {
-  const handleChange = (row: number, col: number, val: string) => {
-    const num = parseFloat(val) || 0;
-    const next = [...value.map(r => [...r])] as Matrix2x2;
-    next[row][col] = num;
-    onChange(next);
+  // Main Source of Truth: Matrix A, with the SVD kept alongside it to avoid
+  // "jumps" during decomposition. 3x3 mode keeps its own A and SVD so
+  // switching modes loses nothing. All four live in one undo history.
+  const [history, setHistory] = useState(() => createHistory({
+    matrixA: initial.session.matrixA,
+    svd: initial.session.svd,
+    matrixA3: initial.session.matrixA3,
+    svd3: initial.session.svd3
+  }));
+  const { matrixA, svd, matrixA3, svd3 } = history.present;
+
+  // key groups continuous edits (a slider drag) into one undo step
+  const commit = (newA: Matrix2x2, newSvd: SVDResult, key: string | null = null) =>
+    setHistory(prev => pushHistory(prev, { ...prev.present, matrixA: newA, svd: newSvd }, key));
+
+  // Composition mode keeps a list of factors instead of a single A
+  const [chain, setChain] = useState<Matrix2x2[]>(initial.session.chain);
+
+  const handle3DChange = (newA: Matrix, newSvd: SVDResultN, key: string | null = null) =>
+    setHistory(prev => pushHistory(prev, { ...prev.present, matrixA3: newA, svd3: newSvd }, key && `3d-${key}`));
+
+  // --- Session persistence ---
+
+  const session = useMemo<Session>(() => ({
+    version: SESSION_VERSION,
+    dimension,
+    matrixA,
+    svd,
+    matrixA3,
+    svd3,
+    shape,
+    chain,
+    translation,
+    view: {
+      workspace: workspace === 'chain' ? 'chain' : 'matrix',
+      pipeline: pipelineView,
+      overlays,
+      decomposition,
+      viewport,
+      continuity,
+      affine,
+      palette
+    }
+  }), [dimension, matrixA, svd, matrixA3, svd3, shape, chain, translation, workspace, pipelineView, overlays, decomposition, viewport, continuity, affine, palette]);
+
+  const applySession = (next: Session) => {
+    setDimension(next.dimension);
+    setHistory(prev => pushHistory(prev, { matrixA: next.matrixA, svd: next.svd, matrixA3: next.matrixA3, svd3: next.svd3 }));
+    setShape(next.shape);
+    setChain(next.chain);
+    setWorkspace(next.view.workspace);
+    setPipelineView(next.view.pipeline);
+    setOverlays(next.view.overlays);
+    setDecomposition(next.view.decomposition);
+    setViewport(next.view.viewport);
+    setContinuity(next.view.continuity);
+    setTranslation(next.translation);
+    setAffine(next.view.affine);
+    setPalette(next.view.palette);
+    setDrawing(false);
   };
 
-  const colorClasses: Record<string, string> = {
-    blue: "border-blue-500/30 focus-within:border-blue-500",
-    purple: "border-purple-500/30 focus-within:border-purple-500",
-    emerald: "border-emerald-500/30 focus-within:border-emerald-500",
-    amber: "border-amber-500/30 focus-within:border-amber-500",
+  // Keep the hash in sync so the address bar is always a shareable link.
+  // replaceState doesn't fire hashchange and doesn't flood the history.
+  useEffect(() => {
+    window.history.replaceState(null, '', sessionToHash(session));
+  }, [session]);
+
+  // Pasting a link into the address bar of an open tab only changes the hash
+  useEffect(() => {
+    const handleHashChange = () => {
+      try {
+        const next = sessionFromHash(window.location.hash);
+        if (next) applySession(next);
+        setSessionError(null);
+      } catch (err) {
+        setSessionError(`Could not load the shared link: ${err instanceof SessionError ? err.message : String(err)}`);
+      }
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Derived rotation + mirror flags from the current SVD state
+  const factorU = useMemo(() => toOrthogonalFactor(svd.u), [svd.u]);
+  const factorVT = useMemo(() => toOrthogonalFactor(svd.vt), [svd.vt]);
+
+  // Pinned quantities. Every edit to A or its factors is projected onto them.
+  const [constraints, setConstraints] = useState<Constraint[]>([]);
+  const [constraintError, setConstraintError] = useState<string | null>(null);
+  const [constraintNotice, setConstraintNotice] = useState<string | null>(null);
+
+  // toMatrix rebuilds A from the edit's parameters; held are the ones the
+  // user just set, which the solver leaves alone. null means refused.
+  const solveEdit = (
+    toMatrix: (x: number[]) => Matrix2x2,
+    x: number[],
+    held: number[],
+    active: Constraint[] = constraints
+  ): number[] | null => {
+    const result = solveConstraints(active, toMatrix, x, held);
+    if (result.unmet.length) {
+      setConstraintError(`Can't keep ${result.unmet.map(constraintLabel).join(", ")} with that change, so it was refused.`);
+      return null;
+    }
+    setConstraintError(null);
+    return result.x;
   };
 
-  return (
-    <div className="flex flex-col gap-2">
-      <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">{label}</span>
-      <div className={`grid grid-cols-2 gap-2 p-3 rounded-xl border-2 bg-zinc-900/50 transition-all ${colorClasses[color]}`}>
-        {value.map((row, i) => 
-          row.map((val, j) => (
-            <input
-              key={`${i}-${j}`}
-              type="number"
-              step="0.0001"
-              value={val.toFixed(4)}
-              onChange={(e) => handleChange(i, j, e.target.value)}
-              className="w-full bg-transparent text-center font-mono text-lg focus:outline-none text-zinc-200"
-            />
-          ))
-        )}
-      </div>
-    </div>
-  );
-};
+  // With continuity on, the new factors are the ones nearest the current
+  // ones rather than computeSVD's fresh pick, so sliders and handles don't jump
+  const decompose = (a: Matrix2x2) => (continuity ? computeSVDContinuous(a, svd) : computeSVD(a));
+
+  // Why U and V^T aren't unique at the current A, if they aren't
+  const degeneracyNote = useMemo(() => {
+    const d = svdDegeneracy(svd.s);
+    if (d.zero) return "A = 0: every choice of U and Vᵀ works.";
+    if (d.repeated) return "σ₁ = σ₂: any rotated pair of singular vectors works, so U and Vᵀ aren't unique here.";
+    if (d.rankDeficient) return "A singular value is 0: its left singular vector is only fixed up to sign, so whether U mirrors is a free choice.";
+    if (d.gap < NEAR_REPEAT) {
+      return `σ₁ ≈ σ₂ (${(d.gap * 100).toFixed(1)}% apart): small changes to A can swing U and Vᵀ a long way.`;
+    }
+    return null;
+  }, [svd.s]);
 
-const SigmaInput = ({ 
-  value, 
-  onChange 
-}: { 
-  value: [number, number]; 
-  onChange: (val: [number, number]) => void; 
-}) => {
-  const adjust = (idx: number, delta: number) => {
-    const next = [...value] as [number, number];
-    next[idx] = Math.max(0, Math.min(5, Math.round((next[idx] + delta) * 10) / 10));
-    onChange(next);
+  // Handlers
+  const handleAChange = (newA: Matrix2x2, key: string | null = null) => {
+    let solved = newA;
+    if (constraints.length) {
+      // The entries the user changed stay put, unless all four did
+      const changed = [0, 1, 2, 3].filter(i => entryParams(newA)[i] !== entryParams(matrixA)[i]);
+      const x = solveEdit(matrixFromEntries, entryParams(newA), changed.length < 4 ? changed : []);
+      if (!x) return;
+      solved = matrixFromEntries(x);
+    }
+    // When A changes, we MUST re-decompose to update the right side
+    commit(solved, decompose(solved), key);
   };
 
-  const handleInput = (idx: number, val: string) => {
-    const num = parseFloat(val) || 0;
-    const next = [...value] as [number, number];
-    next[idx] = Math.max(0, Math.min(5, num));
-    onChange(next);
+  // Lessons and presets set A outright: the locks would refuse or bend it,
+  // so they're dropped, and the panel says which ones went
+  const loadMatrix = (newA: Matrix2x2, source: string) => {
+    if (constraints.length) {
+      setConstraintNotice(`Unlocked ${constraints.map(constraintLabel).join(", ")} to load ${source}.`);
+      setConstraints([]);
+      setConstraintError(null);
+    }
+    commit(newA, decompose(newA));
   };
 
-  return (
-    <div className="flex flex-col gap-2">
-      <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">Σ (Scaling [0-5])</span>
-      <div className="grid grid-cols-2 gap-2 p-3 rounded-xl border-2 border-emerald-500/30 bg-zinc-900/50 focus-within:border-emerald-500 transition-all">
-        <div className="flex flex-col items-center">
-          <input
-            type="number"
-            step="0.1"
-            min="0"
-            max="5"
-            value={value[0].toFixed(1)}
-            onChange={(e) => handleInput(0, e.target.value)}
-            className="w-full bg-transparent text-center font-mono text-lg focus:outline-none text-zinc-200"
-          />
-          <div className="flex gap-1 mt-1">
-            <button onClick={() => adjust(0, -0.1)} className="px-2 bg-zinc-800 rounded text-xs hover:bg-zinc-700">-</button>
-            <button onClick={() => adjust(0, 0.1)} className="px-2 bg-zinc-800 rounded text-xs hover:bg-zinc-700">+</button>
-          </div>
-        </div>
-        <div className="w-full text-center font-mono text-lg text-zinc-600">0.0000</div>
-        <div className="w-full text-center font-mono text-lg text-zinc-600">0.0000</div>
-        <div className="flex flex-col items-center">
-          <input
-            type="number"
-            step="0.1"
-            min="0"
-            max="5"
-            value={value[1].toFixed(1)}
-            onChange={(e) => handleInput(1, e.target.value)}
-            className="w-full bg-transparent text-center font-mono text-lg focus:outline-none text-zinc-200"
-          />
-          <div className="flex gap-1 mt-1">
-            <button onClick={() => adjust(1, -0.1)} className="px-2 bg-zinc-800 rounded text-xs hover:bg-zinc-700">-</button>
-            <button onClick={() => adjust(1, 0.1)} className="px-2 bg-zinc-800 rounded text-xs hover:bg-zinc-700">+</button>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-};
-
-const TransformStage = ({ 
-  matrix, 
-  label, 
-  subLabel,
-  points,
-  color = "#3b82f6"
-}: { 
-  matrix: Matrix2x2; 
-  label: string; 
-  subLabel: string;
-  points: [number, number][];
-  color?: string;
-}) => {
-  const size = 110; // Even smaller for mobile landscape
-  const padding = 20;
-  const scale = (size - padding * 2) / 4; 
-
-  const transformedPoints = useMemo(() => {
-    return points.map(([x, y]) => {
-      const tx = matrix[0][0] * x + matrix[0][1] * y;
-      const ty = matrix[1][0] * x + matrix[1][1] * y;
-      return [tx, ty];
-    });
-  }, [matrix, points]);
-
-  // Group points into polygons for the 'F' shape
-  const polygons = [
-    transformedPoints.slice(0, 4), // Vertical bar
-    transformedPoints.slice(4, 8), // Top bar
-    transformedPoints.slice(8, 12) // Middle bar
-  ];
-
-  return (
-    <div className="flex flex-col items-center gap-1 p-2 bg-zinc-900/40 rounded-xl border border-zinc-800/50 backdrop-blur-sm">
-      <div className="text-center">
-        <h3 className="text-[10px] font-semibold text-zinc-100 leading-tight">{label}</h3>
-        <p className="text-[8px] font-mono text-zinc-500 uppercase tracking-tighter">{subLabel}</p>
-      </div>
-      
-      <div className="relative">
-        <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`} className="overflow-visible">
-          {/* Grid lines */}
-          <g stroke="#27272a" strokeWidth="0.5">
-            {[-2, -1, 0, 1, 2].map(i => (
-              <React.Fragment key={i}>
-                <line x1={0} y1={size/2 + i * scale} x2={size} y2={size/2 + i * scale} />
-                <line x1={size/2 + i * scale} y1={0} x2={size/2 + i * scale} y2={size} />
-              </React.Fragment>
-            ))}
-          </g>
-          
-          {/* Axes */}
-          <line x1={0} y1={size/2} x2={size} y2={size/2} stroke="#3f3f46" strokeWidth="1" />
-          <line x1={size/2} y1={0} x2={size/2} y2={size} stroke="#3f3f46" strokeWidth="1" />
-
-          {/* Transformed Shape */}
-          <g transform={`translate(${size/2}, ${size/2}) scale(1, -1)`}>
-            {/* Unit Circle for reference */}
-            <circle cx="0" cy="0" r={scale} fill="none" stroke="#27272a" strokeWidth="1" strokeDasharray="4 4" />
-            
-            {polygons.map((poly, i) => (
-              <path
-                key={i}
-                d={`M ${poly[0][0] * scale} ${poly[0][1] * scale} 
-                   ${poly.slice(1).map(p => `L ${p[0] * scale} ${p[1] * scale}`).join(' ')} Z`}
-                fill={`${color}30`}
-                stroke={color}
-                strokeWidth="2"
-                strokeLinejoin="round"
-                className="transition-all duration-700 ease-in-out"
-              />
-            ))}
-          </g>
-        </svg>
-      </div>
-    </div>
-  );
-};
-
-// --- Main App ---
-
-export default function App() {
-  // Main Source of Truth: Matrix A
-  const [matrixA, setMatrixA] = useState<Matrix2x2>([[1.5, 0.5], [0.5, 1.5]]);
-  
-  // SVD Components state to avoid "jumps" during decomposition
-  const [svd, setSvd] = useState<SVDResult>(() => computeSVD([[1.5, 0.5], [0.5, 1.5]]));
+  // U, Σ and V^T edits. held indexes (θ_U, σ₁, σ₂, θ_V); mirrors are kept.
+  const handleFactorsChange = (newSvd: SVDResult, held: number[], key: string | null = null) => {
+    let solved = newSvd;
+    if (constraints.length) {
+      const build = (x: number[]) =>
+        factorsFromParams(x, toOrthogonalFactor(newSvd.u).reflect, toOrthogonalFactor(newSvd.vt).reflect);
+      const x = solveEdit(params => matrixFromFactors(build(params)), factorParams(newSvd), held);
+      if (!x) return;
+      solved = build(x);
+    }
+    // Update A based on the new SVD components (no re-decomposition loop)
+    commit(reconstructMatrix(solved.u, solved.s, solved.vt), solved, key);
+  };
 
-  // Derived Angles from the current SVD state
-  const angleU = useMemo(() => getAngle(svd.u), [svd.u]);
-  const angleVT = useMemo(() => getAngle(svd.vt), [svd.vt]);
+  const updateU = (newU: Matrix2x2, key: string | null = null) =>
+    handleFactorsChange({ ...svd, u: newU }, [0], key);
 
-  // Handlers
-  const handleAChange = (newA: Matrix2x2) => {
-    setMatrixA(newA);
-    // When A changes, we MUST re-decompose to update the right side
-    setSvd(computeSVD(newA));
+  const updateVT = (newVT: Matrix2x2, key: string | null = null) => {
+    // V^T has to be transposed back into V to keep both fields consistent
+    const newV: Matrix2x2 = [[newVT[0][0], newVT[1][0]], [newVT[0][1], newVT[1][1]]];
+    handleFactorsChange({ ...svd, v: newV, vt: newVT }, [3], key);
   };
 
-  const handleAngleUChange = (newAngle: number) => {
-    const newU = fromAngle(newAngle);
-    const newSvd = { ...svd, u: newU };
-    setSvd(newSvd);
-    // Update A based on the new SVD components (no re-decomposition loop)
-    setMatrixA(reconstructMatrix(newU, svd.s, svd.vt));
+  // Pinning a property A doesn't have yet (symmetry, say) moves A onto it
+  const handleConstraintsChange = (next: Constraint[]) => {
+    setConstraintError(null);
+    setConstraintNotice(null);
+    if (next.length > constraints.length) {
+      const x = solveEdit(matrixFromEntries, entryParams(matrixA), [], next);
+      if (!x) return;
+      const solved = matrixFromEntries(x);
+      if (solved.some((row, i) => row.some((val, j) => val !== matrixA[i][j]))) commit(solved, decompose(solved));
+    }
+    setConstraints(next);
   };
 
-  const handleAngleVTChange = (newAngle: number) => {
-    const newVT = fromAngle(newAngle);
-    const newSvd = { ...svd, vt: newVT };
-    setSvd(newSvd);
-    // Update A based on the new SVD components (no re-decomposition loop)
-    setMatrixA(reconstructMatrix(svd.u, svd.s, newVT));
+  const undo = () => setHistory(undoHistory);
+  const redo = () => setHistory(redoHistory);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (!(e.ctrlKey || e.metaKey) || target?.closest('input, textarea')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // --- Lessons ---
+
+  const [lessonState, setLessonState] = useState<{ lesson: Lesson; step: number } | null>(null);
+
+  const goToStep = (lesson: Lesson, step: number) => {
+    const current = lesson.steps[step];
+    setLessonState({ lesson, step });
+    if (current.matrix) loadMatrix(current.matrix, "the lesson step");
+    if (current.overlays) setOverlays(current.overlays);
+    if (current.decomposition) setDecomposition(current.decomposition);
+    setDrawing(false);
   };
 
+  const highlighted = lessonState ? lessonState.lesson.steps[lessonState.step].highlight : [];
+  const highlight = (target: HighlightTarget) =>
+    highlighted.includes(target) ? "ring-2 ring-amber-400/60 ring-offset-4 ring-offset-zinc-950 rounded-xl" : "";
+
+  // Slider edits keep the current mirror flag so det(A) never silently flips
+  const handleAngleUChange = (newAngle: number) => updateU(fromAngle(newAngle, factorU.reflect), 'angleU');
+  const handleAngleVTChange = (newAngle: number) => updateVT(fromAngle(newAngle, factorVT.reflect), 'angleVT');
+  const handleReflectUChange = (reflect: boolean) => updateU(fromAngle(factorU.angle, reflect));
+  const handleReflectVTChange = (reflect: boolean) => updateVT(fromAngle(factorVT.angle, reflect));
+
   const handleSigmaChange = (newS: [number, number]) => {
-    const newSvd = { ...svd, s: newS };
-    setSvd(newSvd);
-    // Update A based on the new SVD components (no re-decomposition loop)
-    setMatrixA(reconstructMatrix(svd.u, newS, svd.vt));
+    const held = [0, 1].filter(i => newS[i] !== svd.s[i]).map(i => i + 1);
+    handleFactorsChange({ ...svd, s: newS }, held, 'sigma');
   };
 
-  // Visualization points: an 'F' shape for clarity
-  const points: [number, number][] = [
-    // Vertical bar
-    [-0.5, -1], [-0.5, 1], [0, 1], [0, -1],
-    // Top horizontal bar
-    [0, 0.7], [0.8, 0.7], [0.8, 1], [0, 1],
-    // Middle horizontal bar
-    [0, 0], [0.5, 0], [0.5, 0.3], [0, 0.3]
-  ];
-
-  // Intermediate matrices for stages
-  const stage1 = [[1, 0], [0, 1]] as Matrix2x2; // Original
-  const stage2 = svd.vt; // After V^T (Rotation)
-  const stage3 = reconstructMatrix([[1, 0], [0, 1]], svd.s, svd.vt); // After S * V^T (Scaling)
-  const stage4 = matrixA; // After U * S * V^T (Rotation)
+  // Intermediate matrices for stages under the selected factorization
+  const pipeline = useMemo(() => {
+    const linear = buildPipeline(decomposition, matrixA, svd);
+    return affine ? withTranslation(linear, matrixA, translation) : linear;
+  }, [decomposition, matrixA, svd, affine, translation]);
+  const stages = pipeline.stages;
+  // The morph animation only knows the SVD phases of the linear part
+  const showMorph = pipelineView === 'morph' && decomposition === 'svd' && !affine;
+  const offset: Point = affine ? translation : [0, 0];
+
+  // Handles on the final stage. Dragging e1/e2 edits A and re-decomposes;
+  // dragging an ellipse axis edits U and Σ with V^T held fixed. In affine
+  // mode they sit on the translated stage, so they're drawn from t.
+  const handles = useMemo<StageHandle[]>(() => {
+    const list: StageHandle[] = [];
+    const shift = (p: Point): Point => [p[0] + offset[0], p[1] + offset[1]];
+    const unshift = (p: Point): Point => [p[0] - offset[0], p[1] - offset[1]];
+    if (dragTargets.basis) {
+      ([0, 1] as const).forEach(col => list.push({
+        id: `e${col}`,
+        position: shift([matrixA[0][col], matrixA[1][col]]),
+        label: col === 0 ? "Ae₁" : "Ae₂",
+        color: col === 0 ? "#ef4444" : "#22c55e",
+        onDrag: p => handleAChange(withColumn(matrixA, col, snapPoint(unshift(p), snap)), `drag-e${col}`)
+      }));
+    }
+    if (dragTargets.axes) {
+      ([0, 1] as const).forEach(axis => list.push({
+        id: `axis${axis}`,
+        position: shift([svd.u[0][axis] * svd.s[axis], svd.u[1][axis] * svd.s[axis]]),
+        label: axis === 0 ? "σ₁u₁" : "σ₂u₂",
+        color: "#e4e4e7",
+        onDrag: p => {
+          const { u, s } = withEllipseAxis(svd, axis, snapPoint(unshift(p), snap));
+          handleFactorsChange({ ...svd, u, s }, [0, axis + 1], `drag-axis${axis}`);
+        }
+      }));
+    }
+    return list;
+  }, [dragTargets, snap, matrixA, svd, constraints, continuity, affine, translation]);
+
+  const comparison = useMemo(() => {
+    if (truncation >= 2) return undefined;
+    const { matrix, frobeniusError } = truncateSVD(svd, truncation);
+    return { matrix, translation: offset, label: `A₁ · err ${frobeniusError.toFixed(2)}`, color: "#34d399" };
+  }, [svd, truncation, affine, translation]);
+
+  // u1, u2 live in the output space, so they only belong on the last stage
+  const inputArrows = useMemo(
+    () => [...singularVectorArrows(svd, overlays, false), ...pipeline.arrows],
+    [svd, overlays, pipeline]
+  );
+  const outputArrows = useMemo(
+    () => [...singularVectorArrows(svd, overlays, true), ...pipeline.arrows],
+    [svd, overlays, pipeline]
+  );
+
+  // The panels as drawn, for figure export
+  const figurePanels = useMemo<FigurePanel[]>(() => [
+    { matrix: IDENTITY, title: "Original", subtitle: "Identity", color: "#71717a", arrows: inputArrows },
+    ...stages.map((stage, i) => ({
+      matrix: stage.matrix,
+      title: `Step ${i + 1}`,
+      subtitle: stage.subLabel,
+      color: stage.color,
+      translation: stage.translation,
+      arrows: i === stages.length - 1 ? outputArrows : inputArrows
+    }))
+  ], [stages, inputArrows, outputArrows]);
+
+  // The animated export plays whichever pipeline is showing
+  const figureMorph = useMemo(() => ({
+    phases: pipelinePhases(pipeline, decomposition, svd),
+    title: `${pipeline.unavailable ? "A" : `A = ${DECOMPOSITION_LABELS[decomposition]}`}${affine ? " + t" : ""}`,
+    arrows: outputArrows
+  }), [pipeline, decomposition, svd, affine, outputArrows]);
 
   return (
     <div className="min-h-screen bg-zinc-950 text-zinc-300 p-2 sm:p-4 md:p-8 font-sans selection:bg-blue-500/30 overflow-x-hidden">
@@ -353,6 +463,37 @@ export default function App() {
               <Layers className="w-4 h-4 text-blue-500" />
             </div>
             <h1 className="text-lg sm:text-2xl md:text-4xl font-bold tracking-tight text-white">SVD Visualizer</h1>
+            <div className="flex items-center gap-0.5 p-0.5 ml-2 bg-zinc-900/50 rounded-lg border border-zinc-800 text-[10px] font-mono">
+              {([2, 3] as const).map(n => (
+                <button
+                  key={n}
+                  onClick={() => { setDimension(n); setWorkspace('matrix'); }}
+                  className={`flex items-center gap-1 px-2 py-1 rounded-md transition-all ${
+                    workspace === 'matrix' && dimension === n ? "bg-blue-500/20 text-blue-300" : "text-zinc-500 hover:text-zinc-300"
+                  }`}
+                >
+                  {n === 2 ? <Square className="w-3 h-3" /> : <Box className="w-3 h-3" />}
+                  {n}×{n}
+                </button>
+              ))}
+              {([
+                ['chain', <Link2 className="w-3 h-3" />, "Chain"],
+                ['image', <ImageIcon className="w-3 h-3" />, "Image"],
+                ['pca', <ScatterChart className="w-3 h-3" />, "PCA"],
+                ['quiz', <Dices className="w-3 h-3" />, "Quiz"]
+              ] as const).map(([id, icon, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setWorkspace(id)}
+                  className={`flex items-center gap-1 px-2 py-1 rounded-md transition-all ${
+                    workspace === id ? "bg-blue-500/20 text-blue-300" : "text-zinc-500 hover:text-zinc-300"
+                  }`}
+                >
+                  {icon}
+                  {label}
+                </button>
+              ))}
+            </div>
           </div>
           
           <div className="hidden md:flex items-center gap-4 px-4 py-2 bg-zinc-900/50 rounded-full border border-zinc-800 text-[10px] font-mono">
@@ -368,104 +509,306 @@ export default function App() {
               <RotateCcw className="w-3 h-3" /> Rotation (U)
             </span>
           </div>
+
+          <PaletteSelect value={palette} onChange={setPalette} />
+
+          <SessionMenu 
+            session={session} 
+            onImport={applySession} 
+            error={sessionError} 
+            onErrorChange={setSessionError} 
+          />
         </header>
 
         {/* Main Layout: Split in landscape (sm breakpoint) */}
-        <main className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-8 items-start">
+        {workspace === 'image' ? <ImageCompression /> : workspace === 'pca' ? <PcaExplorer palette={palette} /> : workspace === 'quiz' ? (
+          <QuizPanel shape={shape} viewport={viewport} palette={palette} />
+        ) : workspace === 'chain' ? (
+          <CompositionView factors={chain} onChange={setChain} shape={shape} overlays={overlays} viewport={viewport} palette={palette} />
+        ) : dimension === 3 ? <Visualizer3D matrixA={matrixA3} svd={svd3} onChange={handle3DChange} palette={palette} /> : (
+          <main className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-8 items-start">
           
-          {/* Left Column: Controls */}
-          <div className="space-y-4 sm:space-y-8">
-            {/* Matrix A */}
-            <section className="space-y-2">
-              <div className="flex items-center gap-2">
-                <Settings2 className="w-3 h-3 text-blue-500" />
-                <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Original Matrix A</h2>
-              </div>
-              <MatrixInput 
-                label="Matrix A" 
-                value={matrixA} 
-                onChange={handleAChange} 
-                color="blue"
+            {/* Left Column: Controls */}
+            <div className="space-y-4 sm:space-y-8">
+              <LessonPanel 
+                lessons={LESSONS} 
+                errors={LESSON_ERRORS}
+                lesson={lessonState?.lesson ?? null} 
+                step={lessonState?.step ?? 0} 
+                svd={svd}
+                onStart={lesson => goToStep(lesson, 0)} 
+                onStepChange={step => lessonState && goToStep(lessonState.lesson, step)} 
+                onExit={() => setLessonState(null)} 
               />
-            </section>
 
-            {/* SVD Components */}
-            <section className="space-y-4">
-              <div className="flex items-center gap-2">
-                <Grid3X3 className="w-3 h-3 text-purple-500" />
-                <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">SVD Components</h2>
-              </div>
+              {/* Matrix A */}
+              <section className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Settings2 className="w-3 h-3 text-blue-500" />
+                  <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Original Matrix A</h2>
+                  <div className="ml-auto flex gap-1">
+                    <button
+                      onClick={() => setAffine(!affine)}
+                      aria-pressed={affine}
+                      title="Add a translation t, making the map x ↦ Ax + t"
+                      className={`flex items-center gap-1 text-[10px] font-mono px-1.5 py-0.5 rounded border transition-all ${
+                        affine
+                          ? "bg-cyan-500/20 border-cyan-500/50 text-cyan-300"
+                          : "bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300"
+                      }`}
+                    >
+                      <Move className="w-3 h-3" />
+                      Affine
+                    </button>
+                    <button
+                      onClick={undo}
+                      disabled={!history.past.length}
+                      title="Undo (Ctrl+Z)"
+                      aria-label="Undo"
+                      className="p-1 rounded text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-zinc-500 transition-colors"
+                    >
+                      <Undo2 className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={redo}
+                      disabled={!history.future.length}
+                      title="Redo (Ctrl+Shift+Z)"
+                      aria-label="Redo"
+                      className="p-1 rounded text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-zinc-500 transition-colors"
+                    >
+                      <Redo2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+                <div className={`${affine ? "grid grid-cols-[2fr_1fr] gap-2" : ""} ${highlight('matrix')}`}>
+                  <MatrixInput 
+                    label="Matrix A" 
+                    value={matrixA} 
+                    onChange={handleAChange} 
+                    color="blue"
+                  />
+                  {affine && (
+                    <MatrixInput 
+                      label="Translation t" 
+                      name="t"
+                      value={[[translation[0]], [translation[1]]]} 
+                      onChange={val => setTranslation([val[0][0], val[1][0]])} 
+                      color="cyan"
+                    />
+                  )}
+                </div>
+                {affine && (
+                  <MatrixDisplay label="Homogeneous [A t; 0 1]" value={toHomogeneous(matrixA, translation)} color="cyan" />
+                )}
+                <div className={highlight('presets')}>
+                  <PresetGallery value={matrixA} onSelect={a => loadMatrix(a, "the preset")} />
+                </div>
+              </section>
+
+              {/* SVD Components */}
+              <section className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <Grid3X3 className="w-3 h-3 text-purple-500" />
+                  <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">SVD Components</h2>
+                  <button
+                    onClick={() => setContinuity(!continuity)}
+                    aria-pressed={continuity}
+                    title="Pick the factors nearest the previous ones when A changes, instead of re-deriving them"
+                    className={`ml-auto flex items-center gap-1 text-[10px] font-mono px-1.5 py-0.5 rounded border transition-all ${
+                      continuity
+                        ? "bg-purple-500/20 border-purple-500/50 text-purple-300"
+                        : "bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300"
+                    }`}
+                  >
+                    <Spline className="w-3 h-3" />
+                    Continuity
+                  </button>
+                </div>
+
+                {degeneracyNote && (
+                  <div className="flex items-start gap-2 p-2 bg-amber-500/10 rounded-lg border border-amber-500/30 text-[10px] font-mono text-amber-300">
+                    <AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" />
+                    {degeneracyNote}
+                  </div>
+                )}
               
-              <div className="grid grid-cols-1 gap-3">
-                <div className="grid grid-cols-2 gap-3">
-                  <div className="space-y-2">
-                    <RotationSlider label="U Angle" angle={angleU} onChange={handleAngleUChange} color="purple" />
-                    <MatrixDisplay label="U" value={svd.u} color="purple" />
+                <div className="grid grid-cols-1 gap-3">
+                  <div className={`grid grid-cols-2 gap-3 ${highlight('rotations')}`}>
+                    <div className="space-y-2">
+                      <RotationSlider 
+                        label="U Angle" 
+                        angle={factorU.angle} 
+                        onChange={handleAngleUChange} 
+                        reflect={factorU.reflect}
+                        onReflectChange={handleReflectUChange}
+                        color="purple" 
+                      />
+                      <MatrixDisplay label="U" value={svd.u} color="purple" />
+                    </div>
+                    <div className="space-y-2">
+                      <RotationSlider 
+                        label="Vᵀ Angle" 
+                        angle={factorVT.angle} 
+                        onChange={handleAngleVTChange} 
+                        reflect={factorVT.reflect}
+                        onReflectChange={handleReflectVTChange}
+                        color="amber" 
+                      />
+                      <MatrixDisplay label="Vᵀ" value={svd.vt} color="amber" />
+                    </div>
                   </div>
-                  <div className="space-y-2">
-                    <RotationSlider label="Vᵀ Angle" angle={angleVT} onChange={handleAngleVTChange} color="amber" />
-                    <MatrixDisplay label="Vᵀ" value={svd.vt} color="amber" />
+
+                  <div className={`space-y-2 ${highlight('sigma')}`}>
+                    <SigmaInput value={svd.s} onChange={handleSigmaChange} />
                   </div>
                 </div>
+              </section>
+
+              <ConstraintPanel 
+                constraints={constraints} 
+                matrix={matrixA} 
+                svd={svd} 
+                error={constraintError} 
+                notice={constraintNotice} 
+                onChange={handleConstraintsChange} 
+              />
 
-                <div className="space-y-2">
-                  <SigmaInput value={svd.s} onChange={handleSigmaChange} />
-                </div>
+              <div className={highlight('quantities')}>
+                <QuantitiesPanel svd={svd} truncation={truncation} onTruncationChange={setTruncation} />
               </div>
-            </section>
-          </div>
 
-          {/* Right Column: Visualization Pipeline */}
-          <section className="space-y-4">
-            <div className="flex items-center justify-between">
-              <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400 flex items-center gap-2">
-                <Layers className="w-3 h-3 text-blue-500" />
-                Pipeline
-              </h2>
-              <div className="text-[8px] font-mono text-zinc-500">
-                x → Vᵀx → ΣVᵀx → UΣVᵀx
+              <div className={highlight('derivation')}>
+                <DerivationPanel matrix={matrixA} svd={svd} />
               </div>
+
+              <SnippetPanel matrix={matrixA} svd={svd} />
             </div>
 
-            <div className="grid grid-cols-2 gap-2 sm:gap-4">
-              <TransformStage 
-                matrix={stage1} 
-                label="Original" 
-                subLabel="Identity"
-                points={points}
-                color="#71717a"
-              />
-              <TransformStage 
-                matrix={stage2} 
-                label="Step 1" 
-                subLabel="Apply Vᵀ"
-                points={points}
-                color="#f59e0b"
-              />
-              <TransformStage 
-                matrix={stage3} 
-                label="Step 2" 
-                subLabel="Apply Σ"
-                points={points}
-                color="#10b981"
-              />
-              <TransformStage 
-                matrix={stage4} 
-                label="Step 3" 
-                subLabel="Apply U"
-                points={points}
-                color="#8b5cf6"
+            {/* Right Column: Visualization Pipeline */}
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400 flex items-center gap-2">
+                  <Layers className="w-3 h-3 text-blue-500" />
+                  Pipeline
+                </h2>
+                <div className="flex items-center gap-2">
+                  <div className="flex items-center gap-0.5 p-0.5 bg-zinc-900/50 rounded-md border border-zinc-800 text-[8px] font-mono">
+                    {DECOMPOSITION_MODES.map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setDecomposition(mode)}
+                        className={`px-1.5 py-0.5 rounded transition-all ${
+                          decomposition === mode ? "bg-blue-500/20 text-blue-300" : "text-zinc-500 hover:text-zinc-300"
+                        }`}
+                      >
+                        {DECOMPOSITION_LABELS[mode]}
+                      </button>
+                    ))}
+                  </div>
+                  {decomposition === 'svd' && !affine && (
+                    <div className="flex items-center gap-0.5 p-0.5 bg-zinc-900/50 rounded-md border border-zinc-800 text-[8px] font-mono uppercase">
+                      {(['panels', 'morph'] as const).map(view => (
+                        <button
+                          key={view}
+                          onClick={() => setPipelineView(view)}
+                          className={`px-1.5 py-0.5 rounded transition-all ${
+                            pipelineView === view ? "bg-blue-500/20 text-blue-300" : "text-zinc-500 hover:text-zinc-300"
+                          }`}
+                        >
+                          {view}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="hidden lg:block text-[8px] font-mono text-zinc-500">
+                    {pipeline.formula}
+                  </div>
+                  <ExportMenu panels={figurePanels} shape={shape} overlays={overlays} morph={figureMorph} viewport={viewport} palette={palette} />
+                </div>
+              </div>
+
+              <ShapePicker 
+                shape={shape} 
+                onChange={setShape} 
+                drawing={drawing} 
+                onDrawingChange={handleDrawingChange} 
               />
-            </div>
+              <div className={`flex flex-wrap gap-x-4 gap-y-1 ${highlight('overlays')}`}>
+                <OverlayToggles value={overlays} onChange={setOverlays} />
+                <ViewportToggles value={viewport} onChange={setViewport} />
+              </div>
+              {!showMorph && (
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  <ToggleGroup 
+                    label="Drag" 
+                    value={dragTargets} 
+                    labels={{ basis: "Ae₁ Ae₂", axes: "Axes" }} 
+                    onChange={setDragTargets} 
+                  />
+                  <ToggleGroup 
+                    label="Snap" 
+                    value={snap} 
+                    labels={{ grid: "Grid", angle: "15°" }} 
+                    onChange={setSnap} 
+                  />
+                </div>
+              )}
 
-            <div className="hidden sm:flex items-start gap-2 p-3 bg-zinc-900/30 rounded-xl border border-zinc-800/50 text-[8px] text-zinc-500">
-              <Info className="w-2 h-2 shrink-0 mt-0.5" />
-              <p>
-                Pipeline shows sequential SVD application.
-              </p>
-            </div>
-          </section>
-        </main>
+              {pipeline.unavailable && (
+                <div className="flex items-center gap-2 p-2 bg-red-500/10 rounded-lg border border-red-500/30 text-[10px] font-mono text-red-300">
+                  <AlertTriangle className="w-3 h-3 shrink-0" />
+                  {pipeline.unavailable}
+                </div>
+              )}
+
+              {showMorph ? (
+                <MorphPlayer svd={svd} shape={shape} overlays={overlays} arrows={outputArrows} viewport={viewport} palette={palette} />
+              ) : (
+                <div className={`grid grid-cols-2 gap-2 sm:gap-4 ${highlight('pipeline')}`}>
+                  <TransformStage 
+                    matrix={IDENTITY} 
+                    label="Original" 
+                    subLabel={drawing ? "Click to draw" : "Identity"}
+                    shape={shape}
+                    color="#71717a"
+                    onCanvasClick={drawing ? handleDrawPoint : undefined}
+                    overlays={overlays}
+                    arrows={inputArrows}
+                    viewport={viewport}
+                    palette={palette}
+                  />
+                  {stages.map((stage, i) => (
+                    <React.Fragment key={stage.subLabel}>
+                      <TransformStage 
+                        matrix={stage.matrix} 
+                        label={`Step ${i + 1}`} 
+                        subLabel={stage.subLabel}
+                        shape={shape}
+                        color={stage.color}
+                        overlays={overlays}
+                        arrows={i === stages.length - 1 ? outputArrows : inputArrows}
+                        handles={i === stages.length - 1 ? handles : undefined}
+                        comparison={i === stages.length - 1 ? comparison : undefined}
+                        translation={stage.translation}
+                        viewport={viewport}
+                        palette={palette}
+                      />
+                    </React.Fragment>
+                  ))}
+                </div>
+              )}
+
+              <div className="hidden sm:flex items-start gap-2 p-3 bg-zinc-900/30 rounded-xl border border-zinc-800/50 text-[8px] text-zinc-500">
+                <Info className="w-2 h-2 shrink-0 mt-0.5" />
+                <p>{pipeline.note}</p>
+              </div>
+
+              {affine && (
+                <AlignmentPanel shape={shape} linear={matrixA} translation={translation} viewport={viewport} palette={palette} />
+              )}
+            </section>
+          </main>
+        )}
 
         {/* Footer Info */}
         <footer className="pt-4 border-t border-zinc-800 text-center text-zinc-600 text-[8px]">
@@ -0,0 +1,13 @@
+// Command-line entry: `npm run svd -- decompose "[[1,2],[3,4]]"`. See USAGE
+// in utils/cli.ts for the commands.
+import { readFileSync } from 'node:fs';
+import { runCli } from './utils/cli';
+
+const { code, stdout, stderr } = runCli(process.argv.slice(2), {
+  // File descriptor 0 is stdin
+  read: path => readFileSync(path === '-' ? 0 : path, 'utf8')
+});
+
+if (stdout) process.stdout.write(`${stdout}\n`);
+if (stderr) process.stderr.write(`${stderr}\n`);
+process.exitCode = code;
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { animate, useMotionValue, useMotionValueEvent, AnimationPlaybackControls } from 'motion/react';
+import { Play, Pause, SkipBack, Shuffle, Crosshair } from 'lucide-react';
+import { IDENTITY, Matrix2x2 } from '../utils/matrix';
+import { Point, Shape } from '../utils/shapes';
+import {
+  ALIGNMENT_LABELS,
+  AlignmentOptions,
+  DEFAULT_ALIGNMENT_OPTIONS,
+  TRANSLATION_COLOR,
+  alignPoints,
+  alignmentAt,
+  applyAffine,
+  jitter
+} from '../utils/affine';
+import { ViewportOptions } from '../utils/viewport';
+import { PaletteId } from '../utils/palette';
+import { MatrixDisplay, ToggleGroup } from './controls';
+import { TransformStage } from './TransformStage';
+
+const TARGET_COLOR = "#f59e0b";
+// Seconds for the full fit
+const DURATION = 2;
+
+const fmt = (val: number) => val.toFixed(3);
+
+export const AlignmentPanel = ({
+  shape,
+  linear,
+  translation,
+  viewport,
+  palette
+}: {
+  shape: Shape;
+  // The target is the shape under x ↦ Ax + t, plus noise
+  linear: Matrix2x2;
+  translation: Point;
+  viewport?: ViewportOptions;
+  palette?: PaletteId;
+}) => {
+  const [options, setOptions] = useState<AlignmentOptions>(DEFAULT_ALIGNMENT_OPTIONS);
+  const [noise, setNoise] = useState(0.05);
+  const [seed, setSeed] = useState(1);
+
+  const target: Shape = useMemo(() => ({
+    ...shape,
+    name: "Target",
+    parts: shape.parts.map((part, i) => ({
+      ...part,
+      points: jitter(part.points.map(p => applyAffine(linear, translation, p)), noise, seed + i)
+    }))
+  }), [shape, linear, translation, noise, seed]);
+
+  // Points are matched by index, part by part
+  const source = useMemo(() => shape.parts.flatMap(part => part.points), [shape]);
+  const goal = useMemo(() => target.parts.flatMap(part => part.points), [target]);
+  const fit = useMemo(() => source.length ? alignPoints(source, goal, options) : null, [source, goal, options]);
+  const fitted = useMemo(() => {
+    if (!fit) return [];
+    const end = alignmentAt(fit, 1);
+    return source.map(p => applyAffine(end.matrix, end.translation, p));
+  }, [fit, source]);
+  const keepInView = useMemo(() => [...source, ...fitted], [source, fitted]);
+
+  const progress = useMotionValue(0);
+  const [t, setT] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const controls = useRef<AnimationPlaybackControls | null>(null);
+
+  useMotionValueEvent(progress, "change", setT);
+
+  const stop = () => {
+    controls.current?.stop();
+    controls.current = null;
+    setPlaying(false);
+  };
+
+  const play = () => {
+    const from = progress.get() >= 1 ? 0 : progress.get();
+    progress.set(from);
+    setPlaying(true);
+    controls.current = animate(progress, 1, {
+      duration: (1 - from) * DURATION,
+      ease: "easeInOut",
+      onComplete: () => setPlaying(false)
+    });
+  };
+
+  const scrub = (value: number) => {
+    stop();
+    progress.set(value);
+  };
+
+  useEffect(() => () => controls.current?.stop(), []);
+
+  if (!fit) {
+    return (
+      <p className="text-[10px] font-mono text-zinc-500 text-center">
+        Draw a shape to align it with a target.
+      </p>
+    );
+  }
+
+  const current = alignmentAt(fit, t);
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Crosshair className="w-3 h-3" style={{ color: TRANSLATION_COLOR }} />
+        <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Shape Alignment (Procrustes)</h2>
+      </div>
+
+      <div className="flex flex-col gap-3 p-3 bg-zinc-900/40 rounded-xl border border-zinc-800/50">
+        <p className="text-[10px] text-zinc-500 leading-relaxed">
+          The target is the shape under Ax + t with noise added. The best rigid fit of the original onto it comes from the SVD of their cross-covariance.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <ToggleGroup label="Allow" value={options} labels={ALIGNMENT_LABELS} onChange={setOptions} />
+          <label className="flex items-center gap-2 text-[8px] font-mono uppercase tracking-wider text-zinc-500">
+            Noise
+            <input
+              type="range"
+              min="0"
+              max="0.3"
+              step="0.01"
+              value={noise}
+              onChange={(e) => setNoise(parseFloat(e.target.value))}
+              className="w-20 h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+            />
+            <span className="text-zinc-400">{noise.toFixed(2)}</span>
+          </label>
+          <button
+            onClick={() => setSeed(seed + shape.parts.length)}
+            title="New noise"
+            className="p-1.5 bg-zinc-800 rounded-md text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700"
+          >
+            <Shuffle className="w-3 h-3" />
+          </button>
+        </div>
+
+        <div className="flex justify-center">
+          <TransformStage
+            matrix={current.matrix}
+            translation={current.translation}
+            label="Best fit"
+            subLabel={`t = ${t.toFixed(2)}`}
+            shape={shape}
+            color={TRANSLATION_COLOR}
+            size={280}
+            smooth={false}
+            comparison={{ matrix: IDENTITY, shape: target, label: "target", color: TARGET_COLOR }}
+            viewport={viewport}
+            palette={palette}
+            keepInView={keepInView}
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => scrub(0)}
+            className="p-1.5 bg-zinc-800 rounded-md text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700"
+          >
+            <SkipBack className="w-3 h-3" />
+          </button>
+          <button
+            onClick={playing ? stop : play}
+            className="p-1.5 bg-cyan-500/20 rounded-md text-cyan-300 hover:bg-cyan-500/30"
+          >
+            {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+          </button>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.001"
+            value={t}
+            onChange={(e) => scrub(parseFloat(e.target.value))}
+            className="flex-1 h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-[10px] font-mono">
+          <div className="flex flex-col">
+            <span className="text-[8px] uppercase text-zinc-500">Rotation</span>
+            <span className="text-zinc-300">{fmt((fit.angle * 180) / Math.PI)}°{fit.reflected ? " + mirror" : ""}</span>
+          </div>
+          <div className="flex flex-col">
+            <span className="text-[8px] uppercase text-zinc-500">Scale</span>
+            <span className="text-zinc-300">{fmt(fit.scale)}</span>
+          </div>
+          <div className="flex flex-col">
+            <span className="text-[8px] uppercase text-zinc-500">RMS error</span>
+            <span className="text-zinc-300">{fmt(fit.rms)}</span>
+          </div>
+          <div className="flex flex-col">
+            <span className="text-[8px] uppercase text-zinc-500">Translation</span>
+            <span style={{ color: TRANSLATION_COLOR }}>({fmt(fit.translation[0])}, {fmt(fit.translation[1])})</span>
+          </div>
+          <div className="flex flex-col col-span-2">
+            <span className="text-[8px] uppercase text-zinc-500">σ of H</span>
+            <span className="text-zinc-300">{fmt(fit.svd.s[0])}, {fmt(fit.svd.s[1])}</span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <MatrixDisplay label="H = Σ(pᵢ − p̄)(qᵢ − q̄)ᵀ" value={fit.covariance} />
+          <MatrixDisplay label="R = V diag(1, d) Uᵀ" value={fit.rotation} color="cyan" />
+        </div>
+
+        <p className="text-[8px] font-mono text-zinc-500 leading-relaxed">
+          With H = UΣVᵀ, d = sign det(VUᵀ) keeps R a rotation unless mirrors are allowed, and t = q̄ − cRp̄.
+          {options.scaling && " The scale is c = tr(Σ diag(1, d)) / Σ|pᵢ − p̄|²."}
+        </p>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Link2, Plus, Trash2, Layers, Info, Check, X } from 'lucide-react';
+import { Matrix2x2, IDENTITY, computeSVD, inverse, pseudoInverse } from '../utils/matrix';
+import { MAX_FACTORS, chainProduct, compositionChecks } from '../utils/composition';
+import { Pipeline, buildPipeline, chainPipeline, pseudoInversePipeline, subscript } from '../utils/pipelines';
+import { Shape } from '../utils/shapes';
+import { OverlayOptions, singularVectorArrows } from '../utils/overlays';
+import { ViewportOptions } from '../utils/viewport';
+import { PaletteId } from '../utils/palette';
+import { MatrixInput, MatrixDisplay } from './controls';
+import { TransformStage } from './TransformStage';
+
+// What the pipeline panels show: the whole chain, one factor's SVD, the
+// product's SVD or the product's pseudo-inverse
+type PipelineTarget = 'chain' | 'product' | 'pinv' | number;
+
+const fmt = (val: number) => (Number.isFinite(val) ? val.toFixed(4) : "∞");
+
+export const CompositionView = ({ 
+  factors, 
+  onChange, 
+  shape, 
+  overlays,
+  viewport,
+  palette
+}: { 
+  factors: Matrix2x2[]; 
+  onChange: (factors: Matrix2x2[]) => void; 
+  shape: Shape; 
+  overlays: OverlayOptions; 
+  viewport: ViewportOptions; 
+  palette?: PaletteId;
+}) => {
+  const [target, setTarget] = useState<PipelineTarget>('chain');
+
+  const product = useMemo(() => chainProduct(factors), [factors]);
+  const productSvd = useMemo(() => computeSVD(product), [product]);
+  const factorSvds = useMemo(() => factors.map(computeSVD), [factors]);
+  const checks = useMemo(() => compositionChecks(factorSvds, productSvd), [factorSvds, productSvd]);
+  const productInverse = useMemo(() => inverse(product), [product]);
+  const productPinv = useMemo(() => pseudoInverse(productSvd), [productSvd]);
+
+  // A removed factor may have been the one on show
+  const shown = typeof target === 'number' && target >= factors.length ? 'chain' : target;
+
+  const pipeline = useMemo<Pipeline>(() => {
+    if (shown === 'chain') return chainPipeline(factors);
+    if (shown === 'pinv') return pseudoInversePipeline(productSvd);
+    if (shown === 'product') return buildPipeline('svd', product, productSvd);
+    return buildPipeline('svd', factors[shown], factorSvds[shown]);
+  }, [shown, factors, product, productSvd, factorSvds]);
+
+  const arrowSvd = typeof shown === 'number' ? factorSvds[shown] : productSvd;
+  const inputArrows = useMemo(
+    () => (shown === 'pinv' ? [] : singularVectorArrows(arrowSvd, overlays, false)),
+    [shown, arrowSvd, overlays]
+  );
+  const outputArrows = useMemo(
+    () => (shown === 'pinv' ? [] : singularVectorArrows(arrowSvd, overlays, true)),
+    [shown, arrowSvd, overlays]
+  );
+
+  const updateFactor = (index: number, next: Matrix2x2) =>
+    onChange(factors.map((factor, i) => (i === index ? next : factor)));
+  const addFactor = () => onChange([...factors, IDENTITY]);
+  const removeFactor = (index: number) => onChange(factors.filter((_, i) => i !== index));
+
+  const targets: { id: PipelineTarget; label: string }[] = [
+    { id: 'chain', label: "Chain" },
+    ...factors.map((_, i) => ({ id: i, label: `A${subscript(i + 1)}` })),
+    { id: 'product', label: "P" },
+    { id: 'pinv', label: "P⁺" }
+  ];
+
+  return (
+    <main className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-8 items-start">
+
+      {/* Left Column: Factors and derived matrices */}
+      <div className="space-y-4 sm:space-y-8">
+        <section className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Link2 className="w-3 h-3 text-blue-500" />
+            <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Factors (applied in order)</h2>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {factors.map((factor, i) => (
+              <div key={i} className="relative">
+                <MatrixInput 
+                  label={`A${subscript(i + 1)} · σ = ${factorSvds[i].s.map(s => s.toFixed(2)).join(", ")}`} 
+                  value={factor} 
+                  onChange={next => updateFactor(i, next)} 
+                  color="blue"
+                />
+                {factors.length > 1 && (
+                  <button
+                    onClick={() => removeFactor(i)}
+                    title={`Remove A${subscript(i + 1)}`}
+                    className="absolute top-0 right-0 text-zinc-600 hover:text-red-400"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          {factors.length < MAX_FACTORS && (
+            <button
+              onClick={addFactor}
+              className="flex items-center gap-1 px-2 py-1 rounded-md border border-zinc-800 bg-zinc-900/50 text-[10px] font-mono text-zinc-500 hover:text-zinc-300 transition-all"
+            >
+              <Plus className="w-3 h-3" /> Add factor
+            </button>
+          )}
+        </section>
+
+        <section className="space-y-3">
+          <MatrixDisplay 
+            label={`P = ${factors.map((_, i) => `A${subscript(i + 1)}`).reverse().join("")} · σ = ${productSvd.s.map(s => s.toFixed(2)).join(", ")}`} 
+            value={product} 
+            color="emerald" 
+          />
+
+          <div className="flex flex-col gap-1 p-3 rounded-xl border border-zinc-800/50 bg-zinc-900/30">
+            {checks.map(check => (
+              <div key={check.label} className="flex items-center justify-between gap-2 text-[10px] font-mono">
+                <span className="text-zinc-500">{check.label}</span>
+                <span className={`flex items-center gap-1 ${check.holds ? "text-emerald-400" : "text-red-400"}`}>
+                  {fmt(check.lhs)} {check.relation} {fmt(check.rhs)}
+                  {check.holds ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {productInverse ? (
+              <MatrixDisplay label="P⁻¹" value={productInverse} color="amber" />
+            ) : (
+              <div className="flex flex-col gap-2">
+                <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">P⁻¹</span>
+                <div className="flex-1 flex items-center justify-center p-3 rounded-xl border border-red-500/20 bg-zinc-900/20 text-[10px] font-mono text-red-400 text-center">
+                  P is singular: no inverse
+                </div>
+              </div>
+            )}
+            <MatrixDisplay label="P⁺ = VΣ⁺Uᵀ" value={productPinv} color="purple" />
+          </div>
+        </section>
+      </div>
+
+      {/* Right Column: Pipelines */}
+      <section className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400 flex items-center gap-2">
+            <Layers className="w-3 h-3 text-blue-500" />
+            Pipeline
+          </h2>
+          <div className="flex items-center gap-2">
+            <div className="flex items-center gap-0.5 p-0.5 bg-zinc-900/50 rounded-md border border-zinc-800 text-[8px] font-mono">
+              {targets.map(option => (
+                <button
+                  key={String(option.id)}
+                  onClick={() => setTarget(option.id)}
+                  className={`px-1.5 py-0.5 rounded transition-all ${
+                    shown === option.id ? "bg-blue-500/20 text-blue-300" : "text-zinc-500 hover:text-zinc-300"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="hidden lg:block text-[8px] font-mono text-zinc-500">
+              {pipeline.formula}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 sm:gap-4">
+          <TransformStage 
+            matrix={IDENTITY} 
+            label="Original" 
+            subLabel="Identity"
+            shape={shape}
+            color="#71717a"
+            overlays={overlays}
+            arrows={inputArrows}
+            viewport={viewport}
+            palette={palette}
+          />
+          {pipeline.stages.map((stage, i) => (
+            <React.Fragment key={stage.subLabel}>
+              <TransformStage 
+                matrix={stage.matrix} 
+                label={`Step ${i + 1}`} 
+                subLabel={stage.subLabel}
+                shape={shape}
+                color={stage.color}
+                overlays={overlays}
+                arrows={i === pipeline.stages.length - 1 ? outputArrows : inputArrows}
+                viewport={viewport}
+                palette={palette}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+
+        <div className="hidden sm:flex items-start gap-2 p-3 bg-zinc-900/30 rounded-xl border border-zinc-800/50 text-[8px] text-zinc-500">
+          <Info className="w-2 h-2 shrink-0 mt-0.5" />
+          <p>{pipeline.note}</p>
+        </div>
+      </section>
+    </main>
+  );
+};
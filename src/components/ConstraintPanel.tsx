@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Lock, Unlock, AlertTriangle } from 'lucide-react';
+import { Matrix2x2, SVDResult } from '../utils/matrix';
+import { Constraint, constraintLabel, pinConstraint, pinEntry, sameConstraint } from '../utils/constraints';
+
+const SUBSCRIPT = ["₁", "₂"];
+
+const QUANTITIES: { kind: 'det' | 'trace' | 'condition'; label: string }[] = [
+  { kind: 'det', label: "det" },
+  { kind: 'trace', label: "tr" },
+  { kind: 'condition', label: "κ" },
+];
+
+const PROPERTIES: { kind: 'symmetric' | 'orthogonal'; label: string }[] = [
+  { kind: 'symmetric', label: "Symmetric" },
+  { kind: 'orthogonal', label: "Orthogonal" },
+];
+
+const Chip = ({
+  active,
+  label,
+  title,
+  disabled,
+  onClick
+}: {
+  active: boolean;
+  label: string;
+  title: string;
+  disabled?: boolean;
+  onClick: () => void;
+}) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    aria-pressed={active}
+    className={`flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-mono transition-all disabled:opacity-30 ${
+      active
+        ? "bg-amber-500/20 border-amber-500/50 text-amber-300"
+        : "bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300"
+    }`}
+  >
+    {active ? <Lock className="w-2.5 h-2.5" /> : <Unlock className="w-2.5 h-2.5" />}
+    {label}
+  </button>
+);
+
+export const ConstraintPanel = ({
+  constraints,
+  matrix,
+  svd,
+  error,
+  notice,
+  onChange
+}: {
+  constraints: Constraint[];
+  matrix: Matrix2x2;
+  svd: SVDResult;
+  // Why the last edit or lock was refused, if it was
+  error: string | null;
+  // Why the locks were dropped, when a lesson or preset replaced A
+  notice: string | null;
+  onChange: (constraints: Constraint[]) => void;
+}) => {
+  const find = (probe: Constraint) => constraints.find(c => sameConstraint(c, probe));
+
+  const toggle = (probe: Constraint) => {
+    onChange(find(probe) ? constraints.filter(c => !sameConstraint(c, probe)) : [...constraints, probe]);
+  };
+
+  return (
+    <section className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Lock className="w-3 h-3 text-amber-500" />
+        <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Constraints</h2>
+        {constraints.length > 0 && (
+          <button onClick={() => onChange([])} className="ml-auto text-[8px] font-mono text-zinc-500 hover:text-zinc-300">
+            Unlock all
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2 p-3 rounded-xl border border-zinc-800/50 bg-zinc-900/30">
+        <div className="flex flex-wrap gap-1">
+          {QUANTITIES.map(({ kind, label }) => {
+            const pinned = find({ kind, value: 0 });
+            const next = pinned ?? pinConstraint(kind, matrix, svd);
+            return (
+              <React.Fragment key={kind}>
+                <Chip
+                  active={!!pinned}
+                  label={pinned ? constraintLabel(pinned) : label}
+                  title={next ? `Keep ${constraintLabel(next)}` : "κ is infinite for a singular matrix"}
+                  disabled={!next}
+                  onClick={() => next && toggle(next)}
+                />
+              </React.Fragment>
+            );
+          })}
+          {PROPERTIES.map(({ kind, label }) => (
+            <React.Fragment key={kind}>
+              <Chip
+                active={!!find({ kind })}
+                label={label}
+                title={`Keep ${constraintLabel({ kind })}`}
+                onClick={() => toggle({ kind })}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="text-[8px] font-mono uppercase tracking-wider text-zinc-500">Entries</span>
+          <div className="grid grid-cols-2 gap-1">
+            {matrix.map((row, i) =>
+              row.map((_, j) => {
+                const probe = pinEntry(matrix, i, j);
+                const pinned = find(probe);
+                return (
+                  <React.Fragment key={`${i}-${j}`}>
+                    <Chip
+                      active={!!pinned}
+                      label={`a${SUBSCRIPT[i]}${SUBSCRIPT[j]}`}
+                      title={`Keep ${constraintLabel(pinned ?? probe)}`}
+                      onClick={() => toggle(probe)}
+                    />
+                  </React.Fragment>
+                );
+              })
+            )}
+          </div>
+        </div>
+
+        {error ? (
+          <div className="flex items-start gap-1.5 text-[8px] font-mono text-red-300">
+            <AlertTriangle className="w-3 h-3 shrink-0" />
+            <span>{error}</span>
+          </div>
+        ) : notice ? (
+          <div className="flex items-start gap-1.5 text-[8px] font-mono text-amber-300">
+            <Unlock className="w-3 h-3 shrink-0" />
+            <span>{notice}</span>
+          </div>
+        ) : constraints.length > 0 && (
+          <p className="text-[8px] font-mono text-zinc-500">
+            Edits to A, U, Σ and Vᵀ move the other values as little as possible to keep these.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+};
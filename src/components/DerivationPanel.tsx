@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import katex from 'katex';
+import 'katex/dist/katex.min.css';
+import { ChevronDown, ChevronRight, BookOpen } from 'lucide-react';
+import { Matrix2x2, SVDResult, explainSVD } from '../utils/matrix';
+
+const Tex = ({ children, block = false }: { children: string; block?: boolean }) => {
+  const html = useMemo(
+    () => katex.renderToString(children, { displayMode: block, throwOnError: false }),
+    [children, block]
+  );
+  return <span className={block ? "block overflow-x-auto" : undefined} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+// Fixed precision like MatrixDisplay, with -0.0000 cleaned up
+const fmt = (val: number) => {
+  const text = val.toFixed(4);
+  return text === "-0.0000" ? "0.0000" : text;
+};
+
+const bmatrix = (rows: number[][]) =>
+  `\\begin{bmatrix}${rows.map(row => row.map(fmt).join(" & ")).join(" \\\\ ")}\\end{bmatrix}`;
+
+const column = ([x, y]: [number, number]) => bmatrix([[x], [y]]);
+
+const Step = ({ index, title, children }: { index: number; title: string; children: React.ReactNode }) => (
+  <li className="flex flex-col gap-1">
+    <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">
+      {index}. {title}
+    </span>
+    <div className="text-zinc-200 text-sm">{children}</div>
+  </li>
+);
+
+// Explains the factors on screen, so with continuity on the signs and order
+// of vᵢ and uᵢ match the U and Vᵀ inputs rather than a fresh computeSVD
+export const DerivationPanel = ({ matrix, svd }: { matrix: Matrix2x2; svd: SVDResult }) => {
+  const [open, setOpen] = useState(false);
+  const trace = useMemo(() => explainSVD(matrix, svd), [matrix, svd]);
+  const { a, ata, lambda, sigma, swapped, v, u, uCompleted } = trace;
+  // det(AᵀA) grows like the 4th power of the entries, so past about 2^±250
+  // the unscaled AᵀA, λ and coefficients leave the double range
+  const extreme = Math.abs(trace.exponent) > 250;
+
+  return (
+    <section className="rounded-xl border border-zinc-800/50 bg-zinc-900/30">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 p-3 text-left"
+      >
+        {open ? <ChevronDown className="w-3 h-3 text-zinc-500" /> : <ChevronRight className="w-3 h-3 text-zinc-500" />}
+        <BookOpen className="w-3 h-3 text-blue-500" />
+        <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Where do these numbers come from?</h2>
+      </button>
+
+      {open && (
+        <ol className="flex flex-col gap-4 px-4 pb-4">
+          {extreme && (
+            <p className="text-[10px] text-zinc-500">
+              A's entries are too {trace.exponent > 0 ? "large" : "small"} to square in double precision, so AᵀA and λ
+              are worked out for <Tex>{`A / 2^{${trace.exponent}}`}</Tex> and shown scaled back, where they may read as 0 or ∞.
+              σ and the singular vectors are unaffected.
+            </p>
+          )}
+          <Step index={1} title="Form AᵀA">
+            <Tex block>{`A^\\top A = ${bmatrix([[a[0][0], a[1][0]], [a[0][1], a[1][1]]])}${bmatrix(a)} = ${bmatrix(ata)}`}</Tex>
+          </Step>
+
+          <Step index={2} title="Characteristic equation">
+            <Tex block>{`\\det(A^\\top A - \\lambda I) = \\lambda^2 - ${fmt(trace.trace)}\\,\\lambda + ${fmt(trace.det)} = 0`}</Tex>
+          </Step>
+
+          <Step index={3} title="Eigenvalues λ₁ ≥ λ₂">
+            <Tex block>{`\\lambda_{1,2} = \\frac{${fmt(trace.trace)} \\pm \\sqrt{${fmt(trace.discriminant)}}}{2}
+              \\quad\\Rightarrow\\quad \\lambda_1 = ${fmt(lambda[0])},\\; \\lambda_2 = ${fmt(lambda[1])}`}</Tex>
+          </Step>
+
+          <Step index={4} title="Singular values">
+            <Tex block>{swapped
+              ? `\\sigma_1 = \\sqrt{\\lambda_2} = ${fmt(sigma[0])}, \\quad \\sigma_2 = \\sqrt{\\lambda_1} = ${fmt(sigma[1])}`
+              : `\\sigma_1 = \\sqrt{\\lambda_1} = ${fmt(sigma[0])}, \\quad \\sigma_2 = \\sqrt{\\lambda_2} = ${fmt(sigma[1])}`}</Tex>
+            {swapped && (
+              <p className="text-[10px] text-zinc-500">
+                Continuity kept the factors nearest the previous ones, so Σ lists the smaller value first here.
+              </p>
+            )}
+          </Step>
+
+          <Step index={5} title="Right singular vectors">
+            <p className="text-[10px] text-zinc-500">
+              Unit solutions of <Tex>{`(A^\\top A - \\lambda_i I)\\,v_i = 0`}</Tex>, signed so that V is a rotation and ordered like the Vᵀ above.
+            </p>
+            <Tex block>{`v_1 = ${column(v[0])}, \\quad v_2 = ${column(v[1])}`}</Tex>
+          </Step>
+
+          <Step index={6} title="Left singular vectors">
+            {[0, 1].map(i => (
+              <React.Fragment key={i}>
+                {uCompleted[i] ? (
+                  <p className="text-[10px] text-zinc-500">
+                    <Tex>{`\\sigma_${i + 1} = 0`}</Tex>, so <Tex>{`u_${i + 1}`}</Tex> can't be computed as <Tex>{`Av_${i + 1}/\\sigma_${i + 1}`}</Tex>;
+                    it is chosen orthogonal to the others: <Tex>{`u_${i + 1} = ${column(u[i])}`}</Tex>
+                  </p>
+                ) : (
+                  <Tex block>{`u_${i + 1} = \\frac{A v_${i + 1}}{\\sigma_${i + 1}} = \\frac{1}{${fmt(sigma[i])}}${column([
+                    a[0][0] * v[i][0] + a[0][1] * v[i][1],
+                    a[1][0] * v[i][0] + a[1][1] * v[i][1]
+                  ])} = ${column(u[i])}`}</Tex>
+                )}
+              </React.Fragment>
+            ))}
+          </Step>
+        </ol>
+      )}
+    </section>
+  );
+};
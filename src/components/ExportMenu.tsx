@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Download, FileImage, Film, Loader2, AlertCircle, X } from 'lucide-react';
+import { Shape } from '../utils/shapes';
+import { OverlayOptions, StageArrow } from '../utils/overlays';
+import { MorphPhase, morphFrames } from '../utils/morph';
+import { FigurePanel, FigureOptions, DEFAULT_FIGURE_OPTIONS, figureSvg, figureSize, panelViewport } from '../utils/figure';
+import { ViewportOptions } from '../utils/viewport';
+import { PaletteId } from '../utils/palette';
+import { encodeGif } from '../utils/gif';
+import { downloadBlob, svgBlob, rasterizeSvg, canvasToBlob, videoFormat, recordCanvas } from '../utils/exporters';
+import { ToggleGroup } from './controls';
+
+// Matches the morph player's pacing
+const PHASE_DURATION = 1.5;
+const ANIMATION_FPS = 15;
+const ANIMATION_SIZE = 320;
+
+export const ExportMenu = ({ 
+  panels, 
+  shape, 
+  overlays, 
+  morph,
+  viewport,
+  palette
+}: { 
+  panels: FigurePanel[]; 
+  shape: Shape; 
+  overlays: OverlayOptions; 
+  // The animation: the active pipeline's phases, its title and the arrows
+  // that follow the transform, as on the last stage
+  morph: { phases: MorphPhase[]; title: string; arrows: StageArrow[] };
+  viewport: ViewportOptions;
+  palette: PaletteId;
+}) => {
+  const [open, setOpen] = useState(false);
+  // 'all' or the index of a single panel
+  const [selection, setSelection] = useState<'all' | number>('all');
+  const [toggles, setToggles] = useState({ axes: DEFAULT_FIGURE_OPTIONS.axes, grid: DEFAULT_FIGURE_OPTIONS.grid, labels: DEFAULT_FIGURE_OPTIONS.labels });
+  const [theme, setTheme] = useState<FigureOptions['theme']>(DEFAULT_FIGURE_OPTIONS.theme);
+  const [pixelRatio, setPixelRatio] = useState(2);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const options: FigureOptions = { ...toggles, theme, palette };
+  const chosen = selection === 'all' ? panels : [panels[Math.min(selection, panels.length - 1)]];
+  const video = videoFormat();
+
+  const run = async (task: () => Promise<void>) => {
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const exportSvg = () => downloadBlob(svgBlob(figureSvg(chosen, shape, overlays, options, viewport)), 'svd-stages.svg');
+
+  const exportPng = () => run(async () => {
+    setBusy("Rendering PNG");
+    const { width, height } = figureSize(chosen.length, 240, options);
+    const canvas = await rasterizeSvg(figureSvg(chosen, shape, overlays, options, viewport), width, height, pixelRatio);
+    downloadBlob(await canvasToBlob(canvas), 'svd-stages.png');
+  });
+
+  // Every frame is rasterized up front so recording runs at a steady pace
+  const renderFrames = async () => {
+    const frames = morphFrames(morph.phases, PHASE_DURATION, ANIMATION_FPS);
+    const { width, height } = figureSize(1, ANIMATION_SIZE, options);
+    const framePanels: FigurePanel[] = frames.map(frame => ({
+      matrix: frame.matrix,
+      translation: frame.translation,
+      title: morph.title,
+      subtitle: frame.label,
+      color: "#3b82f6",
+      arrows: morph.arrows
+    }));
+    // One frame for the whole morph, as in the player, so only the shape moves
+    const view = panelViewport(framePanels, shape, overlays, viewport);
+    const rendered: { pixels: ImageData; delay: number }[] = [];
+    for (let i = 0; i < frames.length; i++) {
+      setBusy(`Rendering frame ${i + 1}/${frames.length}`);
+      const panel = { ...framePanels[i], view };
+      const canvas = await rasterizeSvg(figureSvg([panel], shape, overlays, options, viewport, ANIMATION_SIZE), width, height, 1);
+      rendered.push({ pixels: canvas.getContext('2d')!.getImageData(0, 0, width, height), delay: frames[i].delay });
+    }
+    return { rendered, width, height };
+  };
+
+  const exportGif = () => run(async () => {
+    const { rendered, width, height } = await renderFrames();
+    setBusy("Encoding GIF");
+    // Let the status paint before the encoder blocks the thread
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const gif = encodeGif(width, height, rendered.map(frame => ({ pixels: frame.pixels.data, delay: frame.delay })));
+    downloadBlob(new Blob([gif], { type: 'image/gif' }), 'svd-morph.gif');
+  });
+
+  const exportVideo = () => run(async () => {
+    if (!video) throw new Error('This browser cannot record video');
+    const { rendered, width, height } = await renderFrames();
+    setBusy("Recording video");
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    const blob = await recordCanvas(canvas, rendered.length, async i => {
+      ctx.putImageData(rendered[i].pixels, 0, 0);
+      return rendered[i].delay;
+    }, video.mimeType);
+    downloadBlob(blob, `svd-morph.${video.extension}`);
+  });
+
+  const buttonClass = "flex items-center gap-1 px-2 py-1 rounded-md border border-zinc-800 bg-zinc-900/50 text-[10px] font-mono text-zinc-500 hover:text-zinc-300 disabled:opacity-40 transition-all";
+  const segmentClass = (active: boolean) =>
+    `px-1.5 py-0.5 rounded transition-all ${active ? "bg-blue-500/20 text-blue-300" : "text-zinc-500 hover:text-zinc-300"}`;
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(!open)} className={buttonClass} title="Export figures and animations">
+        <Download className="w-3 h-3" />
+        <span className="hidden sm:inline">Figure</span>
+      </button>
+
+      {open && (
+        <div className="absolute top-full right-0 mt-2 z-20 flex flex-col gap-2 w-72 p-3 bg-zinc-950/95 border border-zinc-800 rounded-xl shadow-xl text-[10px] font-mono">
+          <div className="flex items-center justify-between">
+            <span className="uppercase tracking-wider text-zinc-400">Export</span>
+            <button onClick={() => setOpen(false)} className="text-zinc-500 hover:text-zinc-300">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-0.5 p-0.5 bg-zinc-900/50 rounded-md border border-zinc-800 text-[8px]">
+            <button onClick={() => setSelection('all')} className={segmentClass(selection === 'all')}>All</button>
+            {panels.map((panel, i) => (
+              <button key={panel.title} onClick={() => setSelection(i)} className={segmentClass(selection === i)}>
+                {panel.title}
+              </button>
+            ))}
+          </div>
+
+          <ToggleGroup label="Show" value={toggles} labels={{ axes: "Axes", grid: "Grid", labels: "Labels" }} onChange={setToggles} />
+
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-0.5 p-0.5 bg-zinc-900/50 rounded-md border border-zinc-800 text-[8px] uppercase">
+              {(['dark', 'light'] as const).map(option => (
+                <button key={option} onClick={() => setTheme(option)} className={segmentClass(theme === option)}>
+                  {option}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-0.5 p-0.5 bg-zinc-900/50 rounded-md border border-zinc-800 text-[8px]">
+              {[1, 2, 4].map(ratio => (
+                <button key={ratio} onClick={() => setPixelRatio(ratio)} className={segmentClass(pixelRatio === ratio)}>
+                  {ratio}×
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            <button onClick={exportSvg} disabled={!!busy} className={buttonClass}>
+              <FileImage className="w-3 h-3" /> SVG
+            </button>
+            <button onClick={exportPng} disabled={!!busy} className={buttonClass}>
+              <FileImage className="w-3 h-3" /> PNG
+            </button>
+            <button onClick={exportGif} disabled={!!busy} className={buttonClass} title={`Animate ${morph.title}`}>
+              <Film className="w-3 h-3" /> GIF
+            </button>
+            <button onClick={exportVideo} disabled={!!busy || !video} className={buttonClass} title={`Animate ${morph.title}`}>
+              <Film className="w-3 h-3" /> {video ? video.extension.toUpperCase() : "Video"}
+            </button>
+          </div>
+
+          {busy && (
+            <p className="flex items-center gap-1 text-zinc-400">
+              <Loader2 className="w-3 h-3 animate-spin" /> {busy}
+            </p>
+          )}
+          {error && (
+            <p className="flex items-center gap-1 text-red-400">
+              <AlertCircle className="w-3 h-3 shrink-0" /> {error}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,358 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ImageIcon, Upload, Loader2, AlertCircle, Info } from 'lucide-react';
+import {
+  MAX_IMAGE_SIZE,
+  CHANNEL_NAMES,
+  ImageWorkerRequest,
+  ImageWorkerResponse,
+  compressionStats
+} from '../utils/imageSvd';
+
+interface SourceImage {
+  name: string;
+  data: ImageData;
+}
+
+// Bundled samples are drawn procedurally, so there are no assets to ship
+const SAMPLES: { name: string; draw: (ctx: CanvasRenderingContext2D, size: number) => void }[] = [
+  {
+    name: "Shapes",
+    draw: (ctx, size) => {
+      const gradient = ctx.createLinearGradient(0, 0, size, size);
+      gradient.addColorStop(0, "#1e3a8a");
+      gradient.addColorStop(1, "#f59e0b");
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, size, size);
+      ctx.fillStyle = "#10b981";
+      ctx.beginPath();
+      ctx.arc(size * 0.3, size * 0.35, size * 0.18, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.fillStyle = "#8b5cf6";
+      ctx.fillRect(size * 0.55, size * 0.5, size * 0.3, size * 0.3);
+      ctx.fillStyle = "#fafafa";
+      ctx.font = `bold ${size * 0.22}px sans-serif`;
+      ctx.fillText("SVD", size * 0.12, size * 0.9);
+    }
+  },
+  {
+    name: "Checkerboard",
+    // Rank 2 per channel: perfect reconstruction at k = 2
+    draw: (ctx, size) => {
+      const cell = size / 8;
+      for (let i = 0; i < 8; i++) {
+        for (let j = 0; j < 8; j++) {
+          ctx.fillStyle = (i + j) % 2 ? "#18181b" : "#e4e4e7";
+          ctx.fillRect(i * cell, j * cell, cell, cell);
+        }
+      }
+    }
+  },
+  {
+    name: "Waves",
+    draw: (ctx, size) => {
+      const image = ctx.createImageData(size, size);
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          const i = (y * size + x) * 4;
+          image.data[i] = 128 + 127 * Math.sin(x / 7 + y / 19);
+          image.data[i + 1] = 128 + 127 * Math.sin(Math.hypot(x - size / 2, y - size / 2) / 6);
+          image.data[i + 2] = 128 + 127 * Math.cos(x / 13) * Math.sin(y / 11);
+          image.data[i + 3] = 255;
+        }
+      }
+      ctx.putImageData(image, 0, 0);
+    }
+  }
+];
+
+const renderSample = (sample: typeof SAMPLES[number]): SourceImage => {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = MAX_IMAGE_SIZE;
+  const ctx = canvas.getContext('2d')!;
+  sample.draw(ctx, MAX_IMAGE_SIZE);
+  return { name: sample.name, data: ctx.getImageData(0, 0, MAX_IMAGE_SIZE, MAX_IMAGE_SIZE) };
+};
+
+// Decodes a local file and downscales it to fit MAX_IMAGE_SIZE
+const loadFile = async (file: File): Promise<SourceImage> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return { name: file.name, data: ctx.getImageData(0, 0, width, height) };
+};
+
+const PixelCanvas = ({ image, label }: { image: ImageData | null; label: string }) => {
+  const canvas = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!canvas.current || !image) return;
+    canvas.current.width = image.width;
+    canvas.current.height = image.height;
+    canvas.current.getContext('2d')!.putImageData(image, 0, 0);
+  }, [image]);
+
+  return (
+    <div className="flex flex-col items-center gap-1 p-2 bg-zinc-900/40 rounded-xl border border-zinc-800/50">
+      <span className="text-[10px] font-semibold text-zinc-100">{label}</span>
+      <canvas
+        ref={canvas}
+        className="w-full max-w-64 aspect-square object-contain bg-zinc-950 rounded"
+        style={{ imageRendering: 'pixelated' }}
+      />
+    </div>
+  );
+};
+
+const CHANNEL_COLORS = ["#ef4444", "#22c55e", "#3b82f6"];
+
+const SpectrumPlot = ({ spectra, k }: { spectra: number[][]; k: number }) => {
+  const width = 300;
+  const height = 120;
+  const pad = 4;
+  const count = Math.max(...spectra.map(s => s.length));
+  const all = spectra.flat().filter(sigma => sigma > 0);
+  // Log scale: the spectrum usually spans several orders of magnitude
+  const top = Math.log10(Math.max(...all));
+  const bottom = Math.max(top - 6, Math.log10(Math.min(...all)));
+  const x = (i: number) => pad + (i / Math.max(1, count - 1)) * (width - 2 * pad);
+  const y = (sigma: number) => {
+    const val = sigma > 0 ? Math.max(bottom, Math.log10(sigma)) : bottom;
+    return height - pad - ((val - bottom) / Math.max(1e-9, top - bottom)) * (height - 2 * pad);
+  };
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-32 bg-zinc-900/40 rounded-xl border border-zinc-800/50">
+      <rect x={pad} y={pad} width={x(k - 1) - pad} height={height - 2 * pad} fill="#10b98115" />
+      {spectra.map((spectrum, channel) => (
+        <polyline
+          key={channel}
+          points={spectrum.map((sigma, i) => `${x(i)},${y(sigma)}`).join(' ')}
+          fill="none"
+          stroke={CHANNEL_COLORS[channel]}
+          strokeWidth="1.25"
+          strokeOpacity="0.8"
+        />
+      ))}
+      <line x1={x(k - 1)} y1={pad} x2={x(k - 1)} y2={height - pad} stroke="#10b981" strokeWidth="1" strokeDasharray="3 2" />
+      <text x={width - pad} y={12} fontSize="9" fill="#71717a" textAnchor="end" className="font-mono">
+        log σᵢ per channel
+      </text>
+    </svg>
+  );
+};
+
+// --- Image Compression View ---
+
+export const ImageCompression = () => {
+  const worker = useRef<Worker | null>(null);
+  const requestId = useRef(0);
+  // Reconstructions are requested one at a time; the latest k wins
+  const inFlight = useRef(false);
+  const pendingK = useRef<number | null>(null);
+  // The worker only answers with pixels; remember the dimensions they belong to
+  const sourceSize = useRef({ width: 0, height: 0 });
+
+  const [source, setSource] = useState<SourceImage | null>(null);
+  const [spectra, setSpectra] = useState<number[][] | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [k, setK] = useState(10);
+  const [reconstructed, setReconstructed] = useState<ImageData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const send = (message: ImageWorkerRequest, transfer: Transferable[] = []) =>
+    worker.current?.postMessage(message, transfer);
+
+  const requestReconstruction = (nextK: number) => {
+    if (inFlight.current) {
+      pendingK.current = nextK;
+      return;
+    }
+    inFlight.current = true;
+    send({ type: 'reconstruct', id: requestId.current, k: nextK });
+  };
+
+  useEffect(() => {
+    const instance = new Worker(new URL('../workers/imageSvd.worker.ts', import.meta.url), { type: 'module' });
+    worker.current = instance;
+    instance.onmessage = (e: MessageEvent<ImageWorkerResponse>) => {
+      const message = e.data;
+      if (message.id !== requestId.current) return;
+      if (message.type === 'progress') {
+        setProgress(message.channel + 1);
+      } else if (message.type === 'decomposed') {
+        setSpectra(message.spectra);
+      } else if (message.type === 'reconstructed') {
+        inFlight.current = false;
+        setReconstructed(new ImageData(new Uint8ClampedArray(message.pixels), sourceSize.current.width, sourceSize.current.height));
+        if (pendingK.current !== null && pendingK.current !== message.k) {
+          const next = pendingK.current;
+          pendingK.current = null;
+          requestReconstruction(next);
+        } else {
+          pendingK.current = null;
+        }
+      } else if (message.type === 'error') {
+        inFlight.current = false;
+        setError(message.message);
+      }
+    };
+    setSource(renderSample(SAMPLES[0]));
+    return () => instance.terminate();
+  }, []);
+
+  // New image: decompose it off the main thread
+  useEffect(() => {
+    if (!source) return;
+    requestId.current += 1;
+    inFlight.current = false;
+    pendingK.current = null;
+    sourceSize.current = { width: source.data.width, height: source.data.height };
+    setSpectra(null);
+    setReconstructed(null);
+    setProgress(0);
+    setError(null);
+    const pixels = new Uint8ClampedArray(source.data.data);
+    send({
+      type: 'decompose',
+      id: requestId.current,
+      width: source.data.width,
+      height: source.data.height,
+      pixels
+    }, [pixels.buffer]);
+  }, [source]);
+
+  const maxK = source ? Math.min(source.data.width, source.data.height) : 1;
+  const clampedK = Math.min(k, maxK);
+
+  useEffect(() => {
+    if (spectra) requestReconstruction(clampedK);
+  }, [spectra, clampedK]);
+
+  const stats = useMemo(
+    () => (spectra && source ? compressionStats(spectra, clampedK, source.data.width, source.data.height) : null),
+    [spectra, clampedK, source]
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setSource(await loadFile(file));
+    } catch {
+      setError(`${file.name}: could not decode the image`);
+    }
+  };
+
+  const buttonClass = (active: boolean) =>
+    `flex items-center gap-1 px-2 py-1 rounded-md border text-[10px] font-mono transition-all ${
+      active
+        ? "bg-blue-500/20 border-blue-500/50 text-blue-300"
+        : "bg-zinc-900/50 border-zinc-800 text-zinc-500 hover:text-zinc-300"
+    }`;
+
+  return (
+    <main className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-8 items-start">
+
+      {/* Left Column: Source and controls */}
+      <div className="space-y-4 sm:space-y-8">
+        <section className="space-y-2">
+          <div className="flex items-center gap-2">
+            <ImageIcon className="w-3 h-3 text-blue-500" />
+            <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Image</h2>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {SAMPLES.map(sample => (
+              <button key={sample.name} onClick={() => setSource(renderSample(sample))} className={buttonClass(source?.name === sample.name)}>
+                {sample.name}
+              </button>
+            ))}
+            <button onClick={() => fileInput.current?.click()} className={buttonClass(false)}>
+              <Upload className="w-3 h-3" /> Load image
+            </button>
+            <input ref={fileInput} type="file" accept="image/*" onChange={handleFile} className="hidden" />
+          </div>
+          {error && (
+            <p className="flex items-center gap-1 text-[8px] font-mono text-red-400">
+              <AlertCircle className="w-2.5 h-2.5 shrink-0" /> {error}
+            </p>
+          )}
+          {source && (
+            <p className="text-[8px] font-mono text-zinc-500">
+              {source.name} · {source.data.width}×{source.data.height} px (scaled to at most {MAX_IMAGE_SIZE} px)
+            </p>
+          )}
+        </section>
+
+        <section className="space-y-3">
+          <div className="flex flex-col gap-3 p-4 bg-zinc-900/30 rounded-xl border border-zinc-800/50">
+            <div className="flex justify-between items-center">
+              <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">Singular values kept (k)</span>
+              <span className="text-xs font-mono text-zinc-300 bg-zinc-800 px-2 py-0.5 rounded">{clampedK} / {maxK}</span>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max={maxK}
+              step="1"
+              value={clampedK}
+              disabled={!spectra}
+              onChange={(e) => setK(parseInt(e.target.value, 10))}
+              className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+            />
+          </div>
+
+          {stats && (
+            <div className="grid grid-cols-3 gap-2 text-center">
+              {[
+                ["Storage", `${(stats.storageRatio * 100).toFixed(1)}%`],
+                ["Rel. error", `${(stats.relativeError * 100).toFixed(2)}%`],
+                ["Energy kept", `${(stats.energy * 100).toFixed(2)}%`]
+              ].map(([label, value]) => (
+                <div key={label} className="p-2 rounded-lg bg-zinc-900/40 border border-zinc-800/50">
+                  <div className="text-[8px] font-mono uppercase tracking-wider text-zinc-500">{label}</div>
+                  <div className="font-mono text-sm text-zinc-200">{value}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {spectra ? <SpectrumPlot spectra={spectra} k={clampedK} /> : (
+            <div className="flex items-center justify-center gap-2 h-32 bg-zinc-900/40 rounded-xl border border-zinc-800/50 text-[10px] font-mono text-zinc-500">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Decomposing {CHANNEL_NAMES[Math.min(progress, CHANNEL_NAMES.length - 1)]} channel ({progress}/{CHANNEL_NAMES.length})
+            </div>
+          )}
+        </section>
+      </div>
+
+      {/* Right Column: Original vs reconstruction */}
+      <section className="space-y-4">
+        <div className="grid grid-cols-2 gap-2 sm:gap-4">
+          <PixelCanvas image={source?.data ?? null} label="Original" />
+          <PixelCanvas image={reconstructed} label={`Rank ${clampedK}`} />
+        </div>
+        <div className="hidden sm:flex items-start gap-2 p-3 bg-zinc-900/30 rounded-xl border border-zinc-800/50 text-[8px] text-zinc-500">
+          <Info className="w-2 h-2 shrink-0 mt-0.5" />
+          <p>
+            Each colour channel is an m×n matrix A = UΣVᵀ. Keeping the top k terms σᵢuᵢvᵢᵀ stores k(m + n + 1) numbers
+            instead of mn, and by Eckart–Young no rank-k image is closer to the original.
+          </p>
+        </div>
+      </section>
+    </main>
+  );
+};
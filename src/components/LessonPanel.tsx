@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { GraduationCap, ChevronLeft, ChevronRight, X, Check, AlertCircle } from 'lucide-react';
+import { SVDResult } from '../utils/matrix';
+import { Lesson, LessonQuestion, checkAnswer } from '../utils/lessons';
+
+const CheckQuestion = ({ question, svd }: { question: LessonQuestion; svd: SVDResult }) => {
+  const [choice, setChoice] = useState<number | null>(null);
+  const [typed, setTyped] = useState('');
+  const [result, setResult] = useState<boolean | null>(null);
+
+  const submit = () => {
+    const answer = question.kind === 'choice' ? choice : parseFloat(typed);
+    if (answer === null || Number.isNaN(answer)) return;
+    setResult(checkAnswer(question, answer, svd));
+  };
+
+  return (
+    <div className="flex flex-col gap-2 p-2 rounded-lg bg-zinc-950/50 border border-zinc-800">
+      <p className="text-[10px] font-semibold text-zinc-200">{question.prompt}</p>
+      {question.kind === 'choice' ? (
+        <div className="flex flex-wrap gap-1">
+          {question.choices.map((label, i) => (
+            <button
+              key={label}
+              onClick={() => { setChoice(i); setResult(null); }}
+              className={`px-2 py-1 rounded-md border text-[10px] font-mono transition-all ${
+                choice === i
+                  ? "bg-amber-500/20 border-amber-500/50 text-amber-300"
+                  : "bg-zinc-900/50 border-zinc-800 text-zinc-500 hover:text-zinc-300"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <input
+          type="number"
+          step="any"
+          value={typed}
+          onChange={(e) => { setTyped(e.target.value); setResult(null); }}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          className="w-24 bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-xs font-mono text-zinc-200 focus:outline-none focus:border-amber-500/50"
+        />
+      )}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={submit}
+          className="px-2 py-1 rounded-md border border-amber-500/40 bg-amber-500/10 text-[10px] font-mono text-amber-300 hover:bg-amber-500/20 transition-all"
+        >
+          Check
+        </button>
+        {result !== null && (
+          <span className={`flex items-center gap-1 text-[10px] font-mono ${result ? "text-emerald-400" : "text-red-400"}`}>
+            {result ? <Check className="w-3 h-3" /> : <AlertCircle className="w-3 h-3" />}
+            {result ? "Correct" : "Not quite, try again"}
+          </span>
+        )}
+      </div>
+      {result && question.explanation && <p className="text-[10px] text-zinc-400">{question.explanation}</p>}
+    </div>
+  );
+};
+
+export const LessonPanel = ({ 
+  lessons, 
+  errors,
+  lesson, 
+  step, 
+  svd,
+  onStart, 
+  onStepChange, 
+  onExit 
+}: { 
+  lessons: Lesson[]; 
+  errors: string[];
+  lesson: Lesson | null; 
+  step: number; 
+  svd: SVDResult;
+  onStart: (lesson: Lesson) => void; 
+  onStepChange: (step: number) => void; 
+  onExit: () => void; 
+}) => {
+  const header = (
+    <div className="flex items-center gap-2">
+      <GraduationCap className="w-3 h-3 text-amber-500" />
+      <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">
+        {lesson ? lesson.title : "Lessons"}
+      </h2>
+      {lesson && (
+        <button onClick={onExit} title="Leave the lesson" className="ml-auto text-zinc-500 hover:text-zinc-300">
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+
+  if (!lesson) {
+    return (
+      <section className="space-y-2">
+        {header}
+        <div className="flex flex-wrap gap-1">
+          {lessons.map(option => (
+            <button
+              key={option.id}
+              title={option.summary}
+              onClick={() => onStart(option)}
+              className="px-2 py-1 rounded-md border border-zinc-800 bg-zinc-900/50 text-[10px] font-mono text-zinc-500 hover:text-amber-300 hover:border-amber-500/40 transition-all"
+            >
+              {option.title}
+            </button>
+          ))}
+        </div>
+        {errors.map(error => (
+          <p key={error} className="flex items-center gap-1 text-[8px] font-mono text-red-400">
+            <AlertCircle className="w-2.5 h-2.5 shrink-0" /> {error}
+          </p>
+        ))}
+      </section>
+    );
+  }
+
+  const current = lesson.steps[step];
+  const isLast = step === lesson.steps.length - 1;
+
+  return (
+    <section className="space-y-2">
+      {header}
+      <div className="flex flex-col gap-2 p-3 rounded-xl border border-amber-500/30 bg-amber-500/5">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-semibold text-zinc-100">{current.title}</span>
+          <span className="text-[10px] font-mono text-zinc-500">{step + 1} / {lesson.steps.length}</span>
+        </div>
+        <p className="text-[10px] text-zinc-400 leading-relaxed">{current.text}</p>
+        {/* Remount per step so the previous answer doesn't carry over */}
+        {current.question && (
+          <React.Fragment key={`${lesson.id}-${step}`}>
+            <CheckQuestion question={current.question} svd={svd} />
+          </React.Fragment>
+        )}
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => onStepChange(step - 1)}
+            disabled={step === 0}
+            className="flex items-center gap-1 text-[10px] font-mono text-zinc-500 hover:text-zinc-300 disabled:opacity-30"
+          >
+            <ChevronLeft className="w-3 h-3" /> Back
+          </button>
+          <button
+            onClick={() => (isLast ? onExit() : onStepChange(step + 1))}
+            className="flex items-center gap-1 text-[10px] font-mono text-amber-400 hover:text-amber-300"
+          >
+            {isLast ? "Finish" : "Next"} <ChevronRight className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
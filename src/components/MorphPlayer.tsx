@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { animate, useMotionValue, useMotionValueEvent, AnimationPlaybackControls } from 'motion/react';
+import { Play, Pause, SkipBack } from 'lucide-react';
+import { SVDResult } from '../utils/matrix';
+import { morphPhases, morphMatrix } from '../utils/morph';
+import { Shape } from '../utils/shapes';
+import { OverlayOptions, StageArrow } from '../utils/overlays';
+import { ViewportOptions } from '../utils/viewport';
+import { PaletteId, DEFAULT_PALETTE, paint } from '../utils/palette';
+import { MatrixDisplay } from './controls';
+import { TransformStage } from './TransformStage';
+
+// Seconds of playback per pipeline phase
+const PHASE_DURATION = 1.5;
+
+export const MorphPlayer = ({ 
+  svd, 
+  shape,
+  overlays,
+  arrows,
+  viewport,
+  palette = DEFAULT_PALETTE
+}: { 
+  svd: SVDResult; 
+  shape: Shape;
+  overlays?: OverlayOptions;
+  arrows?: StageArrow[];
+  viewport?: ViewportOptions;
+  palette?: PaletteId;
+}) => {
+  const phases = useMemo(() => morphPhases(svd), [svd]);
+  // Fit the whole animation once so the frame holds still during playback
+  const keyframes = useMemo(() => phases.flatMap(phase => [phase.at(0), phase.at(1)]), [phases]);
+  const total = phases.length;
+
+  // Timeline position in [0, total]; whole numbers are the static pipeline stages
+  const progress = useMotionValue(0);
+  const [t, setT] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const controls = useRef<AnimationPlaybackControls | null>(null);
+
+  useMotionValueEvent(progress, "change", setT);
+
+  const stop = () => {
+    controls.current?.stop();
+    controls.current = null;
+    setPlaying(false);
+  };
+
+  const play = () => {
+    // Restart from the beginning once the end has been reached
+    const from = progress.get() >= total ? 0 : progress.get();
+    progress.set(from);
+    setPlaying(true);
+    controls.current = animate(progress, total, {
+      duration: (total - from) * PHASE_DURATION,
+      ease: "linear",
+      onComplete: () => setPlaying(false)
+    });
+  };
+
+  const scrub = (value: number) => {
+    stop();
+    progress.set(value);
+  };
+
+  // Phases can appear or disappear when a mirror is toggled
+  useEffect(() => {
+    if (progress.get() > total) scrub(total);
+  }, [total]);
+
+  useEffect(() => () => controls.current?.stop(), []);
+
+  const matrix = morphMatrix(phases, t);
+  const index = Math.min(total - 1, Math.floor(t));
+  const current = t <= 0 ? null : phases[index];
+  const label = current ? `Step ${index + 1}` : "Original";
+  const subLabel = current ? current.label : "Identity";
+
+  return (
+    <div className="flex flex-col gap-3 p-3 bg-zinc-900/40 rounded-xl border border-zinc-800/50">
+      <div className="flex justify-center">
+        <TransformStage
+          matrix={matrix}
+          label={label}
+          subLabel={subLabel}
+          shape={shape}
+          color={current ? current.color : "#71717a"}
+          size={280}
+          smooth={false}
+          overlays={overlays}
+          arrows={arrows}
+          viewport={viewport}
+          palette={palette}
+          fitTo={keyframes}
+        />
+      </div>
+
+      {/* Timeline */}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => scrub(0)}
+          aria-label="Back to the start"
+          className="p-1.5 bg-zinc-800 rounded-md text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700"
+        >
+          <SkipBack className="w-3 h-3" />
+        </button>
+        <button
+          onClick={playing ? stop : play}
+          aria-label={playing ? "Pause" : "Play"}
+          className="p-1.5 bg-blue-500/20 rounded-md text-blue-300 hover:bg-blue-500/30"
+        >
+          {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+        </button>
+        <div className="flex-1 flex flex-col gap-1">
+          <input
+            type="range"
+            min="0"
+            max={total}
+            step="0.001"
+            value={t}
+            onChange={(e) => scrub(parseFloat(e.target.value))}
+            aria-label="Morph timeline"
+            aria-valuetext={current ? `${label}: ${subLabel}` : "Original"}
+            className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+          <div className="flex text-[8px] font-mono uppercase tracking-tighter">
+            {phases.map((phase, i) => (
+              <span
+                key={phase.label}
+                className="flex-1 text-center transition-colors"
+                style={{ color: paint(i === index && t > 0 ? phase.color : "#52525b", palette) }}
+              >
+                {phase.label}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <MatrixDisplay label={`Current transform (t = ${t.toFixed(2)})`} value={matrix} color="blue" />
+    </div>
+  );
+};
@@ -0,0 +1,280 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useMemo } from 'react';
+import { ScatterChart, Shuffle, Trash2, ClipboardPaste, Info, AlertTriangle, Eye } from 'lucide-react';
+import { IDENTITY } from '../utils/matrix';
+import { Point, Shape, pointCloud, parsePointCloud } from '../utils/shapes';
+import {
+  CloudOptions,
+  DEFAULT_CLOUD,
+  cloudCovariance,
+  fitPca,
+  gaussianCloud,
+  projectOntoPc1,
+  whiteningMatrix
+} from '../utils/pca';
+import { PC_COLORS, whiteningPipeline } from '../utils/pipelines';
+import { ViewportOptions } from '../utils/viewport';
+import { PaletteId, DEFAULT_PALETTE, paint } from '../utils/palette';
+import { MatrixDisplay } from './controls';
+import { TransformStage } from './TransformStage';
+
+// Clouds sit anywhere in the plane, so every stage frames its own points
+const FIT_VIEW: ViewportOptions = { fit: true, log: false };
+// Residual lines stop being readable past this many points
+const MAX_RESIDUALS = 300;
+const PROJECTION_COLOR = "#f472b6";
+
+const fmt = (val: number) => val.toFixed(3);
+
+const Slider = ({
+  label,
+  value,
+  min,
+  max,
+  step,
+  onChange
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (val: number) => void;
+}) => (
+  <label className="flex items-center gap-2 text-[8px] font-mono uppercase tracking-wider text-zinc-500">
+    <span className="w-8">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="flex-1 h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-pink-500"
+    />
+    <span className="w-10 text-right text-zinc-400">{value}</span>
+  </label>
+);
+
+export const PcaExplorer = ({ palette = DEFAULT_PALETTE }: { palette?: PaletteId }) => {
+  const [cloud, setCloud] = useState<CloudOptions>(DEFAULT_CLOUD);
+  const [seed, setSeed] = useState(1);
+  const [points, setPoints] = useState<Point[]>(() => gaussianCloud(DEFAULT_CLOUD, 1));
+  const [csv, setCsv] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [showProjections, setShowProjections] = useState(true);
+
+  const generate = (options: CloudOptions, nextSeed: number) => {
+    setCloud(options);
+    setSeed(nextSeed);
+    setPoints(gaussianCloud(options, nextSeed));
+    setError(null);
+  };
+
+  const loadCsv = () => {
+    try {
+      setPoints(parsePointCloud(csv));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const pca = useMemo(() => points.length >= 2 ? fitPca(points) : null, [points]);
+  const pipeline = useMemo(() => pca ? whiteningPipeline(pca) : null, [pca]);
+  const whiten = pca ? whiteningMatrix(pca) : null;
+
+  // The centred cloud, drawn back at the mean on the data stage
+  const shape = useMemo(() => pointCloud(pca ? pca.centered : points, "Data"), [pca, points]);
+
+  const projection = useMemo(() => {
+    if (!pca || !showProjections) return undefined;
+    const projected = projectOntoPc1(pca);
+    const residuals: Shape['parts'] = points.length <= MAX_RESIDUALS
+      ? points.map((p, i) => ({ kind: 'polyline', points: [p, projected[i]] }))
+      : [];
+    return {
+      matrix: IDENTITY,
+      shape: { id: 'projection', name: "PC1 projection", parts: [{ kind: 'points', points: projected }, ...residuals] },
+      label: "onto PC1",
+      color: PROJECTION_COLOR
+    };
+  }, [pca, points, showProjections]);
+
+  const buttonClass = "flex items-center gap-1 px-2 py-1 rounded-md border text-[10px] font-mono transition-all bg-zinc-900/50 border-zinc-800 text-zinc-500 hover:text-zinc-300";
+
+  return (
+    <main className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-8 items-start">
+      <div className="space-y-4 sm:space-y-8">
+        {/* Data */}
+        <section className="space-y-2">
+          <div className="flex items-center gap-2">
+            <ScatterChart className="w-3 h-3 text-pink-500" />
+            <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Data</h2>
+            <span className="ml-auto text-[10px] font-mono text-zinc-500">n = {points.length}</span>
+          </div>
+
+          <div className="flex flex-col gap-2 p-3 rounded-xl border border-zinc-800/50 bg-zinc-900/30">
+            <span className="text-[8px] font-mono uppercase tracking-wider text-zinc-500">Gaussian cloud</span>
+            <Slider label="σx" value={cloud.std[0]} min={0.05} max={3} step={0.05}
+              onChange={val => generate({ ...cloud, std: [val, cloud.std[1]] }, seed)} />
+            <Slider label="σy" value={cloud.std[1]} min={0.05} max={3} step={0.05}
+              onChange={val => generate({ ...cloud, std: [cloud.std[0], val] }, seed)} />
+            <Slider label="ρ" value={cloud.correlation} min={-0.95} max={0.95} step={0.05}
+              onChange={val => generate({ ...cloud, correlation: val }, seed)} />
+            <Slider label="n" value={cloud.count} min={10} max={1000} step={10}
+              onChange={val => generate({ ...cloud, count: val }, seed)} />
+            <div className="flex flex-wrap gap-1">
+              <button onClick={() => generate(cloud, seed + 1)} className={buttonClass}>
+                <Shuffle className="w-3 h-3" /> New sample
+              </button>
+              <button onClick={() => { setPoints([]); setError(null); }} className={buttonClass}>
+                <Trash2 className="w-3 h-3" /> Clear
+              </button>
+            </div>
+            <MatrixDisplay label="Population covariance" value={cloudCovariance(cloud)} color="purple" />
+          </div>
+
+          <div className="flex flex-col gap-2 p-3 rounded-xl border border-zinc-800/50 bg-zinc-900/30">
+            <span className="text-[8px] font-mono uppercase tracking-wider text-zinc-500">Paste CSV or JSON</span>
+            <textarea
+              value={csv}
+              onChange={(e) => setCsv(e.target.value)}
+              placeholder={"x,y\n0.5,1.2\n-0.3,0.8"}
+              rows={3}
+              className="w-full bg-zinc-950 border border-zinc-800 rounded-md p-2 text-[10px] font-mono text-zinc-300 focus:outline-none focus:border-pink-500/50"
+            />
+            <button onClick={loadCsv} disabled={!csv.trim()} className={`${buttonClass} self-start disabled:opacity-30`}>
+              <ClipboardPaste className="w-3 h-3" /> Load points
+            </button>
+            {error && (
+              <div className="flex items-start gap-1.5 text-[8px] font-mono text-red-300">
+                <AlertTriangle className="w-3 h-3 shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+          </div>
+        </section>
+
+        {/* Fit */}
+        {pca && (
+          <section className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Info className="w-3 h-3 text-pink-500" />
+              <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Principal Components</h2>
+            </div>
+            <div className="flex flex-col gap-3 p-3 rounded-xl border border-zinc-800/50 bg-zinc-900/30">
+              <div className="flex flex-col gap-1.5">
+                <span className="text-[8px] font-mono uppercase tracking-wider text-zinc-500">Explained variance</span>
+                {pca.explained.map((share, i) => (
+                  <div key={i} className="flex items-center gap-2 text-[10px] font-mono" role="meter" aria-label={`PC${i + 1} explained variance`} aria-valuenow={Math.round(share * 100)} aria-valuemin={0} aria-valuemax={100}>
+                    <span className="w-8" style={{ color: paint(PC_COLORS[i], palette) }}>PC{i + 1}</span>
+                    <div className="flex-1 h-2 bg-zinc-800 rounded-full overflow-hidden">
+                      <div className="h-full rounded-full" style={{ width: `${share * 100}%`, backgroundColor: paint(PC_COLORS[i], palette) }} />
+                    </div>
+                    <span className="w-12 text-right text-zinc-400">{(share * 100).toFixed(1)}%</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-3 gap-2 text-[10px] font-mono">
+                <div className="flex flex-col">
+                  <span className="text-[8px] uppercase text-zinc-500">Mean μ</span>
+                  <span className="text-zinc-300">({fmt(pca.mean[0])}, {fmt(pca.mean[1])})</span>
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-[8px] uppercase text-zinc-500">λ (variance)</span>
+                  <span className="text-zinc-300">{fmt(pca.variance[0])}, {fmt(pca.variance[1])}</span>
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-[8px] uppercase text-zinc-500">σ of D</span>
+                  <span className="text-zinc-300">{fmt(pca.singularValues[0])}, {fmt(pca.singularValues[1])}</span>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <MatrixDisplay label="Sample covariance C" value={pca.covariance} color="purple" />
+                <MatrixDisplay label="Principal axes U" value={pca.svd.u} color="amber" />
+                {whiten && <MatrixDisplay label="Whitening √(n−1) Σ⁻¹Uᵀ" value={whiten} color="emerald" />}
+              </div>
+
+              <p className="text-[8px] font-mono text-zinc-500 leading-relaxed">
+                The centred points are the columns of the 2×n data matrix D = UΣVᵀ. C = DDᵀ/(n−1) = U diag(λ) Uᵀ
+                shares its U, and λᵢ = σᵢ²/(n−1), so the 2×2 SVD of C gives the same axes.
+              </p>
+            </div>
+          </section>
+        )}
+      </div>
+
+      {/* Pipeline */}
+      <section className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Whitening Pipeline</h2>
+          <button
+            onClick={() => setShowProjections(!showProjections)}
+            aria-pressed={showProjections}
+            className={`flex items-center gap-1 text-[10px] font-mono px-1.5 py-0.5 rounded border transition-all ${
+              showProjections
+                ? "bg-pink-500/20 border-pink-500/50 text-pink-300"
+                : "bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300"
+            }`}
+          >
+            <Eye className="w-3 h-3" />
+            PC1 projections
+          </button>
+        </div>
+
+        {pipeline?.unavailable && (
+          <div className="flex items-center gap-2 p-2 bg-red-500/10 rounded-lg border border-red-500/30 text-[10px] font-mono text-red-300">
+            <AlertTriangle className="w-3 h-3 shrink-0" />
+            {pipeline.unavailable}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2 sm:gap-4">
+          <TransformStage
+            matrix={IDENTITY}
+            translation={pca ? pca.mean : undefined}
+            label="Data"
+            subLabel="Click to add points"
+            shape={shape}
+            color="#a1a1aa"
+            onCanvasClick={p => setPoints([...points, p])}
+            arrows={pipeline?.arrows}
+            comparison={projection}
+            viewport={FIT_VIEW}
+            palette={palette}
+          />
+          {pipeline?.stages.map((stage, i) => (
+            <React.Fragment key={stage.subLabel}>
+              <TransformStage
+                matrix={stage.matrix}
+                label={`Step ${i + 1}`}
+                subLabel={stage.subLabel}
+                shape={shape}
+                color={stage.color}
+                arrows={pipeline.arrows}
+                viewport={FIT_VIEW}
+                palette={palette}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+
+        <div className="flex items-start gap-2 p-3 bg-zinc-900/30 rounded-xl border border-zinc-800/50 text-[8px] text-zinc-500">
+          <Info className="w-2 h-2 shrink-0 mt-0.5" />
+          <p>
+            {pipeline
+              ? `${pipeline.formula}. ${pipeline.note}`
+              : "Click the data stage to place at least two points, generate a cloud or paste some."}
+          </p>
+        </div>
+      </section>
+    </main>
+  );
+};
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Matrix2x2 } from '../utils/matrix';
+import { PRESETS } from '../utils/presets';
+
+const sameMatrix = (a: Matrix2x2, b: Matrix2x2) => a.every((row, i) => row.every((val, j) => val === b[i][j]));
+
+export const PresetGallery = ({ 
+  value, 
+  onSelect 
+}: { 
+  value: Matrix2x2; 
+  onSelect: (matrix: Matrix2x2) => void; 
+}) => {
+  const active = PRESETS.find(preset => sameMatrix(preset.matrix, value));
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex flex-wrap gap-1">
+        {PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            title={preset.description}
+            onClick={() => onSelect(preset.matrix)}
+            className={`px-2 py-1 rounded-md border text-[10px] font-mono transition-all ${
+              active === preset
+                ? "bg-blue-500/20 border-blue-500/50 text-blue-300"
+                : "bg-zinc-900/50 border-zinc-800 text-zinc-500 hover:text-zinc-300"
+            }`}
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+      {active && <p className="text-[8px] font-mono text-zinc-500">{active.description}</p>}
+    </div>
+  );
+};
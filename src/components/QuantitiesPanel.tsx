@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo } from 'react';
+import { Sigma } from 'lucide-react';
+import { SVDResult, matrixQuantities, truncateSVD } from '../utils/matrix';
+
+const fmt = (val: number) => (Number.isFinite(val) ? val.toFixed(4) : "∞");
+
+const Quantity = ({ label, formula, value }: { label: string; formula: string; value: string }) => (
+  <div className="flex flex-col gap-0.5 p-2 rounded-lg bg-zinc-900/40 border border-zinc-800/50">
+    <span className="text-[8px] font-mono uppercase tracking-wider text-zinc-500">{label}</span>
+    <span className="font-mono text-sm text-zinc-200">{value}</span>
+    <span className="text-[8px] font-mono text-zinc-600">{formula}</span>
+  </div>
+);
+
+export const QuantitiesPanel = ({ 
+  svd, 
+  truncation, 
+  onTruncationChange 
+}: { 
+  svd: SVDResult; 
+  truncation: number; 
+  onTruncationChange: (k: number) => void; 
+}) => {
+  const q = useMemo(() => matrixQuantities(svd), [svd]);
+  const approx = useMemo(() => truncateSVD(svd, truncation), [svd, truncation]);
+
+  return (
+    <section className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Sigma className="w-3 h-3 text-emerald-500" />
+        <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Derived Quantities</h2>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Quantity label="Rank" formula="#{σᵢ > 0}" value={String(q.rank)} />
+        <Quantity label="Determinant" formula="±σ₁σ₂" value={fmt(q.det)} />
+        <Quantity label="Condition" formula="σ₁ / σ₂" value={fmt(q.condition)} />
+        <Quantity label="Spectral ‖A‖₂" formula="σ₁" value={fmt(q.spectralNorm)} />
+        <Quantity label="Frobenius ‖A‖_F" formula="√(σ₁² + σ₂²)" value={fmt(q.frobeniusNorm)} />
+        <Quantity label="Nuclear ‖A‖_*" formula="σ₁ + σ₂" value={fmt(q.nuclearNorm)} />
+      </div>
+
+      <div className="flex flex-col gap-2 p-3 rounded-xl border border-zinc-800/50 bg-zinc-900/30">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">Rank-k truncation</span>
+          <div className="flex items-center gap-0.5 p-0.5 bg-zinc-900/50 rounded-md border border-zinc-800 text-[10px] font-mono">
+            {[1, 2].map(k => (
+              <button
+                key={k}
+                onClick={() => onTruncationChange(k)}
+                className={`px-2 py-0.5 rounded transition-all ${
+                  truncation === k ? "bg-emerald-500/20 text-emerald-300" : "text-zinc-500 hover:text-zinc-300"
+                }`}
+              >
+                k = {k}
+              </button>
+            ))}
+          </div>
+        </div>
+        {truncation < 2 ? (
+          <p className="text-[10px] font-mono text-zinc-400 leading-relaxed">
+            A₁ = σ₁u₁v₁ᵀ is the closest rank-1 matrix to A (Eckart–Young):
+            ‖A − A₁‖₂ = σ₂ = {fmt(approx.spectralError)}, ‖A − A₁‖_F = {fmt(approx.frobeniusError)}.
+            It is drawn dashed on the final stage.
+          </p>
+        ) : (
+          <p className="text-[10px] font-mono text-zinc-500">Keeping every singular value reproduces A exactly.</p>
+        )}
+      </div>
+    </section>
+  );
+};
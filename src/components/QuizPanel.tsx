@@ -0,0 +1,355 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Dices, Trophy, Check, X, Eye, ChevronRight, Trash2, CircleHelp } from 'lucide-react';
+import { IDENTITY, reconstructMatrix } from '../utils/matrix';
+import { buildPipeline } from '../utils/pipelines';
+import { Shape } from '../utils/shapes';
+import { ViewportOptions } from '../utils/viewport';
+import { PaletteId } from '../utils/palette';
+import {
+  DEFAULT_QUIZ_OPTIONS,
+  QUIZ_KIND_LABELS,
+  QUIZ_OPTION_LABELS,
+  QuizAnswer,
+  QuizAttempt,
+  QuizGrade,
+  QuizKind,
+  QuizOptions,
+  clearQuizHistory,
+  generateProblem,
+  gradeFactors,
+  gradeMatch,
+  loadQuizHistory,
+  quizStats,
+  recordAttempt
+} from '../utils/quiz';
+import { MatrixDisplay, MatrixInput, SigmaInput, ToggleGroup } from './controls';
+import { TransformStage } from './TransformStage';
+
+const BLANK_ANSWER: QuizAnswer = { u: IDENTITY, s: [1, 1], vt: IDENTITY };
+const ANSWER_COLOR = "#f59e0b";
+// Attempts shown as dots under the score
+const RECENT = 20;
+
+const newSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+const fmt = (val: number) => String(Number(val.toFixed(4)));
+
+// localStorage can be missing or refuse writes (private windows, quotas);
+// the quiz then keeps its score for this visit only
+const storage = () => {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+export const QuizPanel = ({
+  shape,
+  viewport,
+  palette
+}: {
+  shape: Shape;
+  viewport?: ViewportOptions;
+  palette?: PaletteId;
+}) => {
+  const [kind, setKind] = useState<QuizKind>('factors');
+  const [options, setOptions] = useState<QuizOptions>(DEFAULT_QUIZ_OPTIONS);
+  const [seed, setSeed] = useState(newSeed);
+  const problem = useMemo(() => generateProblem(kind, options, seed), [kind, options, seed]);
+
+  const [answer, setAnswer] = useState<QuizAnswer>(BLANK_ANSWER);
+  const [grade, setGrade] = useState<QuizGrade | null>(null);
+  const [picked, setPicked] = useState<number[]>([]);
+  const [revealed, setRevealed] = useState(false);
+  // Only the first try at a problem counts towards the score
+  const [recorded, setRecorded] = useState(false);
+  const [history, setHistory] = useState<QuizAttempt[]>(() => {
+    const store = storage();
+    return store ? loadQuizHistory(store) : [];
+  });
+  const stats = quizStats(history);
+
+  const record = (correct: boolean) => {
+    if (recorded) return;
+    setRecorded(true);
+    const attempt: QuizAttempt = { time: Date.now(), kind, seed, options, correct };
+    try {
+      const store = storage();
+      setHistory(store ? recordAttempt(store, attempt) : [...history, attempt]);
+    } catch {
+      setHistory([...history, attempt]);
+    }
+  };
+
+  const start = (next: { kind?: QuizKind; options?: QuizOptions }) => {
+    if (next.kind) setKind(next.kind);
+    if (next.options) setOptions(next.options);
+    setSeed(newSeed());
+    setAnswer(BLANK_ANSWER);
+    setGrade(null);
+    setPicked([]);
+    setRevealed(false);
+    setRecorded(false);
+  };
+
+  const check = () => {
+    const result = gradeFactors(problem.matrix, answer);
+    setGrade(result);
+    record(result.correct);
+  };
+
+  const choose = (i: number) => {
+    const result = gradeMatch(problem, i);
+    setGrade(result);
+    setPicked([...picked, i]);
+    record(result.correct);
+  };
+
+  const reveal = () => {
+    setRevealed(true);
+    record(false);
+  };
+
+  const clearScores = () => {
+    const store = storage();
+    try {
+      setHistory(store ? clearQuizHistory(store) : []);
+    } catch {
+      setHistory([]);
+    }
+  };
+
+  const solved = revealed || !!grade?.correct;
+  const pipeline = useMemo(() => buildPipeline('svd', problem.matrix, problem.svd), [problem]);
+  const showPipeline = kind === 'match' || solved;
+
+  // The student's product, dashed over A once they've checked
+  const comparison = kind === 'factors' && grade ? {
+    matrix: reconstructMatrix(answer.u, answer.s, answer.vt),
+    label: "your UΣVᵀ",
+    color: ANSWER_COLOR
+  } : undefined;
+
+  const buttonClass = "flex items-center gap-1 px-2 py-1 rounded-md border text-[10px] font-mono transition-all bg-zinc-900/50 border-zinc-800 text-zinc-500 hover:text-zinc-300 disabled:opacity-30";
+
+  return (
+    <main className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-8 items-start">
+      <div className="space-y-4 sm:space-y-8">
+        {/* Problem */}
+        <section className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Dices className="w-3 h-3 text-amber-500" />
+            <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Practice</h2>
+            <div className="ml-auto flex items-center gap-0.5 p-0.5 bg-zinc-900/50 rounded-lg border border-zinc-800 text-[10px] font-mono">
+              {(Object.keys(QUIZ_KIND_LABELS) as QuizKind[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => start({ kind: id })}
+                  aria-pressed={kind === id}
+                  className={`px-2 py-1 rounded-md transition-all ${
+                    kind === id ? "bg-amber-500/20 text-amber-300" : "text-zinc-500 hover:text-zinc-300"
+                  }`}
+                >
+                  {QUIZ_KIND_LABELS[id]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <ToggleGroup label="Difficulty" value={options} labels={QUIZ_OPTION_LABELS} onChange={val => start({ options: val })} />
+
+          <div className="flex flex-col gap-3 p-3 rounded-xl border border-amber-500/30 bg-amber-500/5">
+            {kind === 'factors' ? (
+              <>
+                <p className="text-[10px] text-zinc-400 leading-relaxed">
+                  Find an SVD A = UΣVᵀ. Entries may be expressions such as sqrt(2)/2; any valid choice of signs
+                  and order is accepted.
+                </p>
+                <MatrixDisplay label="A" value={problem.matrix} color="blue" />
+                <div className="grid grid-cols-2 gap-2">
+                  <MatrixInput label="U" name="u" value={answer.u} color="purple" onChange={u => setAnswer({ ...answer, u })} />
+                  <MatrixInput label="Vᵀ" name="v" value={answer.vt} color="amber" onChange={vt => setAnswer({ ...answer, vt })} />
+                </div>
+                <SigmaInput value={answer.s} onChange={s => setAnswer({ ...answer, s })} />
+                <div className="flex flex-wrap gap-1">
+                  <button onClick={check} disabled={revealed} className={buttonClass}>
+                    <Check className="w-3 h-3" /> Check
+                  </button>
+                  <button onClick={reveal} disabled={solved} className={buttonClass}>
+                    <Eye className="w-3 h-3" /> Reveal
+                  </button>
+                  <button onClick={() => start({})} className={`${buttonClass} ml-auto`}>
+                    Next <ChevronRight className="w-3 h-3" />
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-[10px] text-zinc-400 leading-relaxed">
+                  The pipeline shows Vᵀ, Σ and U of a hidden matrix at work. Which matrix is it?
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {problem.choices.map((choice, i) => {
+                    const tried = picked.includes(i);
+                    const right = i === problem.answer;
+                    return (
+                      <button
+                        key={i}
+                        onClick={() => choose(i)}
+                        disabled={solved || tried}
+                        aria-label={`Choice ${i + 1}: ${choice.map(row => row.map(fmt).join(", ")).join("; ")}`}
+                        className={`p-1 rounded-xl border text-left transition-all ${
+                          tried && right ? "border-emerald-500/60 bg-emerald-500/10"
+                            : tried ? "border-red-500/60 bg-red-500/10"
+                            : "border-zinc-800 hover:border-amber-500/40"
+                        }`}
+                      >
+                        <MatrixDisplay label={`Choice ${i + 1}`} value={choice} />
+                      </button>
+                    );
+                  })}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  <button onClick={reveal} disabled={solved} className={buttonClass}>
+                    <Eye className="w-3 h-3" /> Reveal
+                  </button>
+                  <button onClick={() => start({})} className={`${buttonClass} ml-auto`}>
+                    Next <ChevronRight className="w-3 h-3" />
+                  </button>
+                </div>
+              </>
+            )}
+
+            {grade && (
+              <div className="flex flex-col gap-1" role="status">
+                <span className={`flex items-center gap-1 text-[10px] font-mono ${grade.correct ? "text-emerald-400" : "text-red-400"}`}>
+                  {grade.correct ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                  {grade.correct ? "Correct" : "Not quite"}
+                </span>
+                {kind === 'factors' && (
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 text-[8px] font-mono">
+                    {grade.checks.map(item => (
+                      <span key={item.name} className={item.passed ? "text-emerald-400" : "text-red-400"}>
+                        {item.passed ? "✓" : "✗"} {item.name}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {grade.feedback.map(line => (
+                  <p key={line} className="flex items-start gap-1 text-[10px] text-zinc-400">
+                    <CircleHelp className="w-3 h-3 shrink-0 mt-0.5" /> {line}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {revealed && (
+              <div className="grid grid-cols-3 gap-2">
+                {kind === 'match' && <MatrixDisplay label="A" value={problem.matrix} color="blue" />}
+                <MatrixDisplay label="U" value={problem.svd.u} color="purple" />
+                <MatrixDisplay label="Σ" value={[[problem.svd.s[0], 0], [0, problem.svd.s[1]]]} color="emerald" />
+                <MatrixDisplay label="Vᵀ" value={problem.svd.vt} color="amber" />
+              </div>
+            )}
+          </div>
+        </section>
+
+        {/* Score */}
+        <section className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Trophy className="w-3 h-3 text-amber-500" />
+            <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Score</h2>
+            <button
+              onClick={clearScores}
+              disabled={!history.length}
+              title="Clear the score history"
+              aria-label="Clear the score history"
+              className="ml-auto text-zinc-500 hover:text-zinc-300 disabled:opacity-30"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+          <div className="flex flex-col gap-2 p-3 rounded-xl border border-zinc-800/50 bg-zinc-900/30">
+            <div className="grid grid-cols-3 gap-2 text-[10px] font-mono">
+              <div className="flex flex-col">
+                <span className="text-[8px] uppercase text-zinc-500">Correct</span>
+                <span className="text-zinc-300">
+                  {stats.correct} / {stats.attempts}
+                  {stats.attempts > 0 && ` (${Math.round((stats.correct / stats.attempts) * 100)}%)`}
+                </span>
+              </div>
+              <div className="flex flex-col">
+                <span className="text-[8px] uppercase text-zinc-500">Streak</span>
+                <span className="text-zinc-300">{stats.streak}</span>
+              </div>
+              <div className="flex flex-col">
+                <span className="text-[8px] uppercase text-zinc-500">Best streak</span>
+                <span className="text-zinc-300">{stats.bestStreak}</span>
+              </div>
+            </div>
+            {history.length > 0 && (
+              <div className="flex gap-1" aria-hidden="true">
+                {history.slice(-RECENT).map((attempt, i) => (
+                  <span
+                    key={`${attempt.time}-${i}`}
+                    title={`${QUIZ_KIND_LABELS[attempt.kind]}, ${new Date(attempt.time).toLocaleString()}`}
+                    className={`w-2 h-2 rounded-full ${attempt.correct ? "bg-emerald-500" : "bg-red-500/70"}`}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </section>
+      </div>
+
+      {/* Pipeline */}
+      <section className="space-y-2">
+        <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">
+          {showPipeline ? "SVD Pipeline" : "A at Work"}
+        </h2>
+        <div className="grid grid-cols-2 gap-2 sm:gap-4">
+          <TransformStage
+            matrix={IDENTITY}
+            label="Original"
+            subLabel="Identity"
+            shape={shape}
+            color="#71717a"
+            viewport={viewport}
+            palette={palette}
+          />
+          {showPipeline ? pipeline.stages.map((stage, i) => (
+            <React.Fragment key={stage.subLabel}>
+              <TransformStage
+                matrix={stage.matrix}
+                label={`Step ${i + 1}`}
+                subLabel={stage.subLabel}
+                shape={shape}
+                color={stage.color}
+                comparison={i === pipeline.stages.length - 1 ? comparison : undefined}
+                viewport={viewport}
+                palette={palette}
+              />
+            </React.Fragment>
+          )) : (
+            <TransformStage
+              matrix={problem.matrix}
+              label="A"
+              subLabel="Factors hidden"
+              shape={shape}
+              color="#3b82f6"
+              comparison={comparison}
+              viewport={viewport}
+              palette={palette}
+            />
+          )}
+        </div>
+      </section>
+    </main>
+  );
+};
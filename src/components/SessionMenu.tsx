@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { Link, Download, Upload, Check, AlertCircle, X } from 'lucide-react';
+import { Session, SessionError, sessionToJSON, sessionFromJSON } from '../utils/session';
+
+export const SessionMenu = ({ 
+  session, 
+  onImport,
+  error,
+  onErrorChange
+}: { 
+  session: Session; 
+  onImport: (session: Session) => void; 
+  error: string | null;
+  onErrorChange: (error: string | null) => void;
+}) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async () => {
+    try {
+      // The hash is kept in sync with the state, so the current URL is the link
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      onErrorChange('Could not access the clipboard; copy the address bar instead');
+    }
+  };
+
+  const exportJSON = () => {
+    const blob = new Blob([sessionToJSON(session)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'svd-session.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(sessionFromJSON(await file.text()));
+      onErrorChange(null);
+    } catch (err) {
+      const message = err instanceof SessionError ? err.message : 'Could not read the file';
+      onErrorChange(`${file.name}: ${message}`);
+    }
+  };
+
+  const buttonClass = "flex items-center gap-1 px-2 py-1 rounded-md border border-zinc-800 bg-zinc-900/50 text-[10px] font-mono text-zinc-500 hover:text-zinc-300 transition-all";
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button onClick={copyLink} className={buttonClass} title="Copy a link to this exact configuration">
+        {copied ? <Check className="w-3 h-3 text-emerald-400" /> : <Link className="w-3 h-3" />}
+        <span className="hidden sm:inline">{copied ? "Copied" : "Link"}</span>
+      </button>
+      <button onClick={exportJSON} className={buttonClass} title="Download the session as JSON">
+        <Download className="w-3 h-3" />
+        <span className="hidden sm:inline">Export</span>
+      </button>
+      <button onClick={() => fileInput.current?.click()} className={buttonClass} title="Load a session JSON file">
+        <Upload className="w-3 h-3" />
+        <span className="hidden sm:inline">Import</span>
+      </button>
+      <input ref={fileInput} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+
+      {error && (
+        <div className="absolute top-full right-0 mt-2 z-10 flex items-start gap-2 w-64 p-2 bg-red-950/90 border border-red-500/40 rounded-lg text-[10px] font-mono text-red-300">
+          <AlertCircle className="w-3 h-3 shrink-0 mt-0.5" />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => onErrorChange(null)} className="text-red-400 hover:text-red-200">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { Pencil, Upload, Check, Trash2, AlertCircle } from 'lucide-react';
+import { Shape, SHAPES, parsePointCloud, pointCloud, customPolygon } from '../utils/shapes';
+
+export const ShapePicker = ({ 
+  shape, 
+  onChange,
+  drawing,
+  onDrawingChange
+}: { 
+  shape: Shape; 
+  onChange: (shape: Shape) => void; 
+  drawing: boolean;
+  onDrawingChange: (drawing: boolean) => void;
+}) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const select = (next: Shape) => {
+    setError(null);
+    onDrawingChange(false);
+    onChange(next);
+  };
+
+  const startDrawing = () => {
+    setError(null);
+    onChange(customPolygon([]));
+    onDrawingChange(true);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow re-importing the same file later
+    e.target.value = '';
+    if (!file) return;
+    try {
+      select(pointCloud(parsePointCloud(await file.text()), file.name));
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const buttonClass = (active: boolean) =>
+    `flex items-center gap-1 px-2 py-1 rounded-md border text-[10px] font-mono transition-all ${
+      active
+        ? "bg-blue-500/20 border-blue-500/50 text-blue-300"
+        : "bg-zinc-900/50 border-zinc-800 text-zinc-500 hover:text-zinc-300"
+    }`;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap gap-1">
+        {SHAPES.map(option => (
+          <button
+            key={option.id}
+            onClick={() => select(option)}
+            aria-pressed={shape.id === option.id}
+            className={buttonClass(shape.id === option.id)}
+          >
+            {option.name}
+          </button>
+        ))}
+        {drawing ? (
+          <>
+            <button onClick={() => onDrawingChange(false)} className={buttonClass(true)}>
+              <Check className="w-3 h-3" /> Done
+            </button>
+            <button onClick={() => onChange(customPolygon([]))} className={buttonClass(false)}>
+              <Trash2 className="w-3 h-3" /> Clear
+            </button>
+          </>
+        ) : (
+          <button onClick={startDrawing} className={buttonClass(shape.id === 'custom')}>
+            <Pencil className="w-3 h-3" /> Draw
+          </button>
+        )}
+        <button onClick={() => fileInput.current?.click()} className={buttonClass(shape.id === 'cloud')}>
+          <Upload className="w-3 h-3" /> Import
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.tsv,.txt,.json"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+      {drawing && (
+        <p className="text-[8px] font-mono text-blue-400">
+          Click on the Original stage to add vertices.
+        </p>
+      )}
+      {error && (
+        <p className="flex items-center gap-1 text-[8px] font-mono text-red-400">
+          <AlertCircle className="w-2.5 h-2.5 shrink-0" /> {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Code2, Copy, Check } from 'lucide-react';
+import { Matrix2x2, SVDResult } from '../utils/matrix';
+import { SnippetFormat, SNIPPET_FORMATS, SNIPPET_LABELS, decompositionSnippet } from '../utils/snippets';
+
+export const SnippetPanel = ({ matrix, svd }: { matrix: Matrix2x2; svd: SVDResult }) => {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<SnippetFormat>('latex');
+  const [precision, setPrecision] = useState(4);
+  const [exact, setExact] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  const snippet = useMemo(
+    () => decompositionSnippet(format, matrix, svd, { precision, exact }),
+    [format, matrix, svd, precision, exact]
+  );
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Without clipboard access the text can still be selected by hand
+    }
+  };
+
+  const segmentClass = (active: boolean) =>
+    `px-1.5 py-0.5 rounded transition-all ${active ? "bg-blue-500/20 text-blue-300" : "text-zinc-500 hover:text-zinc-300"}`;
+
+  return (
+    <section className="rounded-xl border border-zinc-800/50 bg-zinc-900/30">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 p-3 text-left"
+      >
+        {open ? <ChevronDown className="w-3 h-3 text-zinc-500" /> : <ChevronRight className="w-3 h-3 text-zinc-500" />}
+        <Code2 className="w-3 h-3 text-blue-500" />
+        <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Copy as code</h2>
+      </button>
+
+      {open && (
+        <div className="flex flex-col gap-2 px-4 pb-4">
+          <div className="flex flex-wrap items-center justify-between gap-2 text-[8px] font-mono">
+            <div className="flex items-center gap-0.5 p-0.5 bg-zinc-900/50 rounded-md border border-zinc-800">
+              {SNIPPET_FORMATS.map(option => (
+                <button key={option} onClick={() => setFormat(option)} className={segmentClass(format === option)}>
+                  {SNIPPET_LABELS[option]}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1 text-zinc-500">
+                Digits
+                <input
+                  type="number"
+                  min="0"
+                  max="12"
+                  value={precision}
+                  onChange={(e) => setPrecision(Math.max(0, Math.min(12, parseInt(e.target.value, 10) || 0)))}
+                  className="w-10 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-200 focus:outline-none"
+                />
+              </label>
+              <button onClick={() => setExact(!exact)} className={segmentClass(exact)} title="Write √2/2, 1/3, π/4… when the value matches">
+                Exact
+              </button>
+            </div>
+          </div>
+
+          <div className="relative">
+            <pre className="p-3 pr-8 rounded-lg bg-zinc-950/70 border border-zinc-800 text-[10px] font-mono text-zinc-300 overflow-x-auto whitespace-pre">
+              {snippet}
+            </pre>
+            <button onClick={copy} title="Copy to clipboard" className="absolute top-2 right-2 text-zinc-500 hover:text-zinc-300">
+              {copied ? <Check className="w-3 h-3 text-emerald-400" /> : <Copy className="w-3 h-3" />}
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
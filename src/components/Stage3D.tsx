@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useRef } from 'react';
+import { Matrix, applyTransformN } from '../utils/matrix';
+import { Vec3 } from '../utils/rotation3d';
+import { PaletteId, DEFAULT_PALETTE, paint } from '../utils/palette';
+import {
+  Camera,
+  UNIT_CUBE_EDGES,
+  BASIS_VECTORS,
+  sphereWireframe,
+  projectPoint
+} from '../utils/view3d';
+
+const SPHERE = sphereWireframe();
+
+export const Stage3D = ({ 
+  matrix, 
+  label, 
+  subLabel,
+  camera,
+  onCameraChange,
+  color = "#3b82f6",
+  palette = DEFAULT_PALETTE
+}: { 
+  matrix: Matrix; 
+  label: string; 
+  subLabel: string;
+  camera: Camera;
+  onCameraChange: (camera: Camera) => void;
+  color?: string;
+  palette?: PaletteId;
+}) => {
+  const ink = (c: string) => paint(c, palette);
+  const size = 150;
+  const padding = 15;
+  const scale = (size - padding * 2) / 4;
+  const drag = useRef<{ x: number; y: number; camera: Camera } | null>(null);
+
+  const toScreen = (p: Vec3) => {
+    const [x, y] = projectPoint(p, camera);
+    return `${size / 2 + x * scale},${size / 2 - y * scale}`;
+  };
+
+  const transform = (p: Vec3) => applyTransformN(matrix, p) as Vec3;
+
+  const paths = useMemo(() => {
+    const polyline = (line: Vec3[]) => line.map(p => toScreen(transform(p))).join(' ');
+    return {
+      sphere: SPHERE.map(polyline),
+      cube: UNIT_CUBE_EDGES.map(polyline),
+      basis: BASIS_VECTORS.map(({ vector, color, label }) => ({
+        points: polyline([[0, 0, 0], vector]),
+        tip: toScreen(transform(vector)).split(',').map(Number),
+        color,
+        label
+      })),
+      axes: ([[2, 0, 0], [0, 2, 0], [0, 0, 2]] as Vec3[]).map(axis =>
+        [toScreen(axis.map(v => -v) as Vec3), toScreen(axis)].join(' ')
+      )
+    };
+  }, [matrix, camera]);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: e.clientX, y: e.clientY, camera };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag.current) return;
+    const start = drag.current;
+    const limit = Math.PI / 2 - 0.01;
+    onCameraChange({
+      yaw: start.camera.yaw + (e.clientX - start.x) * 0.01,
+      pitch: Math.max(-limit, Math.min(limit, start.camera.pitch + (e.clientY - start.y) * 0.01))
+    });
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-1 p-2 bg-zinc-900/40 rounded-xl border border-zinc-800/50 backdrop-blur-sm">
+      <div className="text-center">
+        <h3 className="text-[10px] font-semibold text-zinc-100 leading-tight">{label}</h3>
+        <p className="text-[8px] font-mono text-zinc-500 uppercase tracking-tighter">{subLabel}</p>
+      </div>
+
+      <svg
+        width={size}
+        height={size}
+        viewBox={`0 0 ${size} ${size}`}
+        role="img"
+        aria-label={`${label}, ${subLabel}`}
+        className="overflow-visible cursor-grab active:cursor-grabbing touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {/* World axes */}
+        <g stroke={ink("#3f3f46")} strokeWidth="0.75">
+          {paths.axes.map((points, i) => (
+            <polyline key={i} points={points} />
+          ))}
+        </g>
+
+        {/* Unit sphere, mapped to an ellipsoid */}
+        <g fill="none" stroke={ink(color)} strokeOpacity="0.25" strokeWidth="0.5">
+          {paths.sphere.map((points, i) => (
+            <polyline key={i} points={points} />
+          ))}
+        </g>
+
+        {/* Reference solid */}
+        <g fill="none" stroke={ink(color)} strokeWidth="1.5" strokeLinejoin="round">
+          {paths.cube.map((points, i) => (
+            <polyline key={i} points={points} />
+          ))}
+        </g>
+
+        {/* Images of the basis vectors */}
+        {paths.basis.map(({ points, tip, color: basisColor, label: basisLabel }) => (
+          <g key={basisLabel}>
+            <polyline points={points} stroke={ink(basisColor)} strokeWidth="2" />
+            <circle cx={tip[0]} cy={tip[1]} r="2" fill={ink(basisColor)} />
+            <text x={tip[0] + 3} y={tip[1] - 3} fontSize="7" fill={ink(basisColor)} className="font-mono">
+              {basisLabel}
+            </text>
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+};
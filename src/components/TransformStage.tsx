@@ -0,0 +1,493 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Scan } from 'lucide-react';
+import { Matrix2x2, applyTransform, determinant } from '../utils/matrix';
+import { applyAffine, TRANSLATION_COLOR } from '../utils/affine';
+import { Point, Shape, SHAPES } from '../utils/shapes';
+import { OverlayOptions, StageArrow } from '../utils/overlays';
+import { PaletteId, DEFAULT_PALETTE, paint } from '../utils/palette';
+import { StepSizes, keyMove } from '../utils/keyboard';
+import { describeTransform } from '../utils/describe';
+import {
+  ViewportOptions,
+  DEFAULT_VIEWPORT,
+  ViewAdjust,
+  NO_ADJUST,
+  baseViewport,
+  adjustViewport,
+  zoomAt,
+  viewScale,
+  projectPoint,
+  gridLines,
+  formatTick,
+  unwarpPoint,
+  warpRadius,
+  densify
+} from '../utils/viewport';
+
+export interface StageHandle {
+  id: string;
+  position: Point; // Output-space coordinates
+  label: string;
+  color: string;
+  onDrag: (point: Point) => void;
+}
+
+const UNIT_CIRCLE = SHAPES.find(s => s.id === 'circle')!.parts[0].points;
+const UNIT_SQUARE = SHAPES.find(s => s.id === 'square')!.parts[0].points;
+const NO_TRANSLATION: Point = [0, 0];
+
+// Pieces per straight edge when drawing under the log warp
+const LOG_PIECES = 16;
+const ZOOM_STEP = 1.5;
+// Plane units per key press when moving a focused handle
+const HANDLE_STEPS: StepSizes = { fine: 0.01, normal: 0.1, coarse: 0.5 };
+
+export const TransformStage = ({ 
+  matrix, 
+  label, 
+  subLabel,
+  shape,
+  color = "#3b82f6",
+  size = 110, // Even smaller for mobile landscape
+  smooth = true,
+  onCanvasClick,
+  overlays,
+  arrows = [],
+  handles = [],
+  comparison,
+  translation = NO_TRANSLATION,
+  viewport = DEFAULT_VIEWPORT,
+  fitTo = [],
+  keepInView = [],
+  palette = DEFAULT_PALETTE
+}: { 
+  matrix: Matrix2x2; 
+  label: string; 
+  subLabel: string;
+  shape: Shape;
+  color?: string;
+  size?: number;
+  // CSS-tween shape changes; disable when the matrix is driven frame by frame
+  smooth?: boolean;
+  // Receives clicks on the canvas in plane coordinates (used to draw shapes)
+  onCanvasClick?: (point: Point) => void;
+  overlays?: OverlayOptions;
+  arrows?: StageArrow[];
+  // Draggable points (pointer and touch) drawn on top of everything else
+  handles?: StageHandle[];
+  // A second transform of the same shape (or of its own shape), drawn dashed
+  comparison?: { matrix: Matrix2x2; translation?: Point; shape?: Shape; label: string; color: string };
+  // Added after the matrix, making the stage affine. Shapes move; vectors
+  // (the arrows) don't, so they're drawn from the translated origin.
+  translation?: Point;
+  viewport?: ViewportOptions;
+  // Extra transforms auto-fit should leave room for (e.g. every morph keyframe)
+  fitTo?: Matrix2x2[];
+  // Extra plane points auto-fit should keep in frame
+  keepInView?: Point[];
+  palette?: PaletteId;
+}) => {
+  const padding = (size * 20) / 110;
+  const ink = (c: string) => paint(c, palette);
+  const summaryId = useId();
+
+  const transformedParts = useMemo(() => {
+    return shape.parts.map(part => ({
+      ...part,
+      points: part.points.map(p => applyAffine(matrix, translation, p))
+    }));
+  }, [matrix, translation, shape]);
+
+  const comparisonParts = useMemo(() => {
+    if (!comparison) return [];
+    const offset = comparison.translation ?? NO_TRANSLATION;
+    return (comparison.shape ?? shape).parts.map(part => ({
+      kind: part.kind,
+      points: part.points.map(p => applyAffine(comparison.matrix, offset, p))
+    }));
+  }, [comparison, shape]);
+
+  const det = determinant(matrix);
+  const ellipse = useMemo(() => UNIT_CIRCLE.map(p => applyAffine(matrix, translation, p)), [matrix, translation]);
+  const detPatch = useMemo(() => UNIT_SQUARE.map(p => applyAffine(matrix, translation, p)), [matrix, translation]);
+  const arrowTip = (m: Matrix2x2, arrow: StageArrow): Point => {
+    const [x, y] = arrow.transform ? applyTransform(m, arrow.vector) : arrow.vector;
+    return [translation[0] + x, translation[1] + y];
+  };
+
+  // Everything auto-fit has to keep in frame. The log view always includes
+  // the ellipse so its floor sits just below the smallest singular value.
+  const fitPoints = useMemo(() => {
+    const withEllipse = overlays?.ellipse || viewport.log;
+    return [matrix, ...fitTo].flatMap(m => [
+      ...shape.parts.flatMap(part => part.points.map(p => applyAffine(m, translation, p))),
+      ...(withEllipse ? UNIT_CIRCLE.map(p => applyAffine(m, translation, p)) : []),
+      ...arrows.map(arrow => arrowTip(m, arrow)),
+      ...comparisonParts.flatMap(part => part.points),
+      ...handles.map(handle => handle.position),
+      translation
+    ]).concat(keepInView);
+  }, [matrix, translation, fitTo, keepInView, shape, overlays, viewport.log, arrows, comparisonParts, handles]);
+
+  const base = useMemo(() => baseViewport(fitPoints, viewport), [fitPoints, viewport]);
+  const [adjust, setAdjust] = useState<ViewAdjust>(NO_ADJUST);
+  const view = adjustViewport(base, adjust);
+  const scale = viewScale(view, size, padding);
+
+  // A zoom or pan made in one mode means nothing in the other
+  useEffect(() => setAdjust(NO_ADJUST), [viewport.fit, viewport.log]);
+
+  const project = (p: Point): Point => projectPoint(view, size, scale, p);
+  const origin = project([0, 0]);
+  const anchor = project(translation);
+  const translated = translation[0] !== 0 || translation[1] !== 0;
+
+  // Screen position (in viewBox units) to warped plane coordinates
+  const toWarped = (sx: number, sy: number): Point =>
+    [view.center[0] + (sx - size / 2) / scale, view.center[1] - (sy - size / 2) / scale];
+
+  const grid = useMemo(
+    () => gridLines(view, size, scale),
+    [size, scale, view.extent, view.floor, view.center[0], view.center[1]]
+  );
+
+  // Arrows are drawn in screen space so their labels aren't mirrored
+  const screenArrows = arrows.map(arrow => {
+    const tip = project(arrowTip(matrix, arrow));
+    const [dx, dy] = [tip[0] - anchor[0], tip[1] - anchor[1]];
+    const len = Math.hypot(dx, dy);
+    const head = Math.min(size / 22, len / 2);
+    const [ux, uy] = len > 0 ? [dx / len, dy / len] : [0, 0];
+    const wings = [
+      [tip[0] - head * ux - 0.5 * head * uy, tip[1] - head * uy + 0.5 * head * ux],
+      [tip[0] - head * ux + 0.5 * head * uy, tip[1] - head * uy - 0.5 * head * ux]
+    ];
+    return { ...arrow, tip, head: [tip, ...wings].map(p => p.join(',')).join(' '), ux, uy };
+  });
+
+  const [dragging, setDragging] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const pan = useRef<{ x: number; y: number; start: ViewAdjust; moved: boolean } | null>(null);
+  // Set when a pan ends so the click that follows doesn't draw a point
+  const panned = useRef(false);
+
+  const toScreen = (e: { clientX: number; clientY: number }, el: Element): Point => {
+    const rect = el.getBoundingClientRect();
+    return [(e.clientX - rect.left) * (size / rect.width), (e.clientY - rect.top) * (size / rect.height)];
+  };
+
+  const toPlane = (e: React.PointerEvent<SVGSVGElement> | React.MouseEvent<SVGSVGElement>): Point =>
+    unwarpPoint(toWarped(...toScreen(e, e.currentTarget)), view.floor);
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (panned.current) {
+      panned.current = false;
+      return;
+    }
+    if (!onCanvasClick) return;
+    const [x, y] = toPlane(e);
+    onCanvasClick([Math.round(x * 100) / 100, Math.round(y * 100) / 100]);
+  };
+
+  const zoomBy = (factor: number, anchor: Point = view.center) =>
+    setAdjust(prev => zoomAt(base, prev, factor, anchor));
+
+  // Ctrl/Cmd + wheel (and trackpad pinch, which arrives as one) zooms about
+  // the cursor; a plain wheel keeps scrolling the page. React registers wheel
+  // listeners as passive, so this one is attached by hand.
+  const wheel = useRef<(e: WheelEvent) => void>(() => {});
+  wheel.current = (e: WheelEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || !svgRef.current) return;
+    e.preventDefault();
+    zoomBy(Math.exp(-e.deltaY / 200), toWarped(...toScreen(e, svgRef.current)));
+  };
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const listener = (e: WheelEvent) => wheel.current(e);
+    svg.addEventListener('wheel', listener, { passive: false });
+    return () => svg.removeEventListener('wheel', listener);
+  }, []);
+
+  // Dragging the background pans. Touch is left to page scrolling; the zoom
+  // buttons still work there.
+  const handleBackgroundDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.pointerType === 'touch' || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pan.current = { x: e.clientX, y: e.clientY, start: adjust, moved: false };
+  };
+
+  const handlePointerDown = (id: string) => (e: React.PointerEvent<SVGCircleElement>) => {
+    e.stopPropagation();
+    // Capture on the svg so the drag continues outside the handle
+    e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+    setDragging(id);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (pan.current) {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const dx = (e.clientX - pan.current.x) * (size / rect.width);
+      const dy = (e.clientY - pan.current.y) * (size / rect.height);
+      if (Math.hypot(dx, dy) > 3) pan.current.moved = true;
+      if (!pan.current.moved) return;
+      const { zoom, pan: [px, py] } = pan.current.start;
+      setAdjust({ zoom, pan: [px - dx / scale / base.extent, py + dy / scale / base.extent] });
+      return;
+    }
+    if (!dragging) return;
+    handles.find(handle => handle.id === dragging)?.onDrag(toPlane(e));
+  };
+
+  // Focused handles move with the arrow keys, for anyone not using a pointer
+  const handleKeyDown = (handle: StageHandle) => (e: React.KeyboardEvent<SVGCircleElement>) => {
+    const move = keyMove(e, HANDLE_STEPS);
+    if (!move) return;
+    e.preventDefault();
+    const round = (val: number) => Math.round(val * 100) / 100;
+    handle.onDrag([round(handle.position[0] + move[0]), round(handle.position[1] + move[1])]);
+  };
+
+  const handlePointerUp = () => {
+    if (pan.current?.moved) panned.current = true;
+    pan.current = null;
+    setDragging(null);
+  };
+
+  const toPath = (points: Point[], closed: boolean) => {
+    const screen = (view.floor === null ? points : densify(points, closed, LOG_PIECES)).map(project);
+    return `M ${screen[0][0]} ${screen[0][1]} ` +
+      screen.slice(1).map(p => `L ${p[0]} ${p[1]}`).join(' ') +
+      (closed ? ' Z' : '');
+  };
+
+  const unitRadius = warpRadius(1, view.floor) * scale;
+  const adjusted = adjust.zoom !== 1 || adjust.pan[0] !== 0 || adjust.pan[1] !== 0;
+  const comparisonColor = comparison ? ink(comparison.color) : "";
+
+  return (
+    <div className="flex flex-col items-center gap-1 p-2 bg-zinc-900/40 rounded-xl border border-zinc-800/50 backdrop-blur-sm">
+      <div className="text-center">
+        <h3 className="text-[10px] font-semibold text-zinc-100 leading-tight">{label}</h3>
+        <p className="text-[8px] font-mono text-zinc-500 uppercase tracking-tighter">{subLabel}</p>
+        {/* Not announced while the matrix is animated frame by frame */}
+        <p id={summaryId} className="sr-only" aria-live={smooth ? "polite" : "off"} aria-atomic="true">
+          {label}: {describeTransform(matrix, translation)}
+        </p>
+      </div>
+      
+      <div className="relative group">
+        <svg 
+          ref={svgRef}
+          width={size} 
+          height={size} 
+          viewBox={`0 0 ${size} ${size}`} 
+          role="group"
+          aria-label={`${label}, ${subLabel}`}
+          aria-describedby={summaryId}
+          className={`overflow-hidden ${onCanvasClick ? "cursor-crosshair" : "cursor-move"} ${handles.length ? "touch-none" : ""}`}
+          onClick={handleClick}
+          onPointerDown={handleBackgroundDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {/* Grid lines, or one ring per decade on the log scale */}
+          <g stroke={ink("#27272a")} strokeWidth="0.5">
+            {grid.xs.map(x => (
+              <line key={`x${x}`} x1={project([x, 0])[0]} y1={0} x2={project([x, 0])[0]} y2={size} />
+            ))}
+            {grid.ys.map(y => (
+              <line key={`y${y}`} x1={0} y1={project([0, y])[1]} x2={size} y2={project([0, y])[1]} />
+            ))}
+            {grid.rings.map(r => (
+              <circle key={r} cx={origin[0]} cy={origin[1]} r={warpRadius(r, view.floor) * scale} fill="none" />
+            ))}
+          </g>
+          {grid.rings.map(r => (
+            <text key={r} x={project([r, 0])[0] + 1} y={origin[1] + 7} fontSize="6" fill={ink("#52525b")} className="font-mono">
+              {formatTick(r)}
+            </text>
+          ))}
+          
+          {/* Axes */}
+          <line x1={0} y1={origin[1]} x2={size} y2={origin[1]} stroke={ink("#3f3f46")} strokeWidth="1" />
+          <line x1={origin[0]} y1={0} x2={origin[0]} y2={size} stroke={ink("#3f3f46")} strokeWidth="1" />
+
+          {/* Transformed Shape */}
+          <g>
+            {/* Unit Circle for reference */}
+            {unitRadius > 0 && (
+              <circle cx={origin[0]} cy={origin[1]} r={unitRadius} fill="none" stroke={ink("#27272a")} strokeWidth="1" strokeDasharray="4 4" />
+            )}
+
+            {/* Signed area: blue keeps orientation, red flips it */}
+            {overlays?.determinant && (
+              <path
+                d={toPath(detPatch, true)}
+                fill={`${ink(det >= 0 ? "#3b82f6" : "#ef4444")}40`}
+                stroke={ink(det >= 0 ? "#3b82f6" : "#ef4444")}
+                strokeWidth="1"
+                strokeDasharray="2 2"
+              />
+            )}
+            
+            {transformedParts.map((part, i) => {
+              const partColor = ink(part.color ?? color);
+              if (part.kind === 'points' || part.points.length < 2) {
+                return (
+                  <g key={i} fill={partColor}>
+                    {part.points.map((p, j) => (
+                      <circle key={j} cx={project(p)[0]} cy={project(p)[1]} r={size / 80} />
+                    ))}
+                  </g>
+                );
+              }
+              return (
+                <path
+                  key={i}
+                  d={toPath(part.points, part.kind === 'polygon')}
+                  fill={part.kind === 'polygon' ? `${partColor}30` : "none"}
+                  stroke={partColor}
+                  strokeWidth="2"
+                  strokeLinejoin="round"
+                  strokeLinecap="round"
+                  className={smooth ? "transition-all duration-700 ease-in-out" : undefined}
+                />
+              );
+            })}
+
+            {comparisonParts.map((part, i) => (
+              part.kind === 'points' || part.points.length < 2 ? (
+                <g key={`comparison-${i}`} fill="none" stroke={comparisonColor} strokeWidth="1">
+                  {part.points.map((p, j) => (
+                    <circle key={j} cx={project(p)[0]} cy={project(p)[1]} r={size / 60} />
+                  ))}
+                </g>
+              ) : (
+                <path
+                  key={`comparison-${i}`}
+                  d={toPath(part.points, part.kind === 'polygon')}
+                  fill="none"
+                  stroke={comparisonColor}
+                  strokeWidth="1.5"
+                  strokeDasharray="3 3"
+                />
+              )
+            ))}
+
+            {/* Image of the unit circle: an ellipse with semi-axes σ₁, σ₂ */}
+            {overlays?.ellipse && (
+              <path d={toPath(ellipse, true)} fill="none" stroke={ink("#e4e4e7")} strokeOpacity="0.6" strokeWidth="1" />
+            )}
+          </g>
+
+          {translated && (
+            <g stroke={ink(TRANSLATION_COLOR)} fill={ink(TRANSLATION_COLOR)}>
+              <line x1={origin[0]} y1={origin[1]} x2={anchor[0]} y2={anchor[1]} strokeWidth="1" strokeDasharray="2 2" />
+              <circle cx={anchor[0]} cy={anchor[1]} r={2} stroke="none" />
+              <text x={(origin[0] + anchor[0]) / 2 + 3} y={(origin[1] + anchor[1]) / 2 - 3} stroke="none" fontSize={Math.max(8, size / 14)} className="font-mono">
+                t
+              </text>
+            </g>
+          )}
+
+          {screenArrows.map(arrow => (
+            <g key={arrow.label} stroke={ink(arrow.color)} fill={ink(arrow.color)}>
+              <line 
+                x1={anchor[0]} 
+                y1={anchor[1]} 
+                x2={arrow.tip[0]} 
+                y2={arrow.tip[1]} 
+                strokeWidth="1.5" 
+                strokeDasharray={arrow.transform ? undefined : "3 2"} 
+              />
+              <polygon points={arrow.head} stroke="none" />
+              <text 
+                x={arrow.tip[0] + arrow.ux * 8} 
+                y={arrow.tip[1] + arrow.uy * 8 + 3} 
+                stroke="none" 
+                fontSize={Math.max(8, size / 14)} 
+                textAnchor="middle" 
+                className="font-mono"
+              >
+                {arrow.label}
+              </text>
+            </g>
+          ))}
+
+          {handles.map(handle => {
+            const [cx, cy] = project(handle.position);
+            return (
+              <g key={handle.id}>
+                <circle 
+                  cx={cx} 
+                  cy={cy} 
+                  r={dragging === handle.id ? 6 : 4.5} 
+                  fill={ink(handle.color)} 
+                  stroke="#09090b" 
+                  strokeWidth="1.5" 
+                  pointerEvents="none" 
+                />
+                {/* Larger invisible hit area, friendlier for touch */}
+                <circle 
+                  cx={cx} 
+                  cy={cy} 
+                  r={12} 
+                  fill="transparent" 
+                  tabIndex={0}
+                  role="button"
+                  aria-label={`${handle.label} at (${handle.position[0].toFixed(2)}, ${handle.position[1].toFixed(2)}); arrow keys move it`}
+                  className={`${dragging === handle.id ? "cursor-grabbing" : "cursor-grab"} outline-none focus-visible:stroke-zinc-100`}
+                  strokeWidth="1"
+                  onPointerDown={handlePointerDown(handle.id)}
+                  onKeyDown={handleKeyDown(handle)}
+                />
+                <text x={cx + 7} y={cy - 7} fontSize="8" fill={ink(handle.color)} className="font-mono" pointerEvents="none">
+                  {handle.label}
+                </text>
+              </g>
+            );
+          })}
+
+          {comparison && (
+            <text x={size - 4} y={10} fontSize={Math.max(7, size / 16)} fill={comparisonColor} textAnchor="end" className="font-mono">
+              {comparison.label}
+            </text>
+          )}
+
+          {overlays?.determinant && (
+            <text x={4} y={size - 4} fontSize={Math.max(7, size / 16)} fill={ink(det >= 0 ? "#60a5fa" : "#f87171")} className="font-mono">
+              det = {det.toFixed(2)}
+            </text>
+          )}
+
+          {grid.step !== 1 && (
+            <text x={size - 4} y={size - 4} fontSize={Math.max(7, size / 16)} fill={ink("#52525b")} textAnchor="end" className="font-mono">
+              {grid.step !== null ? `grid ${formatTick(grid.step)}` : "log r"}
+            </text>
+          )}
+        </svg>
+
+        <div className="absolute top-0.5 left-0.5 flex flex-col gap-0.5 opacity-40 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          <button onClick={() => zoomBy(ZOOM_STEP)} title="Zoom in (or Ctrl + scroll)" aria-label="Zoom in" className="p-0.5 rounded bg-zinc-900/80 text-zinc-400 hover:text-zinc-100">
+            <ZoomIn className="w-2.5 h-2.5" />
+          </button>
+          <button onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom out" aria-label="Zoom out" className="p-0.5 rounded bg-zinc-900/80 text-zinc-400 hover:text-zinc-100">
+            <ZoomOut className="w-2.5 h-2.5" />
+          </button>
+          {adjusted && (
+            <button onClick={() => setAdjust(NO_ADJUST)} title="Reset zoom and pan" aria-label="Reset view" className="p-0.5 rounded bg-zinc-900/80 text-zinc-400 hover:text-zinc-100">
+              <Scan className="w-2.5 h-2.5" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useMemo } from 'react';
+import { Grid3X3, Info, Settings2, Orbit, RotateCcw } from 'lucide-react';
+import {
+  Matrix,
+  SVDResultN,
+  computeSVDN,
+  reconstructMatrixN,
+  multiplyN,
+  transposeN,
+  identityN,
+  diagN
+} from '../utils/matrix';
+import {
+  EulerAngles,
+  MIRROR_Z,
+  fromEuler,
+  toOrthogonalFactor3
+} from '../utils/rotation3d';
+import { Camera, DEFAULT_CAMERA } from '../utils/view3d';
+import { PaletteId } from '../utils/palette';
+import { MatrixInput, MatrixDisplay, SigmaInput, EulerControls } from './controls';
+import { Stage3D } from './Stage3D';
+
+// --- 3x3 Visualizer ---
+
+// Same model as the 2D view: A is the source of truth, the SVD is kept
+// separately so factor edits don't round-trip through a re-decomposition.
+// Both live in App so they can be saved with the session.
+export const Visualizer3D = ({ 
+  matrixA, 
+  svd, 
+  onChange,
+  palette
+}: { 
+  matrixA: Matrix; 
+  svd: SVDResultN; 
+  // key groups continuous edits (a slider drag) into one undo step
+  onChange: (matrixA: Matrix, svd: SVDResultN, key?: string | null) => void;
+  palette?: PaletteId;
+}) => {
+  // One camera shared by every stage, so orbiting one orbits them all
+  const [camera, setCamera] = useState<Camera>(DEFAULT_CAMERA);
+
+  const factorU = useMemo(() => toOrthogonalFactor3(svd.u), [svd.u]);
+  const factorVT = useMemo(() => toOrthogonalFactor3(svd.vt), [svd.vt]);
+
+  // Handlers
+  const handleAChange = (newA: Matrix) => onChange(newA, computeSVDN(newA));
+
+  const updateU = (newU: Matrix, key: string | null = null) =>
+    onChange(reconstructMatrixN(newU, svd.s, svd.vt), { ...svd, u: newU }, key);
+
+  const updateVT = (newVT: Matrix, key: string | null = null) =>
+    onChange(reconstructMatrixN(svd.u, svd.s, newVT), { ...svd, v: transposeN(newVT), vt: newVT }, key);
+
+  const handleSigmaChange = (newS: number[]) =>
+    onChange(reconstructMatrixN(svd.u, newS, svd.vt), { ...svd, s: newS }, 'sigma');
+
+  const handleEulerUChange = (euler: EulerAngles) => updateU(fromEuler(euler, factorU.reflect), 'eulerU');
+  const handleEulerVTChange = (euler: EulerAngles) => updateVT(fromEuler(euler, factorVT.reflect), 'eulerVT');
+  const handleReflectUChange = (reflect: boolean) => updateU(fromEuler(factorU.euler, reflect));
+  const handleReflectVTChange = (reflect: boolean) => updateVT(fromEuler(factorVT.euler, reflect));
+
+  // Same stage layout as the 2D pipeline, mirrors across the xy-plane included
+  const stages = useMemo(() => {
+    const sigmaVT = multiplyN(diagN(svd.s), svd.vt);
+    const list: { matrix: Matrix; subLabel: string; color: string }[] = [];
+    if (factorVT.reflect) {
+      list.push({ matrix: MIRROR_Z, subLabel: "Mirror (Vᵀ)", color: "#ec4899" });
+    }
+    list.push({ matrix: svd.vt, subLabel: factorVT.reflect ? "Rotate (Vᵀ)" : "Apply Vᵀ", color: "#f59e0b" });
+    list.push({ matrix: sigmaVT, subLabel: "Apply Σ", color: "#10b981" });
+    if (factorU.reflect) {
+      list.push({ matrix: multiplyN(MIRROR_Z, sigmaVT), subLabel: "Mirror (U)", color: "#ec4899" });
+    }
+    list.push({ matrix: matrixA, subLabel: factorU.reflect ? "Rotate (U)" : "Apply U", color: "#8b5cf6" });
+    return list;
+  }, [svd, matrixA, factorU.reflect, factorVT.reflect]);
+
+  return (
+    <main className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-8 items-start">
+
+      {/* Left Column: Controls */}
+      <div className="space-y-4 sm:space-y-8">
+        {/* Matrix A */}
+        <section className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Settings2 className="w-3 h-3 text-blue-500" />
+            <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Original Matrix A</h2>
+          </div>
+          <MatrixInput 
+            label="Matrix A (3×3)" 
+            value={matrixA} 
+            onChange={handleAChange} 
+            color="blue"
+          />
+        </section>
+
+        {/* SVD Components */}
+        <section className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Grid3X3 className="w-3 h-3 text-purple-500" />
+            <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">SVD Components</h2>
+          </div>
+
+          <div className="grid grid-cols-1 gap-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <EulerControls
+                  label="U Euler Angles"
+                  euler={factorU.euler}
+                  onChange={handleEulerUChange}
+                  reflect={factorU.reflect}
+                  onReflectChange={handleReflectUChange}
+                  color="purple"
+                />
+                <MatrixDisplay label="U" value={svd.u} color="purple" />
+              </div>
+              <div className="space-y-2">
+                <EulerControls
+                  label="Vᵀ Euler Angles"
+                  euler={factorVT.euler}
+                  onChange={handleEulerVTChange}
+                  reflect={factorVT.reflect}
+                  onReflectChange={handleReflectVTChange}
+                  color="amber"
+                />
+                <MatrixDisplay label="Vᵀ" value={svd.vt} color="amber" />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <SigmaInput value={svd.s} onChange={handleSigmaChange} />
+            </div>
+          </div>
+        </section>
+      </div>
+
+      {/* Right Column: Visualization Pipeline */}
+      <section className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-[10px] font-bold uppercase tracking-widest text-zinc-400 flex items-center gap-2">
+            <Orbit className="w-3 h-3 text-blue-500" />
+            Pipeline
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setCamera(DEFAULT_CAMERA)}
+              className="flex items-center gap-1 text-[8px] font-mono text-zinc-500 hover:text-zinc-300"
+            >
+              <RotateCcw className="w-2.5 h-2.5" /> Reset view
+            </button>
+            <div className="text-[8px] font-mono text-zinc-500">
+              x → Vᵀx → ΣVᵀx → UΣVᵀx
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 sm:gap-4">
+          <Stage3D
+            matrix={identityN(3)}
+            label="Original"
+            subLabel="Identity"
+            camera={camera}
+            onCameraChange={setCamera}
+            color="#71717a"
+            palette={palette}
+          />
+          {stages.map((stage, i) => (
+            <React.Fragment key={stage.subLabel}>
+              <Stage3D
+                matrix={stage.matrix}
+                label={`Step ${i + 1}`}
+                subLabel={stage.subLabel}
+                camera={camera}
+                onCameraChange={setCamera}
+                color={stage.color}
+                palette={palette}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+
+        <div className="hidden sm:flex items-start gap-2 p-3 bg-zinc-900/30 rounded-xl border border-zinc-800/50 text-[8px] text-zinc-500">
+          <Info className="w-2 h-2 shrink-0 mt-0.5" />
+          <p>
+            Drag any stage to orbit the camera. The unit cube maps to the parallelepiped spanned by the columns of A, and the unit sphere to an ellipsoid with semi-axes σ₁, σ₂, σ₃.
+            {(factorU.reflect || factorVT.reflect) && " Mirrored factors are split into a reflection across the xy-plane followed by a rotation."}
+          </p>
+        </div>
+      </section>
+    </main>
+  );
+};
@@ -0,0 +1,541 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { FlipVertical2 } from 'lucide-react';
+import { Matrix } from '../utils/matrix';
+import { ExpressionError, evaluateEntry, entryText } from '../utils/expressions';
+import { EulerAngles } from '../utils/rotation3d';
+import { OverlayOptions, OVERLAY_LABELS } from '../utils/overlays';
+import { ViewportOptions, VIEWPORT_LABELS } from '../utils/viewport';
+import { StepSizes, keyStep } from '../utils/keyboard';
+import { PaletteId, PALETTE_IDS, PALETTE_LABELS } from '../utils/palette';
+
+// Degrees per key press on the rotation sliders
+const ANGLE_STEPS: StepSizes = { fine: 0.1, normal: 1, coarse: 15 };
+
+const gridCols: Record<number, string> = {
+  1: "grid-cols-1",
+  2: "grid-cols-2",
+  3: "grid-cols-3",
+};
+
+export const RotationSlider = ({ 
+  angle, 
+  onChange, 
+  label, 
+  color = "purple",
+  reflect,
+  onReflectChange,
+  limit = 180
+}: { 
+  angle: number; 
+  onChange: (val: number) => void; 
+  label: string;
+  color?: string;
+  reflect?: boolean;
+  onReflectChange?: (val: boolean) => void;
+  limit?: number;
+}) => {
+  const deg = (angle * 180) / Math.PI;
+  const degText = `${Number(deg.toFixed(1))}°`;
+
+  // Native range stepping has one size, so the arrow keys are handled here
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const step = keyStep(e, ANGLE_STEPS);
+    if (step === null) return;
+    e.preventDefault();
+    const next = Math.min(limit, Math.max(-limit, Math.round((deg + step) * 10) / 10));
+    onChange((next * Math.PI) / 180);
+  };
+  
+  const colorClasses: Record<string, string> = {
+    purple: "accent-purple-500",
+    amber: "accent-amber-500",
+  };
+
+  return (
+    <div className="flex flex-col gap-3 p-4 bg-zinc-900/30 rounded-xl border border-zinc-800/50">
+      <div className="flex justify-between items-center gap-2">
+        <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">{label}</span>
+        <div className="flex items-center gap-1">
+          {onReflectChange && (
+            <button
+              onClick={() => onReflectChange(!reflect)}
+              title="Mirror across the x-axis before rotating"
+              aria-label={`${label}: mirror across the x-axis before rotating`}
+              aria-pressed={!!reflect}
+              className={`flex items-center gap-1 text-[10px] font-mono px-1.5 py-0.5 rounded border transition-all ${
+                reflect
+                  ? "bg-pink-500/20 border-pink-500/50 text-pink-300"
+                  : "bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300"
+              }`}
+            >
+              <FlipVertical2 className="w-3 h-3" />
+              Mirror
+            </button>
+          )}
+          <span className="text-xs font-mono text-zinc-300 bg-zinc-800 px-2 py-0.5 rounded" aria-hidden="true">{degText}</span>
+        </div>
+      </div>
+      <input 
+        type="range" 
+        min={-limit} 
+        max={limit} 
+        step="0.1"
+        value={deg}
+        onChange={(e) => onChange((parseFloat(e.target.value) * Math.PI) / 180)}
+        onKeyDown={handleKeyDown}
+        aria-label={`${label} angle`}
+        aria-valuetext={`${degText}${reflect ? ", mirrored" : ""}`}
+        title="Arrow keys: 1°, Shift: 15°, Alt: 0.1°"
+        className={`w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer ${colorClasses[color]}`}
+      />
+    </div>
+  );
+};
+
+export const MatrixDisplay = ({ 
+  value, 
+  label, 
+  color = "blue" 
+}: { 
+  value: Matrix; 
+  label: string;
+  color?: string;
+}) => {
+  const colorClasses: Record<string, string> = {
+    blue: "border-blue-500/20",
+    purple: "border-purple-500/20",
+    emerald: "border-emerald-500/20",
+    cyan: "border-cyan-500/20",
+    amber: "border-amber-500/20",
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">{label}</span>
+      <div className={`grid ${gridCols[value.length]} gap-2 p-3 rounded-xl border bg-zinc-900/20 transition-all ${colorClasses[color]}`}>
+        {value.map((row, i) => 
+          row.map((val, j) => (
+            <div
+              key={`${i}-${j}`}
+              className="w-full text-center font-mono text-sm text-zinc-400 py-1"
+            >
+              {val.toFixed(4)}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+type Direction = 'up' | 'down' | 'left' | 'right';
+
+const SUBSCRIPT_DIGITS = "₀₁₂₃₄₅₆₇₈₉";
+// Column vectors only need the row: t₁, t₂
+const cellName = (prefix: string, i: number, j: number, cols = 2) =>
+  `${prefix}${SUBSCRIPT_DIGITS[i + 1]}${cols > 1 ? SUBSCRIPT_DIGITS[j + 1] : ""}`;
+
+// A single numeric entry that accepts expressions. The draft is free text
+// while focused and is only evaluated on Enter or blur; Escape reverts it.
+const EntryCell = ({ 
+  value, 
+  display, 
+  onCommit, 
+  onNavigate, 
+  onError, 
+  validate, 
+  inputRef, 
+  label, 
+  className,
+  steps,
+  min
+}: { 
+  value: number; 
+  // Text shown while the cell isn't being edited
+  display: string; 
+  onCommit: (val: number) => void; 
+  onNavigate?: (direction: Direction) => void; 
+  onError: (message: string | null) => void; 
+  validate?: (val: number) => string | null; 
+  inputRef?: (el: HTMLInputElement | null) => void; 
+  label: string; 
+  className: string; 
+  // Up/Down (and Page Up/Down) add or subtract these instead of navigating
+  steps?: StepSizes;
+  min?: number;
+}) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [invalid, setInvalid] = useState(false);
+
+  const commit = (): boolean => {
+    if (draft === null) return true;
+    try {
+      const num = evaluateEntry(draft);
+      const problem = validate?.(num);
+      if (problem) throw new ExpressionError(problem);
+      setDraft(null);
+      setInvalid(false);
+      onError(null);
+      if (num !== value) onCommit(num);
+      return true;
+    } catch (err) {
+      setInvalid(true);
+      onError(err instanceof Error ? err.message : String(err));
+      return false;
+    }
+  };
+
+  const revert = () => {
+    setDraft(null);
+    setInvalid(false);
+    onError(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const atStart = input.selectionStart === 0 && input.selectionEnd === 0;
+    const atEnd = input.selectionStart === input.value.length;
+    if (e.key === 'Enter') {
+      if (commit()) input.select();
+    } else if (e.key === 'Escape') {
+      revert();
+      input.blur();
+    } else if (steps && !e.key.endsWith('Left') && !e.key.endsWith('Right') && keyStep(e, steps) !== null) {
+      // Steps from whatever is typed, if it's valid
+      e.preventDefault();
+      let base = value;
+      try {
+        if (draft !== null) base = evaluateEntry(draft);
+      } catch {
+        return;
+      }
+      const next = Math.max(min ?? -Infinity, Number((base + keyStep(e, steps)!).toPrecision(12)));
+      setDraft(entryText(next));
+      setInvalid(false);
+      onError(null);
+      if (next !== value) onCommit(next);
+      requestAnimationFrame(() => input.select());
+    } else if (onNavigate && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      e.preventDefault();
+      onNavigate(e.key === 'ArrowUp' ? 'up' : 'down');
+    } else if (onNavigate && e.key === 'ArrowLeft' && atStart) {
+      e.preventDefault();
+      onNavigate('left');
+    } else if (onNavigate && e.key === 'ArrowRight' && atEnd) {
+      e.preventDefault();
+      onNavigate('right');
+    }
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      type="text"
+      inputMode="decimal"
+      spellCheck={false}
+      aria-label={label}
+      aria-invalid={invalid}
+      title={label}
+      value={draft ?? display}
+      onFocus={(e) => {
+        if (draft === null) setDraft(entryText(value));
+        // Select once React has swapped in the draft text
+        const input = e.currentTarget;
+        requestAnimationFrame(() => input.select());
+      }}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+      className={`${className} ${invalid ? "text-red-400 underline decoration-wavy decoration-red-500/60" : ""}`}
+    />
+  );
+};
+
+const ErrorList = ({ errors }: { errors: Record<string, string> }) => (
+  <>
+    {Object.entries(errors).map(([cell, message]) => (
+      <p key={cell} className="text-[8px] font-mono text-red-400">
+        {cell}: {message}
+      </p>
+    ))}
+  </>
+);
+
+// Tracks one error message per cell for the list under the grid
+const useCellErrors = () => {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const report = (cell: string) => (message: string | null) =>
+    setErrors(prev => {
+      const next = { ...prev };
+      if (message) next[cell] = message;
+      else delete next[cell];
+      return next;
+    });
+  return { errors, report };
+};
+
+export const MatrixInput = <M extends Matrix,>({ 
+  value, 
+  onChange, 
+  label, 
+  color = "blue",
+  name = "a"
+}: { 
+  value: M; 
+  onChange: (val: M) => void; 
+  label: string;
+  color?: string;
+  // Entry names for errors and screen readers: a₁₂, or t₂ for a vector
+  name?: string;
+}) => {
+  const rows = value.length;
+  const cols = value[0].length;
+  const cells = useRef<(HTMLInputElement | null)[]>([]);
+  const { errors, report } = useCellErrors();
+
+  const handleCommit = (row: number, col: number, num: number) => {
+    const next = value.map(r => [...r]) as M;
+    next[row][col] = num;
+    onChange(next);
+  };
+
+  // Arrow keys move between cells, wrapping at the edges
+  const navigate = (row: number, col: number) => (direction: Direction) => {
+    const [dr, dc] = { up: [-1, 0], down: [1, 0], left: [0, -1], right: [0, 1] }[direction];
+    const target = ((row + dr + rows) % rows) * cols + ((col + dc + cols) % cols);
+    cells.current[target]?.focus();
+  };
+
+  const colorClasses: Record<string, string> = {
+    blue: "border-blue-500/30 focus-within:border-blue-500",
+    purple: "border-purple-500/30 focus-within:border-purple-500",
+    emerald: "border-emerald-500/30 focus-within:border-emerald-500",
+    amber: "border-amber-500/30 focus-within:border-amber-500",
+    cyan: "border-cyan-500/30 focus-within:border-cyan-500",
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">{label}</span>
+      <div className={`grid ${gridCols[cols]} gap-2 p-3 rounded-xl border-2 bg-zinc-900/50 transition-all ${
+        Object.keys(errors).length ? "border-red-500/60" : colorClasses[color]
+      }`}>
+        {value.map((row, i) => 
+          row.map((val, j) => (
+            <React.Fragment key={`${i}-${j}`}>
+              <EntryCell
+                value={val}
+                display={val.toFixed(4)}
+                onCommit={(num) => handleCommit(i, j, num)}
+                onNavigate={navigate(i, j)}
+                onError={report(cellName(name, i, j, cols))}
+                inputRef={(el) => { cells.current[i * cols + j] = el; }}
+                label={cellName(name, i, j, cols)}
+                className="w-full bg-transparent text-center font-mono text-lg focus:outline-none text-zinc-200"
+              />
+            </React.Fragment>
+          ))
+        )}
+      </div>
+      <ErrorList errors={errors} />
+    </div>
+  );
+};
+
+// Four significant digits, switching to exponent form at the extremes
+const formatSigma = (sigma: number) =>
+  sigma === 0 || (sigma >= 1e-3 && sigma < 1e4) ? sigma.toPrecision(4) : sigma.toExponential(2);
+
+export const SigmaInput = <S extends number[],>({ 
+  value, 
+  onChange 
+}: { 
+  value: S; 
+  onChange: (val: S) => void; 
+}) => {
+  // The +/- step follows the largest σ: 0.1 around 1, 10 around 100
+  const step = 10 ** (Math.floor(Math.log10(Math.max(...value, 0.1))) - 1);
+  const steps: StepSizes = { fine: step / 10, normal: step, coarse: step * 10 };
+
+  const adjust = (idx: number, delta: number) => {
+    const next = [...value] as S;
+    next[idx] = Math.max(0, Number((next[idx] + delta).toPrecision(12)));
+    onChange(next);
+  };
+
+  const { errors, report } = useCellErrors();
+
+  const handleCommit = (idx: number, num: number) => {
+    const next = [...value] as S;
+    next[idx] = num;
+    onChange(next);
+  };
+
+  const validate = (num: number) => (num < 0 ? "σ must be non-negative" : null);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">Σ (Scaling)</span>
+      <div className={`grid ${gridCols[value.length]} gap-2 p-3 rounded-xl border-2 border-emerald-500/30 bg-zinc-900/50 focus-within:border-emerald-500 transition-all`}>
+        {value.map((_, i) =>
+          value.map((sigma, j) => i === j ? (
+            <div key={`${i}-${j}`} className="flex flex-col items-center">
+              <EntryCell
+                value={sigma}
+                display={formatSigma(sigma)}
+                onCommit={(num) => handleCommit(i, num)}
+                onError={report(`σ${SUBSCRIPT_DIGITS[i + 1]}`)}
+                validate={validate}
+                label={`σ${SUBSCRIPT_DIGITS[i + 1]}`}
+                className="w-full bg-transparent text-center font-mono text-lg focus:outline-none text-zinc-200"
+                steps={steps}
+                min={0}
+              />
+              <div className="flex gap-1 mt-1">
+                <button 
+                  onClick={() => adjust(i, -step)} 
+                  title={`−${step} (or ↓ in the cell; Shift ×10, Alt ÷10)`} 
+                  aria-label={`Decrease σ${SUBSCRIPT_DIGITS[i + 1]} by ${step}`} 
+                  className="px-2 bg-zinc-800 rounded text-xs hover:bg-zinc-700"
+                >
+                  -
+                </button>
+                <button 
+                  onClick={() => adjust(i, step)} 
+                  title={`+${step} (or ↑ in the cell; Shift ×10, Alt ÷10)`} 
+                  aria-label={`Increase σ${SUBSCRIPT_DIGITS[i + 1]} by ${step}`} 
+                  className="px-2 bg-zinc-800 rounded text-xs hover:bg-zinc-700"
+                >
+                  +
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div key={`${i}-${j}`} className="w-full text-center font-mono text-lg text-zinc-600" aria-hidden="true">0.0000</div>
+          ))
+        )}
+      </div>
+      <ErrorList errors={errors} />
+    </div>
+  );
+};
+
+export const EulerControls = ({ 
+  euler, 
+  onChange, 
+  label, 
+  color = "purple",
+  reflect,
+  onReflectChange
+}: { 
+  euler: EulerAngles; 
+  onChange: (val: EulerAngles) => void; 
+  label: string;
+  color?: string;
+  reflect: boolean;
+  onReflectChange: (val: boolean) => void;
+}) => {
+  const names = ["Yaw (z)", "Pitch (y)", "Roll (x)"];
+  // Pitch is kept in [-90°, 90°] so the angles read back from the matrix match the sliders
+  const limits = [180, 90, 180];
+
+  const handleChange = (idx: number, angle: number) => {
+    const next = [...euler] as EulerAngles;
+    next[idx] = angle;
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-xs font-mono uppercase tracking-wider text-zinc-500">{label}</span>
+      {names.map((name, i) => (
+        <React.Fragment key={name}>
+          <RotationSlider
+            label={name}
+            angle={euler[i]}
+            onChange={(val) => handleChange(i, val)}
+            color={color}
+            limit={limits[i]}
+            reflect={i === 0 ? reflect : undefined}
+            onReflectChange={i === 0 ? onReflectChange : undefined}
+          />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export const ToggleGroup = <T extends { [K in keyof T]: boolean },>({ 
+  label, 
+  value, 
+  labels, 
+  onChange 
+}: { 
+  label: string; 
+  value: T; 
+  labels: Record<keyof T, string>; 
+  onChange: (val: T) => void; 
+}) => {
+  const keys = Object.keys(labels) as (keyof T & string)[];
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <span className="text-[8px] font-mono uppercase tracking-wider text-zinc-500 mr-1">{label}</span>
+      {keys.map(key => (
+        <button
+          key={key}
+          onClick={() => onChange({ ...value, [key]: !value[key] })}
+          aria-pressed={value[key]}
+          className={`px-2 py-1 rounded-md border text-[10px] font-mono transition-all ${
+            value[key]
+              ? "bg-zinc-700/50 border-zinc-500 text-zinc-100"
+              : "bg-zinc-900/50 border-zinc-800 text-zinc-500 hover:text-zinc-300"
+          }`}
+        >
+          {labels[key]}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export const OverlayToggles = ({ 
+  value, 
+  onChange 
+}: { 
+  value: OverlayOptions; 
+  onChange: (val: OverlayOptions) => void; 
+}) => <ToggleGroup label="Overlays" value={value} labels={OVERLAY_LABELS} onChange={onChange} />;
+
+export const ViewportToggles = ({ 
+  value, 
+  onChange 
+}: { 
+  value: ViewportOptions; 
+  onChange: (val: ViewportOptions) => void; 
+}) => <ToggleGroup label="View" value={value} labels={VIEWPORT_LABELS} onChange={onChange} />;
+
+export const PaletteSelect = ({ 
+  value, 
+  onChange 
+}: { 
+  value: PaletteId; 
+  onChange: (val: PaletteId) => void; 
+}) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as PaletteId)}
+    aria-label="Colour palette"
+    title="Colour palette"
+    className="bg-zinc-900/50 border border-zinc-800 rounded-md px-1.5 py-1 text-[10px] font-mono text-zinc-400 focus:outline-none focus:border-blue-500/50"
+  >
+    {PALETTE_IDS.map(id => (
+      <option key={id} value={id}>{PALETTE_LABELS[id]}</option>
+    ))}
+  </select>
+);
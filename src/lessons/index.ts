@@ -0,0 +1,6 @@
+import { loadLessons } from '../utils/lessons';
+
+// Every JSON file in this folder is a lesson, listed in file-name order
+const files = import.meta.glob('./*.json', { eager: true, import: 'default' });
+
+export const { lessons: LESSONS, errors: LESSON_ERRORS } = loadLessons(files);
@@ -0,0 +1,41 @@
+// Headless entry point: the SVD engine and its checks without React or the
+// DOM, for scripts and grading tools.
+
+export type { Matrix, Matrix2x2, SVDResult, SVDResultN, MatrixQuantities, Degeneracy } from './utils/matrix';
+export {
+  computeSVD,
+  computeSVDN,
+  computeSVDContinuous,
+  reconstructMatrix,
+  reconstructMatrixN,
+  matrixQuantities,
+  svdDegeneracy,
+  truncateSVD,
+  truncateSVDN,
+  pseudoInverse,
+  polarDecompose,
+  eigenDecompose,
+  multiply,
+  multiplyN,
+  transpose,
+  transposeN,
+  determinant,
+  determinantN,
+  RANK_TOLERANCE
+} from './utils/matrix';
+
+export type { Factors, Verification, VerificationCheck } from './utils/verify';
+export {
+  VerifyError,
+  DEFAULT_TOLERANCE,
+  decompose,
+  frobeniusNorm,
+  parseMatrix,
+  toMatrix,
+  toSingularValues,
+  verifySVD
+} from './utils/verify';
+
+export { evaluateEntry, ExpressionError } from './utils/expressions';
+export { runCli } from './utils/cli';
+export type { CliIO, CliResult } from './utils/cli';
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { Matrix2x2, applyTransformN, determinant, fromAngle } from './matrix';
+import { Point } from './shapes';
+import { alignPoints, alignmentAt, applyAffine, jitter, toHomogeneous } from './affine';
+
+const SOURCE: Point[] = [[0, 0], [1, 0], [1, 0.5], [0.3, 1.2], [-0.4, 0.8]];
+
+const expectPoint = (actual: Point, expected: Point, digits = 10) => {
+  expect(actual[0]).toBeCloseTo(expected[0], digits);
+  expect(actual[1]).toBeCloseTo(expected[1], digits);
+};
+
+describe('homogeneous coordinates', () => {
+  it('applies x ↦ Ax + t as one 3×3 product', () => {
+    const a: Matrix2x2 = [[1, 2], [-0.5, 1.5]];
+    const t: Point = [3, -1];
+    const [x, y, w] = applyTransformN(toHomogeneous(a, t), [0.7, -0.2, 1]);
+    expect(w).toBe(1);
+    expectPoint([x, y], applyAffine(a, t, [0.7, -0.2]), 14);
+  });
+});
+
+describe('alignPoints', () => {
+  it('recovers a rotation and translation exactly', () => {
+    const rotation = fromAngle(1.1);
+    const target = SOURCE.map(p => applyAffine(rotation, [2, -0.5], p));
+    const fit = alignPoints(SOURCE, target, { reflection: false, scaling: false });
+    expect(fit.angle).toBeCloseTo(1.1, 10);
+    expectPoint(fit.translation, [2, -0.5]);
+    expect(fit.rms).toBeLessThan(1e-10);
+  });
+
+  it('only mirrors when allowed', () => {
+    const mirror = fromAngle(0.4, true);
+    const target = SOURCE.map(p => applyAffine(mirror, [0, 1], p));
+    const proper = alignPoints(SOURCE, target, { reflection: false, scaling: false });
+    expect(determinant(proper.rotation)).toBeCloseTo(1, 12);
+    expect(proper.rms).toBeGreaterThan(0.1);
+    const mirrored = alignPoints(SOURCE, target, { reflection: true, scaling: false });
+    expect(mirrored.reflected).toBe(true);
+    expect(mirrored.rms).toBeLessThan(1e-10);
+  });
+
+  it('fits a uniform scale when asked', () => {
+    const scaled = fromAngle(-0.8).map(row => row.map(val => val * 2.5)) as Matrix2x2;
+    const target = SOURCE.map(p => applyAffine(scaled, [-1, 1], p));
+    expect(alignPoints(SOURCE, target, { reflection: false, scaling: false }).rms).toBeGreaterThan(0.1);
+    const fit = alignPoints(SOURCE, target, { reflection: false, scaling: true });
+    expect(fit.scale).toBeCloseTo(2.5, 10);
+    expect(fit.rms).toBeLessThan(1e-10);
+  });
+
+  it('animates from the identity to the fit', () => {
+    const target = SOURCE.map(p => applyAffine(fromAngle(2.5, true), [1, 2], p));
+    const fit = alignPoints(SOURCE, target, { reflection: true, scaling: false });
+    const start = alignmentAt(fit, 0);
+    expect(start.matrix.flat().map(val => val + 0)).toEqual([1, 0, 0, 1]);
+    expectPoint(start.translation, [0, 0], 14);
+    const end = alignmentAt(fit, 1);
+    SOURCE.forEach((p, i) => expectPoint(applyAffine(end.matrix, end.translation, p), target[i]));
+  });
+});
+
+describe('jitter', () => {
+  it('is repeatable for a seed and leaves points alone at zero noise', () => {
+    expect(jitter(SOURCE, 0.1, 7)).toEqual(jitter(SOURCE, 0.1, 7));
+    expect(jitter(SOURCE, 0.1, 7)).not.toEqual(jitter(SOURCE, 0.1, 8));
+    jitter(SOURCE, 0, 7).forEach((p, i) => expectPoint(p, SOURCE[i], 14));
+  });
+});
@@ -0,0 +1,140 @@
+import { Matrix, Matrix2x2, SVDResult, applyTransform, computeSVD, determinant, fromAngle, multiply, transpose } from './matrix';
+import { Point } from './shapes';
+import { gaussianPair, seeded } from './random';
+
+export const TRANSLATION_COLOR = "#06b6d4";
+
+// --- Homogeneous coordinates ---
+// x ↦ Ax + t is linear one dimension up: [x; 1] ↦ [[A, t], [0, 1]] [x; 1].
+
+export function toHomogeneous(linear: Matrix2x2, translation: Point): Matrix {
+  return [
+    [linear[0][0], linear[0][1], translation[0]],
+    [linear[1][0], linear[1][1], translation[1]],
+    [0, 0, 1]
+  ];
+}
+
+export function applyAffine(linear: Matrix2x2, translation: Point, p: Point): Point {
+  const [x, y] = applyTransform(linear, p);
+  return [x + translation[0], y + translation[1]];
+}
+
+// --- Shape alignment (orthogonal Procrustes / Kabsch) ---
+
+export interface AlignmentOptions {
+  reflection: boolean; // Allow R to mirror (plain orthogonal Procrustes)
+  scaling: boolean; // Fit a uniform scale too (Umeyama)
+}
+
+export const DEFAULT_ALIGNMENT_OPTIONS: AlignmentOptions = {
+  reflection: false,
+  scaling: false,
+};
+
+export const ALIGNMENT_LABELS: Record<keyof AlignmentOptions, string> = {
+  reflection: "Mirror",
+  scaling: "Scale",
+};
+
+export interface Alignment {
+  // Best fit q ≈ c R p + t
+  rotation: Matrix2x2;
+  scale: number;
+  translation: Point;
+  angle: number;
+  reflected: boolean;
+  sourceCentroid: Point;
+  targetCentroid: Point;
+  // Cross-covariance H = Σ (pᵢ - p̄)(qᵢ - q̄)ᵀ and its SVD
+  covariance: Matrix2x2;
+  svd: SVDResult;
+  // Root-mean-square distance left after the fit
+  rms: number;
+}
+
+const centroid = (points: Point[]): Point => [
+  points.reduce((sum, p) => sum + p[0], 0) / points.length,
+  points.reduce((sum, p) => sum + p[1], 0) / points.length
+];
+
+// Kabsch: with H = UΣVᵀ the best rotation is R = V diag(1, d) Uᵀ, where
+// d = sign det(VUᵀ) rules out a mirror (d = 1 when mirrors are allowed).
+// Points are matched by index.
+export function alignPoints(source: Point[], target: Point[], options: AlignmentOptions): Alignment {
+  if (source.length !== target.length || source.length === 0) {
+    throw new Error(`alignPoints: expected two equal, non-empty point sets, got ${source.length} and ${target.length}`);
+  }
+  const sourceCentroid = centroid(source);
+  const targetCentroid = centroid(target);
+  const p = source.map(([x, y]): Point => [x - sourceCentroid[0], y - sourceCentroid[1]]);
+  const q = target.map(([x, y]): Point => [x - targetCentroid[0], y - targetCentroid[1]]);
+
+  const covariance: Matrix2x2 = [[0, 0], [0, 0]];
+  p.forEach((pi, i) => {
+    for (let j = 0; j < 2; j++) {
+      for (let k = 0; k < 2; k++) covariance[j][k] += pi[j] * q[i][k];
+    }
+  });
+
+  const svd = computeSVD(covariance);
+  const vut = multiply(svd.v, transpose(svd.u));
+  const d = options.reflection || determinant(vut) >= 0 ? 1 : -1;
+  const rotation = d === 1 ? vut : multiply(multiply(svd.v, [[1, 0], [0, -1]]), transpose(svd.u));
+  const reflected = determinant(rotation) < 0;
+
+  // Umeyama's scale: tr(ΣD) over the spread of the source
+  const spread = p.reduce((sum, [x, y]) => sum + x * x + y * y, 0);
+  const scale = options.scaling && spread > 0 ? (svd.s[0] + d * svd.s[1]) / spread : 1;
+
+  const moved = applyTransform(rotation, sourceCentroid);
+  const translation: Point = [
+    targetCentroid[0] - scale * moved[0],
+    targetCentroid[1] - scale * moved[1]
+  ];
+
+  const residual = source.reduce((sum, point, i) => {
+    const [x, y] = applyTransform(rotation, point);
+    return sum + (scale * x + translation[0] - target[i][0]) ** 2 + (scale * y + translation[1] - target[i][1]) ** 2;
+  }, 0);
+
+  return {
+    rotation,
+    scale,
+    translation,
+    angle: Math.atan2(rotation[1][0], rotation[0][0]),
+    reflected,
+    sourceCentroid,
+    targetCentroid,
+    covariance,
+    svd,
+    rms: Math.sqrt(residual / source.length)
+  };
+}
+
+// The fit at progress t in [0, 1]: the shape turns (and scales, and flips
+// through the x-axis if it must) about its own centroid while the centroid
+// slides to the target's, so t = 1 is exactly c R p + t.
+export function alignmentAt(alignment: Alignment, t: number): { matrix: Matrix2x2; translation: Point } {
+  const { angle, reflected, scale, sourceCentroid: from, targetCentroid: to } = alignment;
+  const c = 1 + (scale - 1) * t;
+  const turn = fromAngle(angle * t);
+  const flip: Matrix2x2 = reflected ? [[1, 0], [0, 1 - 2 * t]] : [[1, 0], [0, 1]];
+  const linear = multiply(turn, flip).map(row => row.map(val => val * c)) as Matrix2x2;
+  const pivot = applyTransform(linear, from);
+  return {
+    matrix: linear,
+    translation: [from[0] + (to[0] - from[0]) * t - pivot[0], from[1] + (to[1] - from[1]) * t - pivot[1]]
+  };
+}
+
+// --- Noisy targets ---
+
+// Moves each point by Gaussian noise with standard deviation amount
+export function jitter(points: Point[], amount: number, seed: number): Point[] {
+  const random = seeded(seed);
+  return points.map(([x, y]) => {
+    const [dx, dy] = gaussianPair(random);
+    return [x + amount * dx, y + amount * dy];
+  });
+}
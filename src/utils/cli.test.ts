@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { EXIT_FAILED, EXIT_OK, EXIT_USAGE, runCli } from './cli';
+
+const stdin = (text: string) => ({ read: () => text });
+const noInput = stdin("");
+
+describe('runCli', () => {
+  it('decomposes a matrix given as an argument', () => {
+    const { code, stdout } = runCli(['decompose', '[[3,0],[0,2]]', '--format', 'json'], noInput);
+    expect(code).toBe(EXIT_OK);
+    expect(JSON.parse(stdout)).toMatchObject({ A: [[3, 0], [0, 2]], S: [3, 2] });
+  });
+
+  it('decomposes a batch from stdin, one matrix per line', () => {
+    const { code, stdout } = runCli(['decompose', '--format=json'], stdin('[[1,0],[0,1]]\n\n[[2,0,0],[0,1,0]]\n'));
+    expect(code).toBe(EXIT_OK);
+    expect(JSON.parse(stdout).map((result: { S: number[] }) => result.S)).toEqual([[1, 1], [2, 1]]);
+  });
+
+  it('writes LaTeX', () => {
+    const { stdout } = runCli(['decompose', '[[2,0],[0,1]]', '--format', 'latex'], noInput);
+    expect(stdout).toContain("\\underbrace");
+  });
+
+  it('exits with 1 when any submission fails', () => {
+    const good = '{"A": [[2,0],[0,1]], "U": [[1,0],[0,1]], "S": [2,1], "Vt": [[1,0],[0,1]]}';
+    const bad = '{"A": [[2,0],[0,1]], "U": [[1,0],[0,1]], "S": [2,1.1], "Vt": [[1,0],[0,1]]}';
+    expect(runCli(['verify'], stdin(good)).code).toBe(EXIT_OK);
+    const { code, stdout } = runCli(['verify'], stdin(`${good}\n${bad}`));
+    expect(code).toBe(EXIT_FAILED);
+    expect(stdout).toContain("Case 2: FAIL");
+    expect(stdout).toContain("1/2 passed");
+  });
+
+  it('takes the factors as options', () => {
+    const args = ['verify', '--a', '[[0,1],[1,0]]', '--u', '[[0,1],[1,0]]', '--s', '[[1,0],[0,1]]', '--vt', '[[1,0],[0,1]]'];
+    expect(runCli(args, noInput).code).toBe(EXIT_OK);
+    expect(runCli(args.slice(0, 5), noInput).stderr).toContain("--s, --vt");
+  });
+
+  it('exits with 2 on bad usage or input', () => {
+    expect(runCli([], noInput).code).toBe(EXIT_USAGE);
+    expect(runCli(['transpose'], noInput).code).toBe(EXIT_USAGE);
+    expect(runCli(['decompose', '--format', 'xml', '[[1]]'], noInput).code).toBe(EXIT_USAGE);
+    const { code, stderr } = runCli(['decompose'], stdin('[[1, 2], [3]]'));
+    expect(code).toBe(EXIT_USAGE);
+    expect(stderr).toContain("same, non-zero number of entries");
+  });
+});
@@ -0,0 +1,226 @@
+import { Matrix, Matrix2x2, SVDResult, transposeN } from './matrix';
+import { decompositionSnippet } from './snippets';
+import {
+  DEFAULT_TOLERANCE,
+  Factors,
+  Verification,
+  VerifyError,
+  decompose,
+  toMatrix,
+  toSingularValues,
+  verifySVD
+} from './verify';
+
+// The `svd` command without any Node APIs, so it can be tested directly.
+// src/cli.ts supplies the file system and the process.
+
+export const USAGE = `Usage:
+  svd decompose [MATRIX] [--file PATH] [--format text|json|latex] [--precision N]
+  svd verify [--file PATH] [--a A --u U --s S --vt VT] [--format text|json] [--tolerance T]
+
+Matrices are JSON arrays of rows, e.g. "[[1,2],[3,4]]". Entries may be
+expressions such as "sqrt(2)/2". Without MATRIX or --file, input is read
+from stdin: one JSON document, or one per line for a batch.
+
+verify takes objects {"A": ..., "U": ..., "S": ..., "Vt": ...}, where S is
+a list of singular values or the Σ matrix, and V may be given instead of Vt.
+
+Exit codes: 0 success, 1 a check failed, 2 bad usage or input.`;
+
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+export interface CliIO {
+  // Contents of a file, or of stdin for "-"
+  read: (path: string) => string;
+}
+
+export interface CliResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+type Format = 'text' | 'json' | 'latex';
+
+const FLAGS = ['file', 'format', 'precision', 'tolerance', 'a', 'u', 's', 'vt'];
+
+function parseArgs(args: string[]): { positional: string[]; flags: Record<string, string> } {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const [name, inline] = arg.slice(2).split(/=(.*)/s);
+    if (!FLAGS.includes(name)) throw new VerifyError(`Unknown option --${name}`);
+    const value = inline ?? args[++i];
+    if (value === undefined) throw new VerifyError(`--${name} needs a value`);
+    flags[name] = value;
+  }
+  return { positional, flags };
+}
+
+// One JSON document, or one per non-empty line
+function parseDocuments(text: string): unknown[] {
+  const trimmed = text.trim();
+  if (!trimmed) throw new VerifyError("No input");
+  try {
+    return [JSON.parse(trimmed)];
+  } catch {
+    return trimmed.split(/\r?\n/).filter(line => line.trim()).map((line, i) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new VerifyError(`Line ${i + 1}: invalid JSON`);
+      }
+    });
+  }
+}
+
+// A top-level array of matrices (rather than of rows) is a batch
+const isMatrixList = (doc: unknown) =>
+  Array.isArray(doc) && doc.length > 0 && doc.every(item => Array.isArray(item) && item.every(Array.isArray));
+
+const number = (text: string, name: string) => {
+  const val = Number(text);
+  if (!Number.isFinite(val) || val < 0) throw new VerifyError(`--${name}: expected a non-negative number`);
+  return val;
+};
+
+// --- Formatting ---
+
+const fixed = (val: number, precision: number) => {
+  const text = val.toFixed(precision);
+  return Number(text) === 0 ? (0).toFixed(precision) : text;
+};
+
+function textMatrix(m: Matrix, precision: number): string {
+  const cells = m.map(row => row.map(val => fixed(val, precision)));
+  const width = Math.max(...cells.flat().map(cell => cell.length));
+  return cells.map(row => `  [ ${row.map(cell => cell.padStart(width)).join("  ")} ]`).join("\n");
+}
+
+const latexMatrix = (m: Matrix, precision: number) =>
+  `\\begin{bmatrix} ${m.map(row => row.map(val => fixed(val, precision)).join(" & ")).join(" \\\\ ")} \\end{bmatrix}`;
+
+function formatDecomposition(a: Matrix, svd: Factors, format: Format, precision: number): string {
+  const sigma = svd.s.map((val, i) => svd.s.map((_, j) => (i === j ? val : 0)));
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ A: a, U: svd.u, S: svd.s, Vt: svd.vt });
+    case 'latex':
+      // 2×2 matrices get the app's export, with exact forms where it finds them
+      if (a.length === 2 && a[0].length === 2) {
+        return decompositionSnippet('latex', a as Matrix2x2, svd as SVDResult, { precision, exact: true });
+      }
+      return [
+        `A = ${latexMatrix(a, precision)}`,
+        `  = \\underbrace{${latexMatrix(svd.u, precision)}}_{U}`,
+        `    \\underbrace{${latexMatrix(sigma, precision)}}_{\\Sigma}`,
+        `    \\underbrace{${latexMatrix(svd.vt, precision)}}_{V^\\top}`
+      ].join("\n");
+    default:
+      return [
+        `A (${a.length}×${a[0].length})`, textMatrix(a, precision),
+        "U", textMatrix(svd.u, precision),
+        `σ = ${svd.s.map(val => fixed(val, precision)).join(", ")}`,
+        "Vᵀ", textMatrix(svd.vt, precision)
+      ].join("\n");
+  }
+}
+
+function formatVerification(result: Verification, label: string): string {
+  const lines = result.checks.map(check =>
+    `  ${check.passed ? "✓" : "✗"} ${check.name}` +
+    (check.error ? `  (${check.error.toExponential(2)})` : "") +
+    (check.detail && (!check.passed || check.name === "shapes") ? `  ${check.detail}` : "")
+  );
+  return [`${label}: ${result.passed ? "PASS" : "FAIL"}`, ...lines].join("\n");
+}
+
+// --- Commands ---
+
+function readFactors(doc: unknown, where: string): { a: Matrix; factors: Factors } {
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    throw new VerifyError(`${where}: expected an object with A, U, S and Vt`);
+  }
+  const record = doc as Record<string, unknown>;
+  const field = (name: string) => {
+    if (!(name in record)) throw new VerifyError(`${where}: missing ${name}`);
+    return record[name];
+  };
+  const a = toMatrix(field("A"), `${where} A`);
+  const u = toMatrix(field("U"), `${where} U`);
+  const s = toSingularValues(record.S ?? record.Sigma ?? field("S"), `${where} S`);
+  const vt = "Vt" in record || !("V" in record)
+    ? toMatrix(field("Vt"), `${where} Vt`)
+    : transposeN(toMatrix(record.V, `${where} V`));
+  return { a, factors: { u, s, vt } };
+}
+
+function decomposeCommand(docs: unknown[], format: Format, precision: number): CliResult {
+  const matrices = docs.flatMap(doc => isMatrixList(doc) ? doc as unknown[] : [doc])
+    .map((doc, i, all) => toMatrix(doc, all.length > 1 ? `Matrix ${i + 1}` : "matrix"));
+  const results = matrices.map(a => ({ a, svd: decompose(a) }));
+  const stdout = format === 'json' && results.length > 1
+    ? `[${results.map(({ a, svd }) => formatDecomposition(a, svd, format, precision)).join(",\n")}]`
+    : results.map(({ a, svd }) => formatDecomposition(a, svd, format, precision)).join("\n\n");
+  return { code: EXIT_OK, stdout, stderr: "" };
+}
+
+function verifyCommand(docs: unknown[], format: Format, tolerance: number): CliResult {
+  const cases = docs.flatMap(doc => Array.isArray(doc) ? doc : [doc])
+    .map((doc, i, all) => readFactors(doc, all.length > 1 ? `Case ${i + 1}` : "Input"));
+  const results = cases.map(({ a, factors }) => verifySVD(a, factors, tolerance));
+  const failed = results.filter(result => !result.passed).length;
+  const stdout = format === 'json'
+    ? JSON.stringify(results.length > 1 ? results : results[0])
+    : [
+        ...results.map((result, i) => formatVerification(result, results.length > 1 ? `Case ${i + 1}` : "Result")),
+        ...(results.length > 1 ? [`${results.length - failed}/${results.length} passed`] : [])
+      ].join("\n");
+  return { code: failed ? EXIT_FAILED : EXIT_OK, stdout, stderr: "" };
+}
+
+export function runCli(args: string[], io: CliIO): CliResult {
+  const [command] = args;
+  if (!command || command === 'help' || args.includes('--help') || args.includes('-h')) {
+    return { code: command ? EXIT_OK : EXIT_USAGE, stdout: command ? USAGE : "", stderr: command ? "" : USAGE };
+  }
+  try {
+    const { positional, flags } = parseArgs(args.slice(1));
+    const format = (flags.format ?? 'text') as Format;
+    if (!['text', 'json', 'latex'].includes(format) || (command === 'verify' && format === 'latex')) {
+      throw new VerifyError(`--format: ${format} isn't available for ${command}`);
+    }
+
+    switch (command) {
+      case 'decompose': {
+        const precision = flags.precision === undefined ? 4 : Math.min(15, Math.round(number(flags.precision, "precision")));
+        const docs = positional.length ? positional.map(text => parseDocuments(text)[0]) : parseDocuments(io.read(flags.file ?? "-"));
+        return decomposeCommand(docs, format, precision);
+      }
+      case 'verify': {
+        const tolerance = flags.tolerance === undefined ? DEFAULT_TOLERANCE : number(flags.tolerance, "tolerance");
+        const inline = ['a', 'u', 's', 'vt'].filter(name => name in flags);
+        let docs: unknown[];
+        if (inline.length) {
+          const missing = ['a', 'u', 's', 'vt'].filter(name => !(name in flags));
+          if (missing.length) throw new VerifyError(`Also needs ${missing.map(name => `--${name}`).join(", ")}`);
+          docs = [{ A: parseDocuments(flags.a)[0], U: parseDocuments(flags.u)[0], S: parseDocuments(flags.s)[0], Vt: parseDocuments(flags.vt)[0] }];
+        } else {
+          docs = parseDocuments(io.read(flags.file ?? "-"));
+        }
+        return verifyCommand(docs, format, tolerance);
+      }
+      default:
+        throw new VerifyError(`Unknown command "${command}"`);
+    }
+  } catch (err) {
+    return { code: EXIT_USAGE, stdout: "", stderr: `svd: ${err instanceof Error ? err.message : String(err)}\nRun "svd help" for usage.` };
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { Matrix2x2, computeSVD, fromAngle } from './matrix';
+import { chainProduct, compositionChecks } from './composition';
+
+describe('composition', () => {
+  it('applies factors in list order', () => {
+    const shear: Matrix2x2 = [[1, 1], [0, 1]];
+    const scale: Matrix2x2 = [[2, 0], [0, 1]];
+    // scale after shear: [[2, 2], [0, 1]], not [[2, 1], [0, 1]]
+    expect(chainProduct([shear, scale])).toEqual([[2, 2], [0, 1]]);
+    expect(chainProduct([shear])).toEqual(shear);
+  });
+
+  it('bounds the product singular values by the factors', () => {
+    const factors: Matrix2x2[] = [[[1, 1], [0, 1]], fromAngle(0.7), [[2, 0.3], [-0.4, 0.5]], [[1, 2], [0.5, 1]]];
+    for (let n = 1; n <= factors.length; n++) {
+      const chain = factors.slice(0, n);
+      const checks = compositionChecks(chain.map(computeSVD), computeSVD(chainProduct(chain)));
+      checks.forEach(check => expect(check.holds, check.label).toBe(true));
+    }
+  });
+
+  it('flags a violated bound', () => {
+    const factorSvd = computeSVD([[1, 0], [0, 1]]);
+    const [maxCheck] = compositionChecks([factorSvd], computeSVD([[3, 0], [0, 1]]));
+    expect(maxCheck.holds).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { Matrix2x2, SVDResult, IDENTITY, multiply } from './matrix';
+
+export const MAX_FACTORS = 5;
+
+// Factors apply in list order, x → A₁x → A₂A₁x → …, so the product is Aₙ⋯A₁
+export function chainProduct(factors: Matrix2x2[]): Matrix2x2 {
+  return factors.reduce((acc, factor) => multiply(factor, acc), IDENTITY);
+}
+
+export interface CompositionCheck {
+  label: string;
+  lhs: number;
+  relation: '≤' | '≥' | '=';
+  rhs: number;
+  holds: boolean;
+}
+
+// Relative slack for rounding in the products
+const CHECK_TOLERANCE = 1e-9;
+
+// Singular values of a product are bounded by those of its factors
+export function compositionChecks(factors: SVDResult[], product: SVDResult): CompositionCheck[] {
+  const max = (svd: SVDResult) => Math.max(...svd.s);
+  const min = (svd: SVDResult) => Math.min(...svd.s);
+  const prod = (values: number[]) => values.reduce((acc, val) => acc * val, 1);
+  // scale sets the rounding slack; both sides can be ~0 when a factor is singular
+  const check = (
+    label: string,
+    lhs: number,
+    relation: CompositionCheck['relation'],
+    rhs: number,
+    scale = Math.max(Math.abs(lhs), Math.abs(rhs))
+  ): CompositionCheck => {
+    const slack = CHECK_TOLERANCE * scale;
+    const holds =
+      relation === '≤' ? lhs <= rhs + slack :
+      relation === '≥' ? lhs >= rhs - slack :
+      Math.abs(lhs - rhs) <= slack;
+    return { label, lhs, relation, rhs, holds };
+  };
+
+  return [
+    check("σ_max(P) vs ∏ σ_max(Aᵢ)", max(product), '≤', prod(factors.map(max))),
+    check("σ_min(P) vs ∏ σ_min(Aᵢ)", min(product), '≥', prod(factors.map(min))),
+    check(
+      "|det P| vs ∏ |det Aᵢ|",
+      product.s[0] * product.s[1],
+      '=',
+      prod(factors.map(svd => svd.s[0] * svd.s[1])),
+      prod(factors.map(svd => max(svd) ** 2))
+    )
+  ];
+}
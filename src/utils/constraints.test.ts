@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { Matrix2x2, computeSVD, determinant, matrixQuantities } from './matrix';
+import {
+  Constraint,
+  entryParams,
+  factorParams,
+  factorsFromParams,
+  matrixFromEntries,
+  matrixFromFactors,
+  pinConstraint,
+  solveConstraints
+} from './constraints';
+
+const A: Matrix2x2 = [[1.5, 0.5], [0.5, 1.5]];
+
+describe('solveConstraints', () => {
+  it('keeps det while an entry is edited', () => {
+    const det = pinConstraint('det', A, computeSVD(A))!;
+    const edited: Matrix2x2 = [[3, 0.5], [0.5, 1.5]];
+    const result = solveConstraints([det], matrixFromEntries, entryParams(edited), [0]);
+    expect(result.unmet).toEqual([]);
+    const solved = matrixFromEntries(result.x);
+    expect(solved[0][0]).toBe(3);
+    expect(determinant(solved)).toBeCloseTo(2, 9);
+  });
+
+  it('projects onto symmetric matrices with a fixed trace', () => {
+    const constraints: Constraint[] = [{ kind: 'symmetric' }, { kind: 'trace', value: 1 }];
+    const result = solveConstraints(constraints, matrixFromEntries, [2, 1, 0, 3]);
+    expect(result.unmet).toEqual([]);
+    const [a, b, c, d] = result.x;
+    expect(b - c).toBeCloseTo(0, 9);
+    expect(a + d).toBeCloseTo(1, 9);
+    // Nearest point: the off-diagonal pair meets in the middle
+    expect(b).toBeCloseTo(0.5, 6);
+  });
+
+  it('trades σ₂ for σ₁ when det is pinned and Σ is edited', () => {
+    const svd = computeSVD(A);
+    const det = pinConstraint('det', A, svd)!;
+    const params = factorParams(svd);
+    params[1] = 4;
+    const build = (x: number[]) => matrixFromFactors(factorsFromParams(x, false, false));
+    const result = solveConstraints([det], build, params, [1]);
+    expect(result.unmet).toEqual([]);
+    expect(result.x[1]).toBe(4);
+    expect(result.x[2]).toBeCloseTo(0.5, 9);
+  });
+
+  it('keeps the condition number', () => {
+    const svd = computeSVD(A);
+    const condition = pinConstraint('condition', A, svd)!;
+    const result = solveConstraints([condition], matrixFromEntries, [1.5, 2, 0.5, 1.5], [1]);
+    expect(result.unmet).toEqual([]);
+    const solved = matrixFromEntries(result.x);
+    expect(matrixQuantities(computeSVD(solved)).condition).toBeCloseTo(2, 6);
+  });
+
+  it('reports constraints an edit makes impossible', () => {
+    const build = (x: number[]) => matrixFromFactors(factorsFromParams(x, false, false));
+    const result = solveConstraints([{ kind: 'orthogonal' }], build, [0, 2, 1, 0], [1]);
+    expect(result.unmet).toEqual([{ kind: 'orthogonal' }]);
+  });
+
+  it('has no condition number to pin on a singular matrix', () => {
+    const singular: Matrix2x2 = [[1, 2], [2, 4]];
+    expect(pinConstraint('condition', singular, computeSVD(singular))).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  Matrix2x2,
+  SVDResult,
+  determinant,
+  fromAngle,
+  matrixQuantities,
+  reconstructMatrix,
+  toOrthogonalFactor
+} from './matrix';
+
+// Quantities the user can pin while editing A or its factors
+export type Constraint =
+  | { kind: 'det' | 'trace' | 'condition'; value: number }
+  | { kind: 'symmetric' | 'orthogonal' }
+  | { kind: 'entry'; row: number; col: number; value: number };
+
+const SUBSCRIPT = ["₁", "₂"];
+const fmt = (val: number) => val.toFixed(3);
+
+export function constraintLabel(constraint: Constraint): string {
+  switch (constraint.kind) {
+    case 'det': return `det = ${fmt(constraint.value)}`;
+    case 'trace': return `tr = ${fmt(constraint.value)}`;
+    case 'condition': return `κ = ${fmt(constraint.value)}`;
+    case 'symmetric': return "Aᵀ = A";
+    case 'orthogonal': return "AᵀA = I";
+    case 'entry': return `a${SUBSCRIPT[constraint.row]}${SUBSCRIPT[constraint.col]} = ${fmt(constraint.value)}`;
+  }
+}
+
+// Pins a quantity at its current value. Returns null when it has none
+// (κ of a singular matrix).
+export function pinConstraint(
+  kind: 'det' | 'trace' | 'condition',
+  a: Matrix2x2,
+  svd: SVDResult
+): Constraint | null {
+  if (kind === 'det') return { kind, value: determinant(a) };
+  if (kind === 'trace') return { kind, value: a[0][0] + a[1][1] };
+  const { condition } = matrixQuantities(svd);
+  return Number.isFinite(condition) ? { kind, value: condition } : null;
+}
+
+export function pinEntry(a: Matrix2x2, row: number, col: number): Constraint {
+  return { kind: 'entry', row, col, value: a[row][col] };
+}
+
+export const sameConstraint = (x: Constraint, y: Constraint) =>
+  x.kind === y.kind && (x.kind !== 'entry' || (y.kind === 'entry' && x.row === y.row && x.col === y.col));
+
+// Each constraint as one or more equations g(A) = 0. κ is written as
+// σ₁ - κσ₂ so it stays smooth as σ₂ approaches zero.
+function equations(constraint: Constraint, a: Matrix2x2): number[] {
+  const [[a11, a12], [a21, a22]] = a;
+  switch (constraint.kind) {
+    case 'det': return [determinant(a) - constraint.value];
+    case 'trace': return [a11 + a22 - constraint.value];
+    case 'condition': {
+      // Singular values from the invariants, without the SVD's sign choices
+      const f = a11 * a11 + a12 * a12 + a21 * a21 + a22 * a22;
+      const d = Math.abs(determinant(a));
+      const root = Math.sqrt(Math.max(0, f * f - 4 * d * d));
+      const s1 = Math.sqrt((f + root) / 2);
+      const s2 = Math.sqrt(Math.max(0, (f - root) / 2));
+      return [s1 - constraint.value * s2];
+    }
+    case 'symmetric': return [a12 - a21];
+    case 'orthogonal': return [a11 * a11 + a21 * a21 - 1, a12 * a12 + a22 * a22 - 1, a11 * a12 + a21 * a22];
+    case 'entry': return [a[constraint.row][constraint.col] - constraint.value];
+  }
+}
+
+// --- Parameterizations ---
+// Edits to A are solved over its four entries; edits to U, Σ or Vᵀ over
+// (θ_U, σ₁, σ₂, θ_V) with the mirrors held as they are.
+
+export const entryParams = (a: Matrix2x2): number[] => [a[0][0], a[0][1], a[1][0], a[1][1]];
+
+export const matrixFromEntries = (x: number[]): Matrix2x2 => [[x[0], x[1]], [x[2], x[3]]];
+
+export function factorParams(svd: SVDResult): number[] {
+  return [toOrthogonalFactor(svd.u).angle, svd.s[0], svd.s[1], toOrthogonalFactor(svd.vt).angle];
+}
+
+export function factorsFromParams(x: number[], reflectU: boolean, reflectVT: boolean): SVDResult {
+  const u = fromAngle(x[0], reflectU);
+  const vt = fromAngle(x[3], reflectVT);
+  // A negative σ would be a hidden mirror, so the solver's result is clamped
+  const s: [number, number] = [Math.max(0, x[1]), Math.max(0, x[2])];
+  return { u, s, v: [[vt[0][0], vt[1][0]], [vt[0][1], vt[1][1]]], vt };
+}
+
+export const matrixFromFactors = (svd: SVDResult): Matrix2x2 => reconstructMatrix(svd.u, svd.s, svd.vt);
+
+// --- Solver ---
+
+// unmet is empty on success; otherwise x is the closest point reached
+export interface SolveResult {
+  x: number[];
+  unmet: Constraint[];
+}
+
+const MAX_ITERATIONS = 60;
+const DAMPING = 1e-12;
+
+// Dense Gaussian elimination with partial pivoting; m is small
+function solveLinear(m: number[][], b: number[]): number[] {
+  const n = b.length;
+  const aug = m.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(aug[row][col]) > Math.abs(aug[pivot][col])) pivot = row;
+    }
+    [aug[col], aug[pivot]] = [aug[pivot], aug[col]];
+    const p = aug[col][col] || 1e-300;
+    for (let row = col + 1; row < n; row++) {
+      const f = aug[row][col] / p;
+      for (let k = col; k <= n; k++) aug[row][k] -= f * aug[col][k];
+    }
+  }
+  const out = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = aug[row][n];
+    for (let k = row + 1; k < n; k++) sum -= aug[row][k] * out[k];
+    out[row] = sum / (aug[row][row] || 1e-300);
+  }
+  return out;
+}
+
+// Moves x as little as possible (Gauss-Newton minimum-norm steps) until
+// every constraint holds on toMatrix(x). Indices in held are the values the
+// user just set and are never moved. When no nearby solution exists the
+// constraints still violated at the closest point reached are listed.
+export function solveConstraints(
+  constraints: Constraint[],
+  toMatrix: (x: number[]) => Matrix2x2,
+  x0: number[],
+  held: number[] = []
+): SolveResult {
+  const free = x0.map((_, i) => i).filter(i => !held.includes(i));
+  const residual = (x: number[]) => constraints.flatMap(c => equations(c, toMatrix(x)));
+  const scale = 1 + Math.max(...x0.map(Math.abs)) ** 2;
+  const tolerance = 1e-9 * scale;
+
+  let x = [...x0];
+  let r = residual(x);
+  for (let iter = 0; iter < MAX_ITERATIONS && free.length; iter++) {
+    if (r.every(val => Math.abs(val) <= tolerance)) break;
+    // Central-difference Jacobian over the free parameters
+    const jacobian = r.map(() => new Array<number>(free.length).fill(0));
+    free.forEach((i, k) => {
+      const h = 1e-6 * Math.max(1, Math.abs(x[i]));
+      const plus = [...x];
+      const minus = [...x];
+      plus[i] += h;
+      minus[i] -= h;
+      const [rp, rm] = [residual(plus), residual(minus)];
+      rp.forEach((val, j) => { jacobian[j][k] = (val - rm[j]) / (2 * h); });
+    });
+    // δ = -Jᵀ (J Jᵀ + λI)⁻¹ r
+    const jjt = jacobian.map((row, i) =>
+      jacobian.map((other, j) => row.reduce((sum, val, k) => sum + val * other[k], 0) + (i === j ? DAMPING * scale : 0))
+    );
+    const y = solveLinear(jjt, r);
+    const next = [...x];
+    free.forEach((i, k) => {
+      next[i] -= jacobian.reduce((sum, row, j) => sum + row[k] * y[j], 0);
+    });
+    const nextR = residual(next);
+    if (!nextR.every(Number.isFinite)) break;
+    x = next;
+    r = nextR;
+  }
+
+  let offset = 0;
+  const unmet = constraints.filter(c => {
+    const count = equations(c, toMatrix(x)).length;
+    const bad = r.slice(offset, offset + count).some(val => !(Math.abs(val) <= tolerance));
+    offset += count;
+    return bad;
+  });
+  return { x, unmet };
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { IDENTITY, Matrix2x2, fromAngle, multiply } from './matrix';
+import { describeTransform } from './describe';
+
+describe('describeTransform', () => {
+  it('names the stretch and squash along each axis', () => {
+    expect(describeTransform([[2, 0], [0, 0.5]])).toBe("stretched by 2.0 along 0°, squashed to 0.5 along 90°");
+  });
+
+  it('reads a symmetric matrix as scaling along its eigenvectors', () => {
+    const turn = fromAngle(Math.PI / 4);
+    const m = multiply(multiply(turn, [[2, 0], [0, 0.5]]), [[turn[0][0], turn[1][0]], [turn[0][1], turn[1][1]]]);
+    expect(describeTransform(m)).toBe("stretched by 2.0 along 45°, squashed to 0.5 along 135°");
+  });
+
+  it('names rotations, mirrors and shifts', () => {
+    expect(describeTransform(fromAngle(Math.PI / 6))).toBe("rotated 30° counter-clockwise");
+    expect(describeTransform(fromAngle(-Math.PI / 2))).toBe("rotated 90° clockwise");
+    expect(describeTransform([[1, 0], [0, -1]])).toBe("mirrored across the line at 0°");
+    expect(describeTransform([[0, 1], [1, 0]])).toBe("mirrored across the line at 45°");
+    expect(describeTransform([[3, 0], [0, 3]], [1, -0.5])).toBe("scaled evenly by 3.0, then shifted by (1.0, -0.5)");
+  });
+
+  it('handles the identity and singular matrices', () => {
+    expect(describeTransform(IDENTITY)).toBe("unchanged");
+    expect(describeTransform([[0, 0], [0, 0]])).toBe("collapsed to the origin");
+    const flat: Matrix2x2 = [[2, 0], [0, 0]];
+    expect(describeTransform(flat)).toMatch(/^stretched by 2\.0 along 0°, flattened along 90°/);
+  });
+});
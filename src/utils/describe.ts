@@ -0,0 +1,50 @@
+import { Matrix2x2, computeSVD, multiply, toOrthogonalFactor } from './matrix';
+import { Point } from './shapes';
+
+// Differences smaller than this don't survive the rounding in the text
+const TOLERANCE = 0.005;
+
+const factor = (val: number) => (val >= 0.1 ? val.toFixed(2).replace(/0$/, "") : val.toPrecision(2));
+const coordinate = (val: number) => val.toFixed(2).replace(/0$/, "").replace(/^-(0\.0)$/, "$1");
+
+// Direction of a line, 0° to 179°
+const direction = ([x, y]: Point) => `${(Math.round((Math.atan2(y, x) * 180) / Math.PI) + 360) % 180}°`;
+
+function scaling(sigma: number, axis: Point, largest: number): string | null {
+  if (sigma <= largest * 1e-9) return `flattened along ${direction(axis)}`;
+  if (sigma > 1 + TOLERANCE) return `stretched by ${factor(sigma)} along ${direction(axis)}`;
+  if (sigma < 1 - TOLERANCE) return `squashed to ${factor(sigma)} along ${direction(axis)}`;
+  return null;
+}
+
+// Plain-language account of x ↦ Mx + t for screen readers, e.g.
+// "stretched by 2.0 along 45°, squashed to 0.5 along 135°". It follows the
+// polar form M = QS: S = VΣVᵀ scales along v₁ and v₂, then Q = UVᵀ turns
+// the result, or mirrors it when det M < 0.
+export function describeTransform(matrix: Matrix2x2, translation: Point = [0, 0]): string {
+  const { u, s: [s1, s2], v, vt } = computeSVD(matrix);
+  const steps: string[] = [];
+
+  if (s1 === 0) {
+    steps.push("collapsed to the origin");
+  } else if (s1 - s2 <= TOLERANCE * s1) {
+    if (Math.abs(s1 - 1) > TOLERANCE) steps.push(`scaled evenly by ${factor(s1)}`);
+  } else {
+    const axes = [scaling(s1, [v[0][0], v[1][0]], s1), scaling(s2, [v[0][1], v[1][1]], s1)].filter(Boolean);
+    if (axes.length) steps.push(axes.join(", "));
+  }
+
+  if (s1 > 0) {
+    const { angle, reflect } = toOrthogonalFactor(multiply(u, vt));
+    const degrees = Math.round((angle * 180) / Math.PI);
+    // Mirroring across the x-axis and then turning by θ is one mirror across the line at θ/2
+    if (reflect) steps.push(`mirrored across the line at ${((Math.round(degrees / 2) % 180) + 180) % 180}°`);
+    else if (degrees !== 0) steps.push(`rotated ${Math.abs(degrees)}° ${degrees > 0 ? "counter-clockwise" : "clockwise"}`);
+  }
+
+  if (translation[0] !== 0 || translation[1] !== 0) {
+    steps.push(`shifted by (${coordinate(translation[0])}, ${coordinate(translation[1])})`);
+  }
+
+  return steps.length ? steps.join(", then ") : "unchanged";
+}
@@ -0,0 +1,84 @@
+// Browser-side plumbing for figure export: downloads, SVG rasterization and
+// recording frames to video. Everything stays on the client.
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke later: some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function svgBlob(svg: string): Blob {
+  return new Blob([svg], { type: 'image/svg+xml' });
+}
+
+// Draws the SVG onto a canvas at pixelRatio times its nominal size
+export async function rasterizeSvg(
+  svg: string,
+  width: number,
+  height: number,
+  pixelRatio: number,
+  canvas = document.createElement('canvas')
+): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(svgBlob(svg));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    canvas.width = Math.round(width * pixelRatio);
+    canvas.height = Math.round(height * pixelRatio);
+    const ctx = canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png'): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), type)
+  );
+}
+
+// First container the browser can record, or null without MediaRecorder
+export function videoFormat(): { mimeType: string; extension: string } | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const candidates = [
+    { mimeType: 'video/webm;codecs=vp9', extension: 'webm' },
+    { mimeType: 'video/webm', extension: 'webm' },
+    { mimeType: 'video/mp4', extension: 'mp4' }
+  ];
+  return candidates.find(format => MediaRecorder.isTypeSupported(format.mimeType)) ?? null;
+}
+
+// Records frames drawn onto the canvas in real time; drawFrame paints frame i
+// and returns how long it stays on screen in milliseconds
+export async function recordCanvas(
+  canvas: HTMLCanvasElement,
+  frameCount: number,
+  drawFrame: (index: number) => Promise<number>,
+  mimeType: string
+): Promise<Blob> {
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => chunks.push(e.data);
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  for (let i = 0; i < frameCount; i++) {
+    const delay = await drawFrame(i);
+    track.requestFrame();
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(t => t.stop());
+  return new Blob(chunks, { type: mimeType });
+}
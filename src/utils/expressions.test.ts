@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { ExpressionError, entryText, evaluateEntry } from './expressions';
+
+describe('evaluateEntry', () => {
+  it('evaluates fractions, constants and functions', () => {
+    expect(evaluateEntry('1/3')).toBeCloseTo(1 / 3, 12);
+    expect(evaluateEntry(' sqrt(2)/2 ')).toBeCloseTo(Math.SQRT1_2, 12);
+    expect(evaluateEntry('cos(pi/6)')).toBeCloseTo(Math.sqrt(3) / 2, 12);
+    expect(evaluateEntry('-2.5e-1')).toBe(-0.25);
+  });
+
+  it('rejects entries that are not a single finite real', () => {
+    for (const text of ['', '1/', 'sqrt(-1)', '1/0', '[1, 2]', 'foo']) {
+      expect(() => evaluateEntry(text), text).toThrow(ExpressionError);
+    }
+  });
+
+  it('prints stored values without float noise', () => {
+    expect(entryText(0.1 + 0.2)).toBe('0.3');
+    expect(entryText(-1.5)).toBe('-1.5');
+  });
+});
@@ -0,0 +1,32 @@
+import { evaluate } from 'mathjs';
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+// Evaluates a typed entry such as "1/3", "sqrt(2)/2" or "cos(pi/6)".
+// Anything that isn't a single finite real number is rejected with a reason.
+export function evaluateEntry(text: string): number {
+  const trimmed = text.trim();
+  if (!trimmed) throw new ExpressionError('Enter a number or expression');
+  let value: unknown;
+  try {
+    value = evaluate(trimmed);
+  } catch (err) {
+    throw new ExpressionError(err instanceof Error ? err.message : String(err));
+  }
+  if (typeof value !== 'number') {
+    const kind = value && typeof value === 'object' && 'type' in value ? String((value as { type: unknown }).type) : typeof value;
+    throw new ExpressionError(kind === 'Complex' ? 'Result is complex' : 'Expected a single number');
+  }
+  if (!Number.isFinite(value)) throw new ExpressionError('Result is not finite');
+  return value;
+}
+
+// Editable text for a stored value: full precision without float noise
+export function entryText(val: number): string {
+  return String(Number(val.toPrecision(12)));
+}
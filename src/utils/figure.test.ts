@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { computeSVD, IDENTITY } from './matrix';
+import { morphPhases, morphFrames } from './morph';
+import { buildPipeline, pipelinePhases, withTranslation } from './pipelines';
+import { DEFAULT_SHAPE } from './shapes';
+import { DEFAULT_OVERLAYS } from './overlays';
+import { DEFAULT_VIEWPORT } from './viewport';
+import { DEFAULT_FIGURE_OPTIONS, figureSvg, figureSize, panelViewport } from './figure';
+
+const panel = (title: string) => ({ matrix: IDENTITY, title, subtitle: "Identity", color: "#71717a" });
+
+describe('figureSvg', () => {
+  it('lays panels out in a row at the reported size', () => {
+    const svg = figureSvg([panel("A"), panel("B"), panel("C")], DEFAULT_SHAPE, DEFAULT_OVERLAYS, DEFAULT_FIGURE_OPTIONS, DEFAULT_VIEWPORT, 200);
+    const { width, height } = figureSize(3, 200, DEFAULT_FIGURE_OPTIONS);
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg).toContain(`width="${width}" height="${height}"`);
+    expect(svg.match(/<svg y=/g)).toHaveLength(3);
+  });
+
+  it('leaves out what the options turn off', () => {
+    const bare = { ...DEFAULT_FIGURE_OPTIONS, axes: false, grid: false, labels: false, theme: 'light' as const };
+    const svg = figureSvg([panel("Original")], DEFAULT_SHAPE, DEFAULT_OVERLAYS, bare);
+    expect(svg).not.toContain('<text');
+    expect(svg).not.toContain('<line');
+    expect(svg).toContain('fill="#ffffff"');
+  });
+
+  it('escapes label text', () => {
+    const svg = figureSvg([panel("A < B & C")], DEFAULT_SHAPE, DEFAULT_OVERLAYS, DEFAULT_FIGURE_OPTIONS);
+    expect(svg).toContain('A &lt; B &amp; C');
+  });
+
+  it('draws in the chosen palette', () => {
+    const mirror = { ...panel("Mirror"), matrix: [[1, 0], [0, -1]] as [[number, number], [number, number]], color: "#3b82f6" };
+    const overlays = { ...DEFAULT_OVERLAYS, determinant: true };
+    const standard = figureSvg([mirror], DEFAULT_SHAPE, overlays, DEFAULT_FIGURE_OPTIONS);
+    expect(standard).toContain('stroke="#ef4444"');
+    expect(standard).toContain('fill="#f87171"');
+    const safe = figureSvg([mirror], DEFAULT_SHAPE, overlays, { ...DEFAULT_FIGURE_OPTIONS, palette: 'colorblind' });
+    ["#3b82f6", "#ef4444", "#60a5fa", "#f87171"].forEach(color => expect(safe).not.toContain(color));
+    expect(safe).toContain('stroke="#d55e00"');
+    expect(safe).toContain('stroke="#56b4e9"');
+  });
+
+  it('frames panels the way the stages do', () => {
+    const big = { ...panel("Big"), matrix: [[40, 0], [0, 0.02]] as [[number, number], [number, number]] };
+    const coordinates = (svg: string) =>
+      [...svg.matchAll(/[ML](-?[\d.]+) (-?[\d.]+)/g)].flatMap(m => [Number(m[1]), Number(m[2])]);
+    // The fixed ±2 window runs the stretched shape far off the canvas
+    expect(Math.max(...coordinates(figureSvg([big], DEFAULT_SHAPE, DEFAULT_OVERLAYS, DEFAULT_FIGURE_OPTIONS)))).toBeGreaterThan(1000);
+    const fit = coordinates(figureSvg([big], DEFAULT_SHAPE, DEFAULT_OVERLAYS, DEFAULT_FIGURE_OPTIONS, { fit: true, log: false }));
+    fit.forEach(val => {
+      expect(val).toBeGreaterThanOrEqual(0);
+      expect(val).toBeLessThanOrEqual(240);
+    });
+    // Log scale draws one ring per decade, labelled
+    const log = figureSvg([big], DEFAULT_SHAPE, DEFAULT_OVERLAYS, DEFAULT_FIGURE_OPTIONS, { fit: false, log: true });
+    expect(log).toContain('>10</text>');
+  });
+
+  it('keeps a shared frame when given one', () => {
+    const a = [[3, 1], [0, 2]] as [[number, number], [number, number]];
+    const viewport = { fit: true, log: false };
+    const view = panelViewport([panel("A"), { ...panel("A"), matrix: a }], DEFAULT_SHAPE, DEFAULT_OVERLAYS, viewport);
+    expect(view.extent).toBeGreaterThan(panelViewport([panel("A")], DEFAULT_SHAPE, DEFAULT_OVERLAYS, viewport).extent);
+    const shared = figureSvg([{ ...panel("A"), view }], DEFAULT_SHAPE, DEFAULT_OVERLAYS, DEFAULT_FIGURE_OPTIONS, viewport);
+    expect(shared).not.toEqual(figureSvg([panel("A")], DEFAULT_SHAPE, DEFAULT_OVERLAYS, DEFAULT_FIGURE_OPTIONS, viewport));
+  });
+});
+
+describe('morphFrames', () => {
+  it('runs from the identity to A with holds at both ends', () => {
+    const a = [[2, 1], [-0.5, 1]] as [[number, number], [number, number]];
+    const svd = computeSVD(a);
+    const frames = morphFrames(morphPhases(svd), 1, 10, 0.5);
+    expect(frames[0].matrix).toEqual(IDENTITY);
+    expect(frames[0].delay).toBe(500);
+    expect(frames).toHaveLength(1 + morphPhases(svd).length * 10);
+    const last = frames[frames.length - 1];
+    expect(last.delay).toBe(500);
+    last.matrix.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(a[i][j], 12)));
+  });
+
+  it('plays the active pipeline, translation included', () => {
+    const a = [[2, 1], [-0.5, 1]] as [[number, number], [number, number]];
+    const svd = computeSVD(a);
+    expect(pipelinePhases(buildPipeline('svd', a, svd), 'svd', svd).map(phase => phase.label))
+      .toEqual(morphPhases(svd).map(phase => phase.label));
+
+    const polar = withTranslation(buildPipeline('polar', a, svd), a, [1, -2]);
+    const frames = morphFrames(pipelinePhases(polar, 'polar', svd), 1, 10);
+    expect([...new Set(frames.map(frame => frame.label))]).toEqual(["Original", "Apply S", "Apply Q", "Translate (t)"]);
+    const last = frames[frames.length - 1];
+    expect(last.translation).toEqual([1, -2]);
+    last.matrix.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(a[i][j], 12)));
+    expect(frames.find(frame => frame.label === "Apply Q")!.translation).toBeUndefined();
+  });
+});
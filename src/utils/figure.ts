@@ -0,0 +1,217 @@
+import { Matrix2x2, applyTransform, determinant } from './matrix';
+import { applyAffine } from './affine';
+import { Point, Shape, SHAPES } from './shapes';
+import { OverlayOptions, StageArrow } from './overlays';
+import { DEFAULT_PALETTE, PaletteId, paint } from './palette';
+import {
+  DEFAULT_VIEWPORT,
+  Viewport,
+  ViewportOptions,
+  baseViewport,
+  densify,
+  formatTick,
+  gridLines,
+  projectPoint,
+  viewScale,
+  warpRadius
+} from './viewport';
+
+// Standalone SVG markup for stage panels, mirroring what TransformStage draws
+// but without React, so figures can be saved or rasterized for export.
+
+export interface FigureOptions {
+  axes: boolean;
+  grid: boolean;
+  labels: boolean;
+  theme: 'dark' | 'light';
+  // The app's colour scheme, applied to the stage, arrow and sign colours
+  palette: PaletteId;
+}
+
+export const DEFAULT_FIGURE_OPTIONS: FigureOptions = {
+  axes: true,
+  grid: true,
+  labels: true,
+  theme: 'dark',
+  palette: DEFAULT_PALETTE,
+};
+
+export interface FigurePanel {
+  matrix: Matrix2x2;
+  // Affine stages: added after the matrix, with arrows drawn from there
+  translation?: Point;
+  title: string;
+  subtitle: string;
+  color: string;
+  arrows?: StageArrow[];
+  // Frame to draw in. Left out, the panel is framed on its own like its
+  // stage; animation frames share one so the camera holds still.
+  view?: Viewport;
+}
+
+const THEMES = {
+  dark: { background: "#09090b", grid: "#27272a", axes: "#3f3f46", title: "#f4f4f5", subtitle: "#71717a", ellipse: "#e4e4e7" },
+  light: { background: "#ffffff", grid: "#e4e4e7", axes: "#a1a1aa", title: "#18181b", subtitle: "#71717a", ellipse: "#3f3f46" },
+};
+
+const UNIT_CIRCLE = SHAPES.find(s => s.id === 'circle')!.parts[0].points;
+const UNIT_SQUARE = SHAPES.find(s => s.id === 'square')!.parts[0].points;
+
+// Label height above each panel when labels are on
+const HEADER = 28;
+
+const num = (val: number) => String(Math.round(val * 100) / 100);
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Same padding as the stages, so a fixed view spans 4 units like theirs
+const padding = (size: number) => (size * 20) / 110;
+// Pieces per straight edge when drawing under the log warp, as on the stages
+const LOG_PIECES = 16;
+
+const arrowTip = (matrix: Matrix2x2, offset: Point, arrow: StageArrow): Point => {
+  const [x, y] = arrow.transform ? applyTransform(matrix, arrow.vector) : arrow.vector;
+  return [offset[0] + x, offset[1] + y];
+};
+
+// The base frame a stage would pick to show all these panels, for the given
+// auto-fit and log settings. A single panel gets its own stage's frame.
+export function panelViewport(
+  panels: FigurePanel[],
+  shape: Shape,
+  overlays: OverlayOptions,
+  viewport: ViewportOptions
+): Viewport {
+  const withEllipse = overlays.ellipse || viewport.log;
+  const points = panels.flatMap(({ matrix, translation: offset = [0, 0], arrows = [] }) => [
+    ...shape.parts.flatMap(part => part.points.map(p => applyAffine(matrix, offset, p))),
+    ...(withEllipse ? UNIT_CIRCLE.map(p => applyAffine(matrix, offset, p)) : []),
+    ...arrows.map(arrow => arrowTip(matrix, offset, arrow)),
+    offset
+  ]);
+  return baseViewport(points, viewport);
+}
+
+function panelBody(panel: FigurePanel, shape: Shape, overlays: OverlayOptions, options: FigureOptions, size: number, view: Viewport): string {
+  const theme = THEMES[options.theme];
+  const ink = (color: string) => paint(color, options.palette);
+  const scale = viewScale(view, size, padding(size));
+  const screen = (p: Point) => projectPoint(view, size, scale, p);
+  const offset = panel.translation ?? [0, 0];
+  const through = (p: Point) => applyAffine(panel.matrix, offset, p);
+  // Straight edges bend under the log warp
+  const path = (points: Point[], closed: boolean) =>
+    (view.floor === null ? points : densify(points, closed, LOG_PIECES)).map(screen)
+      .map((p, i) => `${i === 0 ? 'M' : 'L'}${num(p[0])} ${num(p[1])}`).join(' ') + (closed ? ' Z' : '');
+  const origin = screen([0, 0]);
+  const anchor = screen(offset);
+  const out: string[] = [];
+
+  if (options.grid) {
+    const grid = gridLines(view, size, scale);
+    const lines = [
+      ...grid.xs.map(x => {
+        const at = num(screen([x, 0])[0]);
+        return `<line x1="${at}" y1="0" x2="${at}" y2="${size}"/>`;
+      }),
+      ...grid.ys.map(y => {
+        const at = num(screen([0, y])[1]);
+        return `<line x1="0" y1="${at}" x2="${size}" y2="${at}"/>`;
+      }),
+      ...grid.rings.map(r => `<circle cx="${num(origin[0])}" cy="${num(origin[1])}" r="${num(warpRadius(r, view.floor) * scale)}" fill="none"/>`)
+    ];
+    out.push(`<g stroke="${theme.grid}" stroke-width="0.5">${lines.join('')}</g>`);
+    if (options.labels && grid.rings.length) {
+      out.push(`<g fill="${theme.subtitle}" font-size="${num(Math.max(6, size / 18))}" font-family="monospace">` +
+        grid.rings.map(r => `<text x="${num(screen([r, 0])[0] + 1)}" y="${num(origin[1] + 7)}">${formatTick(r)}</text>`).join('') +
+        `</g>`);
+    }
+    const unitRadius = warpRadius(1, view.floor) * scale;
+    if (unitRadius > 0) {
+      out.push(`<circle cx="${num(origin[0])}" cy="${num(origin[1])}" r="${num(unitRadius)}" fill="none" stroke="${theme.grid}" stroke-dasharray="4 4"/>`);
+    }
+  }
+  if (options.axes) {
+    out.push(`<g stroke="${theme.axes}" stroke-width="1"><line x1="0" y1="${num(origin[1])}" x2="${size}" y2="${num(origin[1])}"/><line x1="${num(origin[0])}" y1="0" x2="${num(origin[0])}" y2="${size}"/></g>`);
+  }
+
+  const det = determinant(panel.matrix);
+  if (overlays.determinant) {
+    const tint = ink(det >= 0 ? "#3b82f6" : "#ef4444");
+    out.push(`<path d="${path(UNIT_SQUARE.map(through), true)}" fill="${tint}40" stroke="${tint}" stroke-dasharray="2 2"/>`);
+  }
+
+  shape.parts.forEach(part => {
+    const color = ink(part.color ?? panel.color);
+    const points = part.points.map(through);
+    if (part.kind === 'points' || points.length < 2) {
+      out.push(`<g fill="${color}">${points.map(screen).map(p => `<circle cx="${num(p[0])}" cy="${num(p[1])}" r="${num(size / 80)}"/>`).join('')}</g>`);
+    } else {
+      const fill = part.kind === 'polygon' ? `${color}30` : 'none';
+      out.push(`<path d="${path(points, part.kind === 'polygon')}" fill="${fill}" stroke="${color}" stroke-width="2" stroke-linejoin="round" stroke-linecap="round"/>`);
+    }
+  });
+
+  if (overlays.ellipse) {
+    out.push(`<path d="${path(UNIT_CIRCLE.map(through), true)}" fill="none" stroke="${theme.ellipse}" stroke-opacity="0.6"/>`);
+  }
+
+  (panel.arrows ?? []).forEach(arrow => {
+    const tip = screen(arrowTip(panel.matrix, offset, arrow));
+    const [dx, dy] = [tip[0] - anchor[0], tip[1] - anchor[1]];
+    const len = Math.hypot(dx, dy);
+    const [ux, uy] = len > 0 ? [dx / len, dy / len] : [0, 0];
+    const head = Math.min(size / 22, len / 2);
+    const wings = [
+      [tip[0] - head * ux - 0.5 * head * uy, tip[1] - head * uy + 0.5 * head * ux],
+      [tip[0] - head * ux + 0.5 * head * uy, tip[1] - head * uy - 0.5 * head * ux]
+    ];
+    const dash = arrow.transform ? '' : ' stroke-dasharray="3 2"';
+    out.push(`<g stroke="${ink(arrow.color)}" fill="${ink(arrow.color)}">` +
+      `<line x1="${num(anchor[0])}" y1="${num(anchor[1])}" x2="${num(tip[0])}" y2="${num(tip[1])}" stroke-width="1.5"${dash}/>` +
+      `<polygon points="${[tip, ...wings].map(p => `${num(p[0])},${num(p[1])}`).join(' ')}" stroke="none"/>` +
+      (options.labels
+        ? `<text x="${num(tip[0] + ux * 8)}" y="${num(tip[1] + uy * 8 + 3)}" stroke="none" font-size="${num(Math.max(8, size / 14))}" text-anchor="middle" font-family="monospace">${escapeXml(arrow.label)}</text>`
+        : '') +
+      `</g>`);
+  });
+
+  if (overlays.determinant && options.labels) {
+    out.push(`<text x="4" y="${size - 4}" font-size="${num(Math.max(7, size / 16))}" fill="${ink(det >= 0 ? "#60a5fa" : "#f87171")}" font-family="monospace">det = ${det.toFixed(2)}</text>`);
+  }
+  return out.join('');
+}
+
+export function figureSize(count: number, size: number, options: FigureOptions): { width: number; height: number } {
+  return { width: count * size, height: size + (options.labels ? HEADER : 0) };
+}
+
+// Panels side by side in one row, the layout slides usually want. viewport
+// is the stages' auto-fit and log setting, so figures frame what's on screen.
+export function figureSvg(
+  panels: FigurePanel[],
+  shape: Shape,
+  overlays: OverlayOptions,
+  options: FigureOptions,
+  viewport: ViewportOptions = DEFAULT_VIEWPORT,
+  size = 240
+): string {
+  const theme = THEMES[options.theme];
+  const { width, height } = figureSize(panels.length, size, options);
+  const header = options.labels ? HEADER : 0;
+  const body = panels.map((panel, i) => {
+    const labels = options.labels
+      ? `<text x="${size / 2}" y="12" text-anchor="middle" font-family="sans-serif" font-size="11" font-weight="600" fill="${theme.title}">${escapeXml(panel.title)}</text>` +
+        `<text x="${size / 2}" y="24" text-anchor="middle" font-family="monospace" font-size="9" fill="${theme.subtitle}">${escapeXml(panel.subtitle.toUpperCase())}</text>`
+      : '';
+    return `<g transform="translate(${i * size} 0)">${labels}` +
+      `<svg y="${header}" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">` +
+      panelBody(panel, shape, overlays, options, size, panel.view ?? panelViewport([panel], shape, overlays, viewport)) +
+      `</svg></g>`;
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<rect width="${width}" height="${height}" fill="${theme.background}"/>` +
+    body.join('') +
+    `</svg>`;
+}
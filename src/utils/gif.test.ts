@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { lzwEncode, encodeGif, buildPalette, indexPixels } from './gif';
+
+// Reference GIF LZW decoder (8-bit symbols)
+function lzwDecode(data: Uint8Array): number[] {
+  const CLEAR = 256;
+  const END = 257;
+  const out: number[] = [];
+  let table: number[][] = [];
+  let width = 9;
+  let pos = 0;
+  let prev: number[] | null = null;
+  const reset = () => {
+    table = Array.from({ length: 258 }, (_, i) => [i]);
+    width = 9;
+    prev = null;
+  };
+  const read = () => {
+    let code = 0;
+    for (let i = 0; i < width; i++, pos++) {
+      code |= ((data[pos >> 3] >> (pos & 7)) & 1) << i;
+    }
+    return code;
+  };
+  reset();
+  for (;;) {
+    const code = read();
+    if (code === CLEAR) { reset(); continue; }
+    if (code === END) break;
+    let entry: number[];
+    if (code < table.length) entry = table[code];
+    else if (prev && code === table.length) entry = [...prev, prev[0]];
+    else throw new Error(`bad code ${code}`);
+    out.push(...entry);
+    if (prev) table.push([...prev, entry[0]]);
+    prev = entry;
+    if (table.length === (1 << width) && width < 12) width++;
+  }
+  return out;
+}
+
+describe('GIF encoder', () => {
+  it('round-trips LZW data through a reference decoder', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff;
+    const inputs = [
+      Uint8Array.from([5]),
+      Uint8Array.from({ length: 1000 }, () => 3),
+      // Noise fills the 4096-entry table and forces clear codes
+      Uint8Array.from({ length: 20000 }, () => Math.floor(random() * 256)),
+      Uint8Array.from({ length: 20000 }, (_, i) => (i % 97 < 50 ? 1 : Math.floor(random() * 4)))
+    ];
+    for (const input of inputs) {
+      expect(lzwDecode(lzwEncode(input))).toEqual(Array.from(input));
+    }
+  });
+
+  it('maps exact palette colours to themselves', () => {
+    const pixels = Uint8ClampedArray.from([255, 0, 0, 255, 0, 0, 255, 255, 255, 0, 0, 255]);
+    const palette = buildPalette([pixels]);
+    const indices = indexPixels(pixels, palette);
+    expect(indices[0]).toBe(indices[2]);
+    expect(indices[0]).not.toBe(indices[1]);
+    expect(palette[indices[1]][2]).toBeGreaterThan(240);
+  });
+
+  it('writes a looping GIF89a with one image per frame', () => {
+    const frame = (value: number) => ({ pixels: new Uint8ClampedArray(4 * 3 * 4).fill(value), delay: 50 });
+    const gif = encodeGif(4, 3, [frame(0), frame(128), frame(255)]);
+    expect(String.fromCharCode(...gif.subarray(0, 6))).toBe("GIF89a");
+    expect(gif[6] | (gif[7] << 8)).toBe(4);
+    expect(gif[8] | (gif[9] << 8)).toBe(3);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+    const text = String.fromCharCode(...gif);
+    expect(text).toContain("NETSCAPE2.0");
+    // Each frame starts with a graphic control extension
+    expect(text.split("\x21\xf9\x04").length - 1).toBe(3);
+  });
+});
@@ -0,0 +1,153 @@
+// Minimal animated GIF89a encoder: one global 256-colour palette shared by
+// all frames, LZW-compressed indices, looping forever. Stage figures are flat
+// colours plus antialiasing, so a popularity palette is plenty.
+
+export interface GifFrame {
+  // RGBA bytes, width * height * 4
+  pixels: Uint8ClampedArray;
+  // Display time in milliseconds (GIF stores hundredths of a second)
+  delay: number;
+}
+
+// Colours are bucketed at 5 bits per channel before counting
+const bucket = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+// The 256 most common buckets across all frames, as RGB triples
+export function buildPalette(frames: Uint8ClampedArray[]): number[][] {
+  const counts = new Map<number, number>();
+  for (const pixels of frames) {
+    for (let i = 0; i < pixels.length; i += 4) {
+      const key = bucket(pixels[i], pixels[i + 1], pixels[i + 2]);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  const palette = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 256)
+    .map(([key]) => [((key >> 10) & 31) << 3 | 4, ((key >> 5) & 31) << 3 | 4, (key & 31) << 3 | 4]);
+  while (palette.length < 256) palette.push([0, 0, 0]);
+  return palette;
+}
+
+export function indexPixels(pixels: Uint8ClampedArray, palette: number[][], cache = new Map<number, number>()): Uint8Array {
+  const indices = new Uint8Array(pixels.length / 4);
+  for (let i = 0; i < indices.length; i++) {
+    const r = pixels[i * 4];
+    const g = pixels[i * 4 + 1];
+    const b = pixels[i * 4 + 2];
+    const key = bucket(r, g, b);
+    let index = cache.get(key);
+    if (index === undefined) {
+      let best = Infinity;
+      index = 0;
+      palette.forEach(([pr, pg, pb], j) => {
+        const dist = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+        if (dist < best) {
+          best = dist;
+          index = j;
+        }
+      });
+      cache.set(key, index);
+    }
+    indices[i] = index;
+  }
+  return indices;
+}
+
+// Variable-width LZW as GIF uses it (8-bit symbols, codes up to 12 bits).
+// The code width grows one code after the table passes 2^n, matching how
+// decoders lag one entry behind.
+export function lzwEncode(indices: Uint8Array): Uint8Array {
+  const CLEAR = 256;
+  const END = 257;
+  const bytes: number[] = [];
+  let accum = 0;
+  let bits = 0;
+  let width = 9;
+  let next = END + 1;
+  let dict = new Map<number, number>();
+
+  const write = (code: number) => {
+    accum |= code << bits;
+    bits += width;
+    while (bits >= 8) {
+      bytes.push(accum & 0xff);
+      accum >>>= 8;
+      bits -= 8;
+    }
+  };
+  const emit = (code: number) => {
+    write(code);
+    if (code === CLEAR) {
+      width = 9;
+    } else if (next > (1 << width) - 1 && width < 12) {
+      width++;
+    }
+  };
+
+  emit(CLEAR);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const symbol = indices[i];
+    const key = (prefix << 8) | symbol;
+    const code = dict.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    prefix = symbol;
+    if (next < 4096) {
+      dict.set(key, next++);
+    } else {
+      emit(CLEAR);
+      dict = new Map();
+      next = END + 1;
+    }
+  }
+  emit(prefix);
+  emit(END);
+  if (bits > 0) bytes.push(accum & 0xff);
+  return Uint8Array.from(bytes);
+}
+
+export function encodeGif(width: number, height: number, frames: GifFrame[]): Uint8Array {
+  const palette = buildPalette(frames.map(frame => frame.pixels));
+  const cache = new Map<number, number>();
+  const out: number[] = [];
+  const word = (val: number) => out.push(val & 0xff, (val >> 8) & 0xff);
+  const ascii = (text: string) => [...text].forEach(c => out.push(c.charCodeAt(0)));
+
+  ascii("GIF89a");
+  word(width);
+  word(height);
+  out.push(0xf7, 0, 0); // global table of 256 colours, 8-bit resolution
+  palette.forEach(rgb => out.push(...rgb));
+  // NETSCAPE2.0 application extension: loop forever
+  out.push(0x21, 0xff, 0x0b);
+  ascii("NETSCAPE2.0");
+  out.push(0x03, 0x01, 0, 0, 0);
+
+  for (const frame of frames) {
+    // Graphic control: keep the previous frame, no transparency
+    out.push(0x21, 0xf9, 0x04, 0x04);
+    word(Math.round(frame.delay / 10));
+    out.push(0, 0);
+    // Image descriptor covering the whole canvas, no local table
+    out.push(0x2c);
+    word(0);
+    word(0);
+    word(width);
+    word(height);
+    out.push(0);
+    out.push(8); // LZW minimum code size
+    const data = lzwEncode(indexPixels(frame.pixels, palette, cache));
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.subarray(i, i + 255);
+      out.push(block.length, ...block);
+    }
+    out.push(0);
+  }
+  out.push(0x3b);
+  return Uint8Array.from(out);
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { Matrix2x2, SVDResult, computeSVD, fromAngle, reconstructMatrix, toOrthogonalFactor, transpose } from './matrix';
+import { ANGLE_STEP, GRID_STEP, snapPoint, withColumn, withEllipseAxis } from './handles';
+
+const maxAbsDiff = (a: number[][], b: number[][]) =>
+  Math.max(...a.flatMap((row, i) => row.map((val, j) => Math.abs(val - b[i][j]))));
+
+describe('snapPoint', () => {
+  const off = { grid: false, angle: false };
+
+  it('leaves the point alone with snapping off', () => {
+    expect(snapPoint([0.33, -1.71], off)).toEqual([0.33, -1.71]);
+  });
+
+  it('rounds to the grid', () => {
+    const [x, y] = snapPoint([0.33, -1.71], { ...off, grid: true });
+    expect(x).toBeCloseTo(0.25, 12);
+    expect(y).toBeCloseTo(-1.75, 12);
+    expect(x / GRID_STEP).toBeCloseTo(Math.round(x / GRID_STEP), 12);
+  });
+
+  it('rounds the direction to 15° and keeps the length', () => {
+    const p = snapPoint([2 * Math.cos(0.3), 2 * Math.sin(0.3)], { ...off, angle: true });
+    expect(Math.hypot(p[0], p[1])).toBeCloseTo(2, 12);
+    expect(Math.atan2(p[1], p[0])).toBeCloseTo(ANGLE_STEP, 12);
+    const back = snapPoint([-1, -0.01], { ...off, angle: true });
+    expect(back[0]).toBeCloseTo(-Math.hypot(1, 0.01), 12);
+    expect(back[1]).toBeCloseTo(0, 12);
+  });
+
+  it('snaps the angle before the grid', () => {
+    // 0.3 rad snaps to 15°, then each coordinate to the grid
+    const [x, y] = snapPoint([2 * Math.cos(0.3), 2 * Math.sin(0.3)], { grid: true, angle: true });
+    expect(x).toBeCloseTo(2, 12);
+    expect(y).toBeCloseTo(0.5, 12);
+  });
+});
+
+describe('withColumn', () => {
+  it('replaces exactly one column and copies the rest', () => {
+    const a: Matrix2x2 = [[1, 2], [3, 4]];
+    expect(withColumn(a, 0, [5, 6])).toEqual([[5, 2], [6, 4]]);
+    expect(withColumn(a, 1, [5, 6])).toEqual([[1, 5], [3, 6]]);
+    expect(a).toEqual([[1, 2], [3, 4]]);
+  });
+});
+
+describe('withEllipseAxis', () => {
+  const proper = computeSVD([[2, 1], [-0.5, 1]]);
+  const mirrored = computeSVD([[2, 1], [1.5, -1]]);
+  const tip = (svd: SVDResult, axis: 0 | 1): [number, number] =>
+    [svd.u[0][axis] * svd.s[axis], svd.u[1][axis] * svd.s[axis]];
+
+  it('is a no-op at the current axis end, for proper and mirrored U', () => {
+    expect(toOrthogonalFactor(proper.u).reflect).toBe(false);
+    expect(toOrthogonalFactor(mirrored.u).reflect).toBe(true);
+    for (const svd of [proper, mirrored]) {
+      for (const axis of [0, 1] as const) {
+        const { u, s } = withEllipseAxis(svd, axis, tip(svd, axis));
+        expect(maxAbsDiff(u, svd.u)).toBeLessThan(1e-12);
+        expect(s[0]).toBeCloseTo(svd.s[0], 12);
+        expect(s[1]).toBeCloseTo(svd.s[1], 12);
+      }
+    }
+  });
+
+  it('points u_i at the drag, sets σ_i to its length and keeps the mirror', () => {
+    for (const svd of [proper, mirrored]) {
+      for (const axis of [0, 1] as const) {
+        const next = withEllipseAxis(svd, axis, [-0.6, 1.2]);
+        expect(next.s[axis]).toBeCloseTo(Math.hypot(-0.6, 1.2), 12);
+        expect(next.s[1 - axis]).toBe(svd.s[1 - axis]);
+        const rebuilt = { ...svd, ...next };
+        expect(tip(rebuilt, axis)[0]).toBeCloseTo(-0.6, 12);
+        expect(tip(rebuilt, axis)[1]).toBeCloseTo(1.2, 12);
+        expect(toOrthogonalFactor(next.u).reflect).toBe(toOrthogonalFactor(svd.u).reflect);
+      }
+    }
+  });
+
+  it('leaves Vᵀ fixed', () => {
+    const next = withEllipseAxis(proper, 0, [0, 3]);
+    expect(Object.keys(next).sort()).toEqual(['s', 'u']);
+    // A's right singular vectors are unchanged: A v_i = σ_i u_i still holds
+    const a = reconstructMatrix(next.u, next.s, proper.vt);
+    const v = transpose(proper.vt);
+    const av1: [number, number] = [a[0][0] * v[0][0] + a[0][1] * v[1][0], a[1][0] * v[0][0] + a[1][1] * v[1][0]];
+    expect(av1[0]).toBeCloseTo(0, 12);
+    expect(av1[1]).toBeCloseTo(3, 12);
+    expect(maxAbsDiff(next.u, fromAngle(Math.PI / 2))).toBeLessThan(1e-12);
+  });
+});
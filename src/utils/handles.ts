@@ -0,0 +1,46 @@
+import { Matrix2x2, SVDResult, fromAngle, toOrthogonalFactor } from './matrix';
+import { Point } from './shapes';
+
+export interface SnapOptions {
+  grid: boolean;
+  angle: boolean;
+}
+
+export const GRID_STEP = 0.25;
+export const ANGLE_STEP = Math.PI / 12; // 15°
+
+// Angle snapping keeps the length and rounds the direction; grid snapping
+// then rounds each coordinate
+export function snapPoint([x, y]: Point, options: SnapOptions): Point {
+  let next: Point = [x, y];
+  if (options.angle) {
+    const r = Math.hypot(x, y);
+    const theta = Math.round(Math.atan2(y, x) / ANGLE_STEP) * ANGLE_STEP;
+    next = [r * Math.cos(theta), r * Math.sin(theta)];
+  }
+  if (options.grid) {
+    next = [Math.round(next[0] / GRID_STEP) * GRID_STEP, Math.round(next[1] / GRID_STEP) * GRID_STEP];
+  }
+  return next;
+}
+
+// Moving the image of e_i rewrites column i of A
+export function withColumn(matrix: Matrix2x2, col: 0 | 1, [x, y]: Point): Matrix2x2 {
+  const next = matrix.map(row => [...row]) as Matrix2x2;
+  next[0][col] = x;
+  next[1][col] = y;
+  return next;
+}
+
+// Moving the end of ellipse axis i to p sets σ_i = |p| and turns U so that
+// u_i points at p. V^T and the mirror flag of U are left alone.
+export function withEllipseAxis(svd: SVDResult, axis: 0 | 1, [x, y]: Point): Pick<SVDResult, 'u' | 's'> {
+  const { reflect } = toOrthogonalFactor(svd.u);
+  const direction = Math.atan2(y, x);
+  // u1 sits at the U angle; u2 is a quarter turn away (+90° for a rotation,
+  // -90° for a mirrored U)
+  const offset = axis === 0 ? 0 : reflect ? -Math.PI / 2 : Math.PI / 2;
+  const s = [...svd.s] as [number, number];
+  s[axis] = Math.hypot(x, y);
+  return { u: fromAngle(direction - offset, reflect), s };
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { HISTORY_LIMIT, createHistory, pushHistory, undoHistory, redoHistory } from './history';
+
+describe('history', () => {
+  it('undoes and redoes edits in order', () => {
+    let h = createHistory(0);
+    h = pushHistory(h, 1, null, 0);
+    h = pushHistory(h, 2, null, 10);
+    h = undoHistory(h);
+    expect(h.present).toBe(1);
+    h = undoHistory(undoHistory(h));
+    expect(h.present).toBe(0);
+    h = redoHistory(h);
+    expect(h.present).toBe(1);
+    // a new edit drops the redo branch
+    h = pushHistory(h, 5, null, 20);
+    expect(h.future).toEqual([]);
+    expect(redoHistory(h)).toBe(h);
+  });
+
+  it('coalesces a continuous gesture into one step', () => {
+    let h = createHistory(0);
+    for (let t = 0; t < 10; t++) h = pushHistory(h, t + 1, 'sigma', t * 50);
+    expect(h.past).toEqual([0]);
+    // same key after a pause starts a new step
+    h = pushHistory(h, 20, 'sigma', 5000);
+    expect(h.past).toEqual([0, 10]);
+    h = pushHistory(h, 21, 'angleU', 5010);
+    expect(h.past).toEqual([0, 10, 20]);
+  });
+
+  it('caps the number of undo steps', () => {
+    let h = createHistory(0);
+    for (let i = 1; i <= HISTORY_LIMIT + 20; i++) h = pushHistory(h, i);
+    expect(h.past).toHaveLength(HISTORY_LIMIT);
+    expect(h.past[0]).toBe(20);
+  });
+});
@@ -0,0 +1,51 @@
+// Undo/redo stack. Edits that share a key and arrive in quick succession
+// (one slider drag, one handle drag) merge into a single step.
+
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastTime: number;
+}
+
+export const HISTORY_LIMIT = 100;
+// Max gap in milliseconds between two edits of one gesture
+export const COALESCE_WINDOW = 600;
+
+export function createHistory<T>(present: T): History<T> {
+  return { past: [], present, future: [], lastKey: null, lastTime: 0 };
+}
+
+export function pushHistory<T>(history: History<T>, next: T, key: string | null = null, now = Date.now()): History<T> {
+  const coalesce = key !== null && key === history.lastKey && now - history.lastTime <= COALESCE_WINDOW;
+  return {
+    past: coalesce ? history.past : [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+    lastKey: key,
+    lastTime: now
+  };
+}
+
+export function undoHistory<T>(history: History<T>): History<T> {
+  if (!history.past.length) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastKey: null,
+    lastTime: 0
+  };
+}
+
+export function redoHistory<T>(history: History<T>): History<T> {
+  if (!history.future.length) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastKey: null,
+    lastTime: 0
+  };
+}
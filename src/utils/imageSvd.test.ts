@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { splitChannels, decomposeChannels, reconstructPixels, compressionStats } from './imageSvd';
+
+// A 6x4 image whose channels have rank 1, 2 and 1
+const WIDTH = 6;
+const HEIGHT = 4;
+const pixels = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+for (let y = 0; y < HEIGHT; y++) {
+  for (let x = 0; x < WIDTH; x++) {
+    const i = (y * WIDTH + x) * 4;
+    pixels[i] = 10 * (x + 1) * (y + 1) / 4;
+    pixels[i + 1] = (x + y) % 2 ? 200 : 40;
+    pixels[i + 2] = 90;
+    pixels[i + 3] = 255;
+  }
+}
+
+describe('image compression', () => {
+  const svds = decomposeChannels(splitChannels(pixels, WIDTH, HEIGHT));
+
+  it('splits RGBA bytes into height x width channel matrices', () => {
+    const channels = splitChannels(pixels, WIDTH, HEIGHT);
+    expect(channels).toHaveLength(3);
+    expect(channels[1]).toHaveLength(HEIGHT);
+    expect(channels[1][0]).toHaveLength(WIDTH);
+    expect(channels[1][0][1]).toBe(200);
+  });
+
+  it('reconstructs the exact pixels once k reaches the rank', () => {
+    expect(Array.from(reconstructPixels(svds, 2, WIDTH, HEIGHT))).toEqual(Array.from(pixels));
+  });
+
+  it('keeps alpha opaque and loses detail below the rank', () => {
+    const approx = reconstructPixels(svds, 1, WIDTH, HEIGHT);
+    expect(approx[3]).toBe(255);
+    expect(Array.from(approx)).not.toEqual(Array.from(pixels));
+  });
+
+  it('derives storage, error and energy from the spectra', () => {
+    const spectra = svds.map(svd => svd.s);
+    const full = compressionStats(spectra, 4, WIDTH, HEIGHT);
+    expect(full.relativeError).toBeCloseTo(0, 12);
+    expect(full.energy).toBeCloseTo(1, 12);
+    expect(full.storageRatio).toBeCloseTo(4 * (WIDTH + HEIGHT + 1) / (WIDTH * HEIGHT), 12);
+
+    const one = compressionStats(spectra, 1, WIDTH, HEIGHT);
+    expect(one.energy + one.relativeError ** 2).toBeCloseTo(1, 12);
+    expect(one.relativeError).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,75 @@
+import { Matrix, SVDResultN, computeSVDN } from './matrix';
+
+// Jacobi is O(n^3) per channel, so images are downscaled to fit this box first
+export const MAX_IMAGE_SIZE = 160;
+
+export const CHANNEL_NAMES = ["Red", "Green", "Blue"] as const;
+
+// Messages between the compression view and its worker
+export type ImageWorkerRequest =
+  | { type: 'decompose'; id: number; width: number; height: number; pixels: Uint8ClampedArray }
+  | { type: 'reconstruct'; id: number; k: number };
+
+export type ImageWorkerResponse =
+  | { type: 'progress'; id: number; channel: number }
+  | { type: 'decomposed'; id: number; spectra: number[][] }
+  | { type: 'reconstructed'; id: number; k: number; pixels: Uint8ClampedArray }
+  | { type: 'error'; id: number; message: string };
+
+// RGBA bytes -> one height x width matrix per colour channel (alpha dropped)
+export function splitChannels(pixels: Uint8ClampedArray, width: number, height: number): Matrix[] {
+  return CHANNEL_NAMES.map((_, channel) =>
+    Array.from({ length: height }, (_, y) =>
+      Array.from({ length: width }, (_, x) => pixels[(y * width + x) * 4 + channel])
+    )
+  );
+}
+
+export function decomposeChannels(channels: Matrix[], onChannel?: (channel: number) => void): SVDResultN[] {
+  return channels.map((channel, i) => {
+    const svd = computeSVDN(channel);
+    onChannel?.(i);
+    return svd;
+  });
+}
+
+// Rebuilds RGBA bytes from the top-k singular triplets of each channel
+export function reconstructPixels(svds: SVDResultN[], k: number, width: number, height: number): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  svds.forEach(({ u, s, vt }, channel) => {
+    const terms = Math.min(k, s.length);
+    for (let y = 0; y < height; y++) {
+      const row = u[y];
+      for (let x = 0; x < width; x++) {
+        let val = 0;
+        for (let i = 0; i < terms; i++) val += row[i] * s[i] * vt[i][x];
+        pixels[(y * width + x) * 4 + channel] = val;
+      }
+    }
+  });
+  for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255;
+  return pixels;
+}
+
+export interface CompressionStats {
+  // Numbers stored for k terms (k(m + n + 1) per channel) over the raw m x n
+  storageRatio: number;
+  // ||A - A_k||_F / ||A||_F over all channels, straight from the spectrum
+  relativeError: number;
+  // Share of the squared Frobenius norm kept
+  energy: number;
+}
+
+export function compressionStats(spectra: number[][], k: number, width: number, height: number): CompressionStats {
+  let total = 0;
+  let dropped = 0;
+  spectra.forEach(spectrum => spectrum.forEach((sigma, i) => {
+    total += sigma * sigma;
+    if (i >= k) dropped += sigma * sigma;
+  }));
+  return {
+    storageRatio: (k * (width + height + 1)) / (width * height),
+    relativeError: total > 0 ? Math.sqrt(dropped / total) : 0,
+    energy: total > 0 ? 1 - dropped / total : 1
+  };
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { keyMove, keyStep } from './keyboard';
+
+const key = (name: string, modifiers: { shiftKey?: boolean; altKey?: boolean } = {}) =>
+  ({ key: name, shiftKey: false, altKey: false, ...modifiers });
+
+describe('keyboard stepping', () => {
+  const sizes = { fine: 0.1, normal: 1, coarse: 15 };
+
+  it('picks the step from the modifiers', () => {
+    expect(keyStep(key('ArrowUp'), sizes)).toBe(1);
+    expect(keyStep(key('ArrowLeft', { shiftKey: true }), sizes)).toBe(-15);
+    expect(keyStep(key('ArrowRight', { altKey: true }), sizes)).toBe(0.1);
+    expect(keyStep(key('PageDown'), sizes)).toBe(-15);
+    expect(keyStep(key('Enter'), sizes)).toBeNull();
+  });
+
+  it('moves points along the arrow direction only', () => {
+    expect(keyMove(key('ArrowDown'), sizes)).toEqual([0, -1]);
+    expect(keyMove(key('ArrowRight', { shiftKey: true }), sizes)).toEqual([15, 0]);
+    expect(keyMove(key('PageUp'), sizes)).toBeNull();
+  });
+});
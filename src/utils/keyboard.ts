@@ -0,0 +1,32 @@
+// Keyboard stepping shared by sliders, Σ and draggable points: arrow keys
+// take normal steps, Shift (or Page Up/Down) coarse ones and Alt fine ones.
+
+export interface StepSizes {
+  fine: number;
+  normal: number;
+  coarse: number;
+}
+
+const DIRECTIONS: Record<string, number> = {
+  ArrowUp: 1,
+  ArrowRight: 1,
+  PageUp: 1,
+  ArrowDown: -1,
+  ArrowLeft: -1,
+  PageDown: -1,
+};
+
+// Signed step for a key press, or null for keys that don't step
+export function keyStep(e: { key: string; shiftKey: boolean; altKey: boolean }, sizes: StepSizes): number | null {
+  const sign = DIRECTIONS[e.key];
+  if (!sign) return null;
+  const size = e.shiftKey || e.key.startsWith('Page') ? sizes.coarse : e.altKey ? sizes.fine : sizes.normal;
+  return sign * size;
+}
+
+// Arrow keys move a point in the plane; other keys return null
+export function keyMove(e: { key: string; shiftKey: boolean; altKey: boolean }, sizes: StepSizes): [number, number] | null {
+  const step = keyStep(e, sizes);
+  if (step === null || e.key.startsWith('Page')) return null;
+  return e.key === 'ArrowUp' || e.key === 'ArrowDown' ? [0, step] : [step, 0];
+}
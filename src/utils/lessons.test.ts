@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { computeSVD } from './matrix';
+import { parseLesson, loadLessons, checkAnswer, LessonError, LessonQuestion } from './lessons';
+import { LESSONS, LESSON_ERRORS } from '../lessons';
+
+const minimal = {
+  id: 'demo',
+  title: "Demo",
+  summary: "A one-step lesson",
+  steps: [{ title: "Step", text: "Look", preset: 'shear', overlays: ['ellipse'], highlight: ['pipeline'] }]
+};
+
+describe('lessons', () => {
+  it('loads every bundled lesson', () => {
+    expect(LESSON_ERRORS).toEqual([]);
+    expect(LESSONS.length).toBeGreaterThan(0);
+  });
+
+  it('resolves presets and turns overlay lists into full options', () => {
+    const step = parseLesson(minimal).steps[0];
+    expect(step.matrix).toEqual([[1, 1], [0, 1]]);
+    expect(step.overlays).toEqual({ ellipse: true, rightVectors: false, leftVectors: false, determinant: false });
+  });
+
+  it('names the offending field', () => {
+    const bad = (step: object) => () => parseLesson({ ...minimal, steps: [{ ...minimal.steps[0], ...step }] });
+    expect(bad({ preset: 'nope' })).toThrow('steps[0].preset: unknown preset "nope"');
+    expect(bad({ highlight: ['everything'] })).toThrow(LessonError);
+    expect(bad({ matrix: [[1, 0], [0, 1]] })).toThrow('give either matrix or preset');
+    expect(bad({ question: { kind: 'choice', prompt: "?", choices: ['a', 'b'], answer: 2 } }))
+      .toThrow('steps[0].question.answer');
+  });
+
+  it('reports broken files without dropping the good ones', () => {
+    const { lessons, errors } = loadLessons({ './a.json': minimal, './b.json': minimal, './c.json': {} });
+    expect(lessons).toHaveLength(1);
+    expect(errors).toEqual(['b.json: id: "demo" is already taken', 'c.json: steps: expected a non-empty list']);
+  });
+
+  it('checks numeric answers against the live matrix', () => {
+    const svd = computeSVD([[2, 0], [0, 0.5]]);
+    const question: LessonQuestion = { kind: 'number', prompt: "σ₁?", answer: 'sigma1', tolerance: 0.01 };
+    expect(checkAnswer(question, 2.005, svd)).toBe(true);
+    expect(checkAnswer(question, 0.5, svd)).toBe(false);
+    const choice: LessonQuestion = { kind: 'choice', prompt: "?", choices: ['a', 'b'], answer: 1 };
+    expect(checkAnswer(choice, 1, svd)).toBe(true);
+  });
+});
@@ -0,0 +1,204 @@
+import { Matrix2x2, SVDResult, matrixQuantities } from './matrix';
+import { OverlayOptions, DEFAULT_OVERLAYS } from './overlays';
+import { DecompositionMode, DECOMPOSITION_MODES } from './pipelines';
+import { findPreset } from './presets';
+
+// Lessons are plain JSON files in src/lessons, validated here on load, so
+// authoring one never means touching a component. A step sets A (inline or
+// from a preset), optionally the overlays and decomposition, points at the
+// controls that matter and may end with a check question.
+
+// Parts of the layout a step can draw attention to
+export const HIGHLIGHT_TARGETS = [
+  'matrix',
+  'presets',
+  'rotations',
+  'sigma',
+  'quantities',
+  'derivation',
+  'pipeline',
+  'overlays'
+] as const;
+
+export type HighlightTarget = typeof HIGHLIGHT_TARGETS[number];
+
+// Numeric answers can be fixed or read off the current A when checked
+export const LIVE_QUANTITIES = ['sigma1', 'sigma2', 'det', 'rank', 'condition'] as const;
+
+export type LiveQuantity = typeof LIVE_QUANTITIES[number];
+
+export type LessonQuestion =
+  | { kind: 'choice'; prompt: string; choices: string[]; answer: number; explanation?: string }
+  | { kind: 'number'; prompt: string; answer: number | LiveQuantity; tolerance: number; explanation?: string };
+
+export interface LessonStep {
+  title: string;
+  text: string;
+  matrix?: Matrix2x2;
+  overlays?: OverlayOptions;
+  decomposition?: DecompositionMode;
+  highlight: HighlightTarget[];
+  question?: LessonQuestion;
+}
+
+export interface Lesson {
+  id: string;
+  title: string;
+  summary: string;
+  steps: LessonStep[];
+}
+
+export class LessonError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LessonError';
+  }
+}
+
+// --- Validation ---
+
+const isFiniteNumber = (val: unknown): val is number => typeof val === 'number' && Number.isFinite(val);
+
+function readString(val: unknown, field: string): string {
+  if (typeof val !== 'string' || !val.trim()) throw new LessonError(`${field}: expected a non-empty string`);
+  return val;
+}
+
+function readOptionalString(val: unknown, field: string): string | undefined {
+  return val === undefined ? undefined : readString(val, field);
+}
+
+function readStepMatrix(step: Record<string, unknown>, field: string): Matrix2x2 | undefined {
+  if (step.matrix !== undefined && step.preset !== undefined) {
+    throw new LessonError(`${field}: give either matrix or preset, not both`);
+  }
+  if (step.preset !== undefined) {
+    const preset = findPreset(readString(step.preset, `${field}.preset`));
+    if (!preset) throw new LessonError(`${field}.preset: unknown preset "${step.preset}"`);
+    return preset.matrix;
+  }
+  if (step.matrix === undefined) return undefined;
+  const val = step.matrix;
+  if (
+    !Array.isArray(val) ||
+    val.length !== 2 ||
+    !val.every(row => Array.isArray(row) && row.length === 2 && row.every(isFiniteNumber))
+  ) {
+    throw new LessonError(`${field}.matrix: expected a 2×2 array of finite numbers`);
+  }
+  return [[val[0][0], val[0][1]], [val[1][0], val[1][1]]];
+}
+
+// Listed overlays are switched on and the rest off, so a step's picture
+// doesn't depend on what the learner toggled before
+function readStepOverlays(val: unknown, field: string): OverlayOptions | undefined {
+  if (val === undefined) return undefined;
+  const keys = Object.keys(DEFAULT_OVERLAYS) as (keyof OverlayOptions)[];
+  if (!Array.isArray(val) || !val.every(key => keys.includes(key))) {
+    throw new LessonError(`${field}: expected a list of ${keys.join(', ')}`);
+  }
+  return Object.fromEntries(keys.map(key => [key, val.includes(key)])) as unknown as OverlayOptions;
+}
+
+function readQuestion(val: unknown, field: string): LessonQuestion | undefined {
+  if (val === undefined) return undefined;
+  if (!val || typeof val !== 'object') throw new LessonError(`${field}: expected an object`);
+  const obj = val as Record<string, unknown>;
+  const prompt = readString(obj.prompt, `${field}.prompt`);
+  const explanation = readOptionalString(obj.explanation, `${field}.explanation`);
+
+  if (obj.kind === 'choice') {
+    const { choices, answer } = obj;
+    if (!Array.isArray(choices) || choices.length < 2 || !choices.every(c => typeof c === 'string')) {
+      throw new LessonError(`${field}.choices: expected at least two strings`);
+    }
+    if (!Number.isInteger(answer) || (answer as number) < 0 || (answer as number) >= choices.length) {
+      throw new LessonError(`${field}.answer: expected the index of a choice`);
+    }
+    return { kind: 'choice', prompt, choices, answer: answer as number, explanation };
+  }
+  if (obj.kind === 'number') {
+    const { answer, tolerance = 0.01 } = obj;
+    if (!isFiniteNumber(answer) && !LIVE_QUANTITIES.includes(answer as LiveQuantity)) {
+      throw new LessonError(`${field}.answer: expected a number or one of ${LIVE_QUANTITIES.join(', ')}`);
+    }
+    if (!isFiniteNumber(tolerance) || tolerance < 0) {
+      throw new LessonError(`${field}.tolerance: expected a non-negative number`);
+    }
+    return { kind: 'number', prompt, answer: answer as number | LiveQuantity, tolerance, explanation };
+  }
+  throw new LessonError(`${field}.kind: expected "choice" or "number"`);
+}
+
+function readStep(val: unknown, field: string): LessonStep {
+  if (!val || typeof val !== 'object') throw new LessonError(`${field}: expected an object`);
+  const step = val as Record<string, unknown>;
+  const highlight = step.highlight ?? [];
+  if (!Array.isArray(highlight) || !highlight.every(target => HIGHLIGHT_TARGETS.includes(target))) {
+    throw new LessonError(`${field}.highlight: expected a list of ${HIGHLIGHT_TARGETS.join(', ')}`);
+  }
+  if (step.decomposition !== undefined && !DECOMPOSITION_MODES.includes(step.decomposition as DecompositionMode)) {
+    throw new LessonError(`${field}.decomposition: expected one of ${DECOMPOSITION_MODES.join(', ')}`);
+  }
+  return {
+    title: readString(step.title, `${field}.title`),
+    text: readString(step.text, `${field}.text`),
+    matrix: readStepMatrix(step, field),
+    overlays: readStepOverlays(step.overlays, `${field}.overlays`),
+    decomposition: step.decomposition as DecompositionMode | undefined,
+    highlight: highlight as HighlightTarget[],
+    question: readQuestion(step.question, `${field}.question`)
+  };
+}
+
+export function parseLesson(data: unknown): Lesson {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) throw new LessonError('Expected a JSON object');
+  const obj = data as Record<string, unknown>;
+  if (!Array.isArray(obj.steps) || obj.steps.length === 0) throw new LessonError('steps: expected a non-empty list');
+  return {
+    id: readString(obj.id, 'id'),
+    title: readString(obj.title, 'title'),
+    summary: readString(obj.summary, 'summary'),
+    steps: obj.steps.map((step, i) => readStep(step, `steps[${i}]`))
+  };
+}
+
+// Bad files are reported rather than taking the whole list down
+export function loadLessons(files: Record<string, unknown>): { lessons: Lesson[]; errors: string[] } {
+  const lessons: Lesson[] = [];
+  const errors: string[] = [];
+  for (const path of Object.keys(files).sort()) {
+    const name = path.split('/').pop();
+    try {
+      const lesson = parseLesson(files[path]);
+      if (lessons.some(other => other.id === lesson.id)) throw new LessonError(`id: "${lesson.id}" is already taken`);
+      lessons.push(lesson);
+    } catch (err) {
+      errors.push(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return { lessons, errors };
+}
+
+// --- Answers ---
+
+export function expectedAnswer(question: Extract<LessonQuestion, { kind: 'number' }>, svd: SVDResult): number {
+  if (typeof question.answer === 'number') return question.answer;
+  const q = matrixQuantities(svd);
+  const [s1, s2] = [...svd.s].sort((a, b) => b - a);
+  switch (question.answer) {
+    case 'sigma1': return s1;
+    case 'sigma2': return s2;
+    case 'det': return q.det;
+    case 'rank': return q.rank;
+    case 'condition': return q.condition;
+  }
+}
+
+// choice: the index picked; number: the value typed in
+export function checkAnswer(question: LessonQuestion, answer: number, svd: SVDResult): boolean {
+  if (question.kind === 'choice') return answer === question.answer;
+  const expected = expectedAnswer(question, svd);
+  if (!Number.isFinite(expected)) return !Number.isFinite(answer);
+  return Math.abs(answer - expected) <= question.tolerance;
+}
@@ -0,0 +1,527 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+  Matrix,
+  Matrix2x2,
+  SVDResult,
+  computeSVD,
+  computeSVDN,
+  reconstructMatrix,
+  reconstructMatrixN,
+  determinant,
+  determinantN,
+  multiply,
+  transpose,
+  multiplyN,
+  transposeN,
+  identityN,
+  fromAngle,
+  toOrthogonalFactor,
+  fromOrthogonalFactor,
+  explainSVD,
+  matrixQuantities,
+  truncateSVD,
+  truncateSVDN,
+  inverse,
+  pseudoInverse,
+  eigenDecompose,
+  polarDecompose,
+  computeSVDContinuous,
+  svdDegeneracy
+} from './matrix';
+
+// Machine epsilon scaled for a handful of floating-point operations
+const TOL = 1e-13;
+
+const frobenius = (m: Matrix) => Math.hypot(...m.flat());
+
+const maxAbsDiff = (a: Matrix, b: Matrix) =>
+  Math.max(...a.flat().map((val, i) => Math.abs(val - b.flat()[i])));
+
+// Below this, floats are subnormal and can't hold relative precision
+const SMALLEST_NORMAL = 2 ** -1022;
+
+// Checks every invariant of a decomposition, with errors relative to |A|
+function expectValidSVD(a: Matrix, { u, s, vt }: { u: Matrix; s: number[]; vt: Matrix }) {
+  const n = a.length;
+  const scale = Math.max(frobenius(a), SMALLEST_NORMAL);
+
+  // Reconstruction
+  const rebuilt = reconstructMatrixN(u, s, vt);
+  expect(maxAbsDiff(rebuilt, a) / scale).toBeLessThan(TOL * n);
+
+  // Orthogonality
+  expect(maxAbsDiff(multiplyN(transposeN(u), u), identityN(n))).toBeLessThan(TOL * n);
+  expect(maxAbsDiff(multiplyN(vt, transposeN(vt)), identityN(n))).toBeLessThan(TOL * n);
+
+  // Non-negative and descending
+  s.forEach((sigma, i) => {
+    expect(sigma).toBeGreaterThanOrEqual(0);
+    if (i > 0) expect(sigma).toBeLessThanOrEqual(s[i - 1] * (1 + TOL));
+  });
+
+  // Sign convention: V is a rotation, U mirrors only when det(A) < 0
+  expect(determinantN(vt)).toBeCloseTo(1, 12);
+  // Normalise first so det(A) can't underflow to ±0 for tiny entries
+  const detA = determinantN(a.map(row => row.map(val => val / scale)));
+  const smallest = s[n - 1];
+  if (smallest > s[0] * 1e-8) {
+    expect(Math.sign(determinantN(u))).toBe(Math.sign(detA));
+  }
+}
+
+const check2x2 = (a: Matrix2x2): SVDResult => {
+  const result = computeSVD(a);
+  expectValidSVD(a, result);
+  // v and vt must agree
+  expect(result.v).toEqual(transposeN(result.vt));
+  return result;
+};
+
+// Deterministic PRNG so failures are reproducible
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+describe('computeSVD (2x2)', () => {
+  it('decomposes the default matrix', () => {
+    const { s } = check2x2([[1.5, 0.5], [0.5, 1.5]]);
+    expect(s[0]).toBeCloseTo(2, 14);
+    expect(s[1]).toBeCloseTo(1, 14);
+  });
+
+  it('handles random matrices', () => {
+    const random = mulberry32(42);
+    for (let i = 0; i < 500; i++) {
+      check2x2([
+        [random() * 20 - 10, random() * 20 - 10],
+        [random() * 20 - 10, random() * 20 - 10]
+      ]);
+    }
+  });
+
+  it('returns the identity factors for the zero matrix', () => {
+    const { u, s, vt } = check2x2([[0, 0], [0, 0]]);
+    expect(s).toEqual([0, 0]);
+    expect(u).toEqual([[1, -0], [0, 1]]);
+    expect(vt).toEqual([[1, -0], [0, 1]]);
+  });
+
+  it('handles rank-deficient matrices', () => {
+    const { s } = check2x2([[1, 2], [2, 4]]);
+    expect(s[0]).toBeCloseTo(5, 13);
+    expect(s[1]).toBeLessThan(1e-15);
+    check2x2([[0, 3], [0, 0]]);
+    check2x2([[0, 0], [-2, 0]]);
+  });
+
+  it('handles near-singular matrices', () => {
+    const { s } = check2x2([[1, 1], [1, 1 + 1e-12]]);
+    // det = 1e-12 = σ1 σ2 with σ1 ≈ 2
+    expect(s[1] / 5e-13).toBeCloseTo(1, 3);
+  });
+
+  it('keeps precision when the off-diagonal of AᵀA is tiny but nonzero', () => {
+    const a: Matrix2x2 = [[1, 1e-9], [0, 1 + 1e-7]];
+    const { s } = check2x2(a);
+    // σ1 σ2 = |det A| and σ1² + σ2² = |A|²_F pin both values down
+    expect(s[0] * s[1]).toBeCloseTo(1 + 1e-7, 15);
+    expect(s[0] ** 2 + s[1] ** 2).toBeCloseTo(frobenius(a) ** 2, 15);
+    expect(s[0] - s[1]).toBeGreaterThan(9.9e-8);
+  });
+
+  it('handles huge magnitudes without overflow', () => {
+    check2x2([[1e154, 2e154], [3e154, 4e154]]);
+    const { s } = check2x2([[1e308, 0], [0, -1e308]]);
+    expect(s).toEqual([1e308, 1e308]);
+  });
+
+  it('handles tiny magnitudes without underflow', () => {
+    check2x2([[1e-160, 2e-160], [3e-160, 4e-160]]);
+    const { s } = check2x2([[3e-310, 0], [0, 4e-310]]);
+    expect(s[0]).toBeGreaterThan(0);
+  });
+
+  it('puts the reflection of a negative-determinant matrix into U', () => {
+    const { u, vt } = check2x2([[1, 0], [0, -1]]);
+    expect(determinant(u)).toBeCloseTo(-1, 14);
+    expect(determinant(vt)).toBeCloseTo(1, 14);
+    check2x2([[0, 1], [1, 0]]);
+    check2x2([[2, 1], [3, -4]]);
+  });
+
+  it('keeps the V angle in (-90°, 90°]', () => {
+    const random = mulberry32(7);
+    for (let i = 0; i < 200; i++) {
+      const { vt } = computeSVD([
+        [random() * 2 - 1, random() * 2 - 1],
+        [random() * 2 - 1, random() * 2 - 1]
+      ]);
+      const angleV = -toOrthogonalFactor(vt).angle;
+      expect(angleV).toBeGreaterThan(-Math.PI / 2 - TOL);
+      expect(angleV).toBeLessThanOrEqual(Math.PI / 2 + TOL);
+    }
+  });
+
+  it('satisfies the invariants for arbitrary entries (property)', () => {
+    const entry = fc.double({ min: -1e6, max: 1e6, noNaN: true, noDefaultInfinity: true });
+    fc.assert(
+      fc.property(entry, entry, entry, entry, (a, b, c, d) => {
+        check2x2([[a, b], [c, d]]);
+      }),
+      { numRuns: 1000 }
+    );
+  });
+
+  it('satisfies the invariants across magnitudes (property)', () => {
+    // Subnormal results can't hold relative precision, so keep mantissas normal
+    const mantissa = fc.oneof(
+      fc.constant(0),
+      fc.double({ min: 1e-3, max: 1, noNaN: true }),
+      fc.double({ min: -1, max: -1e-3, noNaN: true })
+    );
+    const exponent = fc.integer({ min: -150, max: 150 });
+    fc.assert(
+      fc.property(mantissa, mantissa, mantissa, mantissa, exponent, (a, b, c, d, e) => {
+        const k = 10 ** e;
+        check2x2([[a * k, b * k], [c * k, d * k]]);
+      }),
+      { numRuns: 1000 }
+    );
+  });
+
+  it('rebuilds A from its factors', () => {
+    const a: Matrix2x2 = [[2, -1], [0.5, 3]];
+    const { u, s, vt } = computeSVD(a);
+    expect(maxAbsDiff(reconstructMatrix(u, s, vt), a)).toBeLessThan(TOL * 10);
+  });
+});
+
+describe('matrixQuantities', () => {
+  it('derives rank, determinant, condition number and norms from Σ', () => {
+    const q = matrixQuantities(computeSVD([[2, 1], [3, -4]]));
+    expect(q.rank).toBe(2);
+    expect(q.det).toBeCloseTo(-11, 12);
+    expect(q.frobeniusNorm).toBeCloseTo(Math.sqrt(30), 12);
+    expect(q.condition).toBeCloseTo(q.spectralNorm ** 2 / 11, 12);
+    expect(q.nuclearNorm).toBeGreaterThan(q.spectralNorm);
+  });
+
+  it('reports singular matrices as rank-deficient with infinite condition number', () => {
+    const q = matrixQuantities(computeSVD([[1, 2], [2, 4]]));
+    expect(q.rank).toBe(1);
+    expect(q.condition).toBe(Infinity);
+    expect(matrixQuantities(computeSVD([[0, 0], [0, 0]])).rank).toBe(0);
+  });
+});
+
+describe('truncateSVD', () => {
+  it('gives the best rank-1 approximation with error σ2', () => {
+    const a: Matrix2x2 = [[3, 1], [1, 2]];
+    const svd = computeSVD(a);
+    const { matrix, spectralError, frobeniusError } = truncateSVD(svd, 1);
+    expect(Math.abs(determinant(matrix))).toBeLessThan(1e-12);
+    expect(spectralError).toBe(svd.s[1]);
+    expect(frobeniusError).toBeCloseTo(frobenius(a.map((row, i) => row.map((val, j) => val - matrix[i][j]))), 12);
+  });
+
+  it('keeps A intact at full rank', () => {
+    const svd = computeSVD([[3, 1], [1, 2]]);
+    expect(truncateSVD(svd, 2).frobeniusError).toBe(0);
+  });
+});
+
+describe('explainSVD', () => {
+  it('reports the textbook intermediate values', () => {
+    const trace = explainSVD([[1.5, 0.5], [0.5, 1.5]]);
+    expect(trace.ata).toEqual([[2.5, 1.5], [1.5, 2.5]]);
+    expect(trace.trace).toBe(5);
+    expect(trace.det).toBe(4);
+    expect(trace.lambda).toEqual([4, 1]);
+    expect(trace.sigma).toEqual([2, 1]);
+  });
+
+  it('matches the singular values and vectors of computeSVD', () => {
+    const a: Matrix2x2 = [[2, 1], [3, -4]];
+    const trace = explainSVD(a);
+    const { u, s, v } = computeSVD(a);
+    expect(trace.sigma[0]).toBeCloseTo(s[0], 12);
+    expect(trace.sigma[1]).toBeCloseTo(s[1], 12);
+    expect(trace.v[0]).toEqual([v[0][0], v[1][0]]);
+    expect(trace.u[1]).toEqual([u[0][1], u[1][1]]);
+  });
+
+  it('explains the factors it is given, continuity picks included', () => {
+    const a: Matrix2x2 = [[2, 1], [3, -4]];
+    const canonical = computeSVD(a);
+    // Both vector pairs turned by 90°, which swaps σ₁ and σ₂
+    const turn = fromAngle(Math.PI / 2);
+    const u = multiply(canonical.u, turn);
+    const vt = multiply(transpose(turn), canonical.vt);
+    const shown = { u, s: [canonical.s[1], canonical.s[0]] as [number, number], v: transpose(vt), vt };
+    const trace = explainSVD(a, shown);
+    expect(trace.swapped).toBe(true);
+    expect(trace.lambda[0]).toBeGreaterThan(trace.lambda[1]);
+    expect(trace.sigma[0]).toBeCloseTo(shown.s[0], 12);
+    expect(trace.sigma[1]).toBeCloseTo(shown.s[1], 12);
+    expect(trace.v[0]).toEqual([shown.v[0][0], shown.v[1][0]]);
+    expect(trace.u[1]).toEqual([u[0][1], u[1][1]]);
+    expect(explainSVD(a).swapped).toBe(false);
+  });
+
+  it('scales like computeSVD at extreme magnitudes', () => {
+    for (const k of [1e200, 1e-200, 1e300, 1e-300]) {
+      const a: Matrix2x2 = [[2 * k, 1 * k], [3 * k, -4 * k]];
+      const trace = explainSVD(a);
+      const { s } = computeSVD(a);
+      expect(trace.sigma.every(Number.isFinite)).toBe(true);
+      expect(Math.abs(trace.sigma[0] - s[0]) / s[0]).toBeLessThan(1e-12);
+      expect(Math.abs(trace.sigma[1] - s[1]) / s[1]).toBeLessThan(1e-12);
+      expect(trace.uCompleted).toEqual([false, false]);
+    }
+    // Where AᵀA still fits, it is the same as unscaled
+    const moderate = explainSVD([[2e100, 1e100], [3e100, -4e100]]);
+    expect(moderate.ata[0][0] / 13e200).toBeCloseTo(1, 12);
+    expect(moderate.lambda[0] / moderate.sigma[0] ** 2).toBeCloseTo(1, 12);
+  });
+
+  it('flags left singular vectors that had to be completed', () => {
+    expect(explainSVD([[1, 2], [2, 4]]).uCompleted).toEqual([false, true]);
+    expect(explainSVD([[0, 0], [0, 0]]).uCompleted).toEqual([true, true]);
+  });
+});
+
+describe('orthogonal factors', () => {
+  it('round-trips rotations and reflections through angle + mirror flag', () => {
+    for (const angle of [-3, -1, 0, 0.5, 2, Math.PI]) {
+      for (const reflect of [false, true]) {
+        const q = fromAngle(angle, reflect);
+        expect(determinant(q)).toBeCloseTo(reflect ? -1 : 1, 14);
+        expect(maxAbsDiff(fromOrthogonalFactor(toOrthogonalFactor(q)), q)).toBeLessThan(TOL);
+      }
+    }
+  });
+});
+
+describe('eigenDecompose', () => {
+  it('rebuilds A = P Λ P^-1 with unit eigenvectors', () => {
+    const a: Matrix2x2 = [[2, 1], [0.5, -1]];
+    const eigen = eigenDecompose(a);
+    if (eigen.kind !== 'real') throw new Error(`expected real, got ${eigen.kind}`);
+    const [l1, l2] = eigen.values;
+    expect(l1).toBeGreaterThan(l2);
+    const rebuilt = multiplyN(multiplyN(eigen.p, [[l1, 0], [0, l2]]), eigen.pInv);
+    expect(maxAbsDiff(rebuilt, a)).toBeLessThan(TOL * 10);
+    [0, 1].forEach(i => expect(Math.hypot(eigen.p[0][i], eigen.p[1][i])).toBeCloseTo(1, 14));
+    expect(eigen.orthogonal).toBe(false);
+  });
+
+  it('finds an orthogonal P for symmetric A', () => {
+    const eigen = eigenDecompose([[1.5, 0.5], [0.5, 1.5]]);
+    expect(eigen.kind === 'real' && eigen.orthogonal).toBe(true);
+  });
+
+  it('reports complex eigenvalues for rotations', () => {
+    const eigen = eigenDecompose(fromAngle(Math.PI / 3));
+    expect(eigen.kind).toBe('complex');
+    if (eigen.kind === 'complex') {
+      expect(eigen.real).toBeCloseTo(0.5, 14);
+      expect(eigen.imag).toBeCloseTo(Math.sqrt(3) / 2, 14);
+    }
+  });
+
+  it('tells shears apart from multiples of the identity', () => {
+    expect(eigenDecompose([[1, 1], [0, 1]])).toEqual({ kind: 'defective', value: 1 });
+    const scalar = eigenDecompose([[3, 0], [0, 3]]);
+    expect(scalar.kind === 'real' && scalar.values).toEqual([3, 3]);
+  });
+});
+
+describe('polarDecompose', () => {
+  it('splits A into an orthogonal Q and symmetric PSD stretches', () => {
+    for (const a of [[[2, 1], [0.5, -1]], [[1, 2], [3, 4]], [[1, 1], [1, 1]]] as Matrix2x2[]) {
+      const { q, s, sLeft } = polarDecompose(computeSVD(a));
+      expect(maxAbsDiff(multiplyN(q, s), a)).toBeLessThan(TOL * 10);
+      expect(maxAbsDiff(multiplyN(sLeft, q), a)).toBeLessThan(TOL * 10);
+      expect(maxAbsDiff(multiplyN(transposeN(q), q), identityN(2))).toBeLessThan(TOL);
+      expect(Math.sign(determinant(q))).toBe(Math.sign(determinant(a)) || 1);
+      for (const stretch of [s, sLeft]) {
+        expect(stretch[0][1]).toBeCloseTo(stretch[1][0], 14);
+        expect(stretch[0][0]).toBeGreaterThanOrEqual(0);
+        expect(determinant(stretch)).toBeGreaterThanOrEqual(-TOL);
+      }
+    }
+  });
+});
+
+describe('inverse', () => {
+  it('inverts regular matrices and rejects singular ones', () => {
+    const a: Matrix2x2 = [[1, 2], [3, 4]];
+    expect(maxAbsDiff(multiplyN(a, inverse(a)!), identityN(2))).toBeLessThan(TOL);
+    expect(inverse([[1, 2], [2, 4]])).toBeNull();
+  });
+});
+
+describe('pseudoInverse', () => {
+  it('matches the inverse for regular matrices', () => {
+    const a: Matrix2x2 = [[1, 2], [3, 4]];
+    expect(maxAbsDiff(pseudoInverse(computeSVD(a)), inverse(a)!)).toBeLessThan(TOL * 10);
+  });
+
+  it('satisfies the Moore–Penrose conditions for singular matrices', () => {
+    const a: Matrix2x2 = [[1, 2], [0.5, 1]];
+    const plus = pseudoInverse(computeSVD(a));
+    expect(maxAbsDiff(multiplyN(multiplyN(a, plus), a), a)).toBeLessThan(TOL * 10);
+    expect(maxAbsDiff(multiplyN(multiplyN(plus, a), plus), plus)).toBeLessThan(TOL * 10);
+    // A A⁺ and A⁺ A are symmetric projections
+    for (const p of [multiplyN(a, plus), multiplyN(plus, a)]) {
+      expect(p[0][1]).toBeCloseTo(p[1][0], 14);
+    }
+    expect(pseudoInverse(computeSVD([[0, 0], [0, 0]]))).toEqual([[0, 0], [0, 0]]);
+  });
+});
+
+describe('computeSVDContinuous', () => {
+  const distance = (a: SVDResult, b: SVDResult) => Math.max(maxAbsDiff(a.u, b.u), maxAbsDiff(a.vt, b.vt));
+
+  // Walks A(t) in small steps, feeding each result into the next call
+  const walk = (path: (t: number) => Matrix2x2, steps = 200) => {
+    let prev = computeSVD(path(0));
+    let largestJump = 0;
+    for (let i = 1; i <= steps; i++) {
+      const a = path(i / steps);
+      const next = computeSVDContinuous(a, prev);
+      expect(maxAbsDiff(reconstructMatrix(next.u, next.s, next.vt), a)).toBeLessThan(1e-9);
+      expect(determinant(next.vt)).toBeCloseTo(1, 12);
+      largestJump = Math.max(largestJump, distance(next, prev));
+      prev = next;
+    }
+    return largestJump;
+  };
+
+  it('lets σ₁ and σ₂ trade places instead of turning U and V by 90°', () => {
+    const path = (t: number): Matrix2x2 => [[0.5 + t, 0], [0, 1.5 - t]];
+    // computeSVD alone jumps where the diagonal entries cross
+    const jumps = Array.from({ length: 200 }, (_, i) =>
+      maxAbsDiff(computeSVD(path(i / 200)).u, computeSVD(path((i + 1) / 200)).u));
+    expect(Math.max(...jumps)).toBeGreaterThan(0.5);
+    expect(walk(path)).toBeLessThan(0.1);
+  });
+
+  it('follows a rotation all the way round', () => {
+    const path = (t: number): Matrix2x2 => multiplyN(fromAngle(2 * Math.PI * t), [[2, 0], [0, 1]]) as Matrix2x2;
+    expect(walk(path)).toBeLessThan(0.1);
+  });
+
+  it('keeps the previous vectors where they are free', () => {
+    const prev = computeSVD([[1.5, 0.5], [0.5, 1.5]]);
+    // σ₁ = σ₂: V stays, U follows from A V = σ U
+    const scaled = computeSVDContinuous([[3, 0], [0, 3]], prev);
+    expect(scaled.vt).toEqual(prev.vt);
+    expect(maxAbsDiff(scaled.u, prev.v)).toBeLessThan(TOL);
+    // A = 0: nothing moves
+    expect(computeSVDContinuous([[0, 0], [0, 0]], prev)).toEqual({ ...prev, s: [0, 0] });
+    // σ₂ = 0: u₂'s sign follows the previous U, so U needn't mirror
+    const rankOne = computeSVDContinuous([[1, 0], [0, 0]], computeSVD([[1, 0], [0, 0.5]]));
+    expect(determinant(rankOne.u)).toBeCloseTo(1, 12);
+  });
+
+  it('flags degenerate singular values', () => {
+    expect(svdDegeneracy([2, 1])).toEqual({ zero: false, repeated: false, rankDeficient: false, gap: 0.5 });
+    expect(svdDegeneracy([3, 3]).repeated).toBe(true);
+    expect(svdDegeneracy([0, 4]).rankDeficient).toBe(true);
+    expect(svdDegeneracy([0, 0]).zero).toBe(true);
+  });
+});
+
+describe('computeSVDN', () => {
+  it('agrees with the 2x2 singular values', () => {
+    const a: Matrix2x2 = [[2, 1], [3, -4]];
+    const s2 = computeSVD(a).s;
+    const sn = computeSVDN(a).s;
+    expect(sn[0]).toBeCloseTo(s2[0], 12);
+    expect(sn[1]).toBeCloseTo(s2[1], 12);
+  });
+
+  it('gives the same 2x2 factors as computeSVD, signs included (property)', () => {
+    // With σ₁ = σ₂ any rotation of the singular vectors is valid, so only
+    // distinct singular values pin the factors down. With σ₂ = 0, u₂'s sign
+    // is free too (the closed form takes it from the rounding of Q - R).
+    const columnDiff = (x: Matrix, y: Matrix, j: number) => Math.max(Math.abs(x[0][j] - y[0][j]), Math.abs(x[1][j] - y[1][j]));
+    // Entries on a 0.001 grid: at magnitudes like 1e-158 the Jacobi engine,
+    // which doesn't rescale, loses the tiny entry that decides which side of
+    // the ±90° boundary V's angle falls on
+    const entry = fc.integer({ min: -10000, max: 10000 }).map(k => k / 1000);
+    fc.assert(
+      fc.property(entry, entry, entry, entry, (a, b, c, d) => {
+        const m: Matrix2x2 = [[a, b], [c, d]];
+        const closed = computeSVD(m);
+        fc.pre(closed.s[0] - closed.s[1] > 1e-3 * Math.max(1, closed.s[0]));
+        const jacobi = computeSVDN(m);
+        expect(columnDiff(jacobi.u, closed.u, 0)).toBeLessThan(1e-9);
+        if (closed.s[1] > 1e-9 * closed.s[0]) expect(columnDiff(jacobi.u, closed.u, 1)).toBeLessThan(1e-9);
+        expect(maxAbsDiff(jacobi.vt, closed.vt)).toBeLessThan(1e-9);
+        expect(Math.abs(jacobi.s[0] - closed.s[0])).toBeLessThan(1e-9 * Math.max(1, closed.s[0]));
+        expect(Math.abs(jacobi.s[1] - closed.s[1])).toBeLessThan(1e-9 * Math.max(1, closed.s[0]));
+      }),
+      { numRuns: 1000 }
+    );
+    // Rank 1, a reflection and V's angle at the edges of (-90°, 90°]
+    ([[[1, 2], [2, 4]], [[0, 1], [3, 0]], [[0, 3], [1, 0]], [[1, -3], [0.5, 0]], [[2, 0], [0, -1]]] as Matrix2x2[]).forEach(m => {
+      const closed = computeSVD(m);
+      const jacobi = computeSVDN(m);
+      expect(maxAbsDiff(jacobi.u, closed.u)).toBeLessThan(1e-12);
+      expect(maxAbsDiff(jacobi.vt, closed.vt)).toBeLessThan(1e-12);
+    });
+  });
+
+  it('handles random 3x3 matrices', () => {
+    const random = mulberry32(3);
+    for (let i = 0; i < 200; i++) {
+      const a = Array.from({ length: 3 }, () => Array.from({ length: 3 }, () => random() * 10 - 5));
+      expectValidSVD(a, computeSVDN(a));
+    }
+  });
+
+  it('handles rank-deficient and zero 3x3 matrices', () => {
+    const singular = [[1, 2, 3], [4, 5, 6], [7, 8, 9]];
+    const { s } = computeSVDN(singular);
+    expect(s[2]).toBeLessThan(1e-12);
+    expectValidSVD(singular, computeSVDN(singular));
+    expectValidSVD([[0, 0, 0], [0, 0, 0], [0, 0, 0]], computeSVDN([[0, 0, 0], [0, 0, 0], [0, 0, 0]]));
+  });
+
+  it('puts the reflection into U for negative determinants', () => {
+    const a = [[1, 0, 0], [0, 1, 0], [0, 0, -2]];
+    const { u, vt } = computeSVDN(a);
+    expect(determinantN(u)).toBeCloseTo(-1, 12);
+    expect(determinantN(vt)).toBeCloseTo(1, 12);
+  });
+
+  it('returns the thin decomposition of rectangular matrices', () => {
+    const random = mulberry32(11);
+    for (const [m, n] of [[5, 3], [3, 5], [8, 1], [1, 4]]) {
+      const a = Array.from({ length: m }, () => Array.from({ length: n }, () => random() * 4 - 2));
+      const { u, s, vt } = computeSVDN(a);
+      const r = Math.min(m, n);
+      expect(u.length).toBe(m);
+      expect(u[0].length).toBe(r);
+      expect(vt.length).toBe(r);
+      expect(vt[0].length).toBe(n);
+      expect(maxAbsDiff(reconstructMatrixN(u, s, vt), a)).toBeLessThan(1e-12);
+      expect(maxAbsDiff(multiplyN(transposeN(u), u), identityN(r))).toBeLessThan(1e-12);
+      expect(maxAbsDiff(multiplyN(vt, transposeN(vt)), identityN(r))).toBeLessThan(1e-12);
+    }
+  });
+
+  it('truncates to the best rank-k approximation', () => {
+    const a = [[4, 0, 0], [0, 2, 0], [0, 0, 1], [0, 0, 0]];
+    const svd = computeSVDN(a);
+    expect(maxAbsDiff(truncateSVDN(svd, 1), [[4, 0, 0], [0, 0, 0], [0, 0, 0], [0, 0, 0]])).toBeLessThan(1e-12);
+    expect(maxAbsDiff(truncateSVDN(svd, 3), a)).toBeLessThan(1e-12);
+  });
+});
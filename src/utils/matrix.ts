@@ -2,6 +2,9 @@ import * as math from 'mathjs';
 
 export type Matrix2x2 = [[number, number], [number, number]];
 
+// Sign convention: V (and so V^T) is always a proper rotation whose angle lies
+// in (-90°, 90°]. Any reflection needed to reproduce A is carried by U, which
+// has det(U) = -1 exactly when det(A) < 0.
 export interface SVDResult {
   u: Matrix2x2;
   s: [number, number];
@@ -9,92 +12,110 @@ export interface SVDResult {
   vt: Matrix2x2; // This is V^T
 }
 
+// A 2x2 orthogonal matrix written as R(angle) * F^reflect, where F mirrors
+// across the x-axis. The mirror is applied first, then the rotation.
+export interface OrthogonalFactor {
+  angle: number;
+  reflect: boolean;
+}
+
+export const IDENTITY: Matrix2x2 = [[1, 0], [0, 1]];
+export const MIRROR_X: Matrix2x2 = [[1, 0], [0, -1]];
+
+export function determinant(matrix: Matrix2x2): number {
+  return matrix[0][0] * matrix[1][1] - matrix[0][1] * matrix[1][0];
+}
+
+export function multiply(a: Matrix2x2, b: Matrix2x2): Matrix2x2 {
+  return [
+    [a[0][0] * b[0][0] + a[0][1] * b[1][0], a[0][0] * b[0][1] + a[0][1] * b[1][1]],
+    [a[1][0] * b[0][0] + a[1][1] * b[1][0], a[1][0] * b[0][1] + a[1][1] * b[1][1]]
+  ];
+}
+
 export function getAngle(matrix: Matrix2x2): number {
-  // Assuming it's a rotation matrix [[cos, -sin], [sin, cos]]
-  // angle = atan2(sin, cos) = atan2(m[1][0], m[0][0])
+  // Both [[cos, -sin], [sin, cos]] and its mirrored form [[cos, sin], [sin, -cos]]
+  // share the first column, so angle = atan2(m[1][0], m[0][0]) for either.
   return Math.atan2(matrix[1][0], matrix[0][0]);
 }
 
-export function fromAngle(angle: number): Matrix2x2 {
+export function isReflection(matrix: Matrix2x2): boolean {
+  return determinant(matrix) < 0;
+}
+
+export function fromAngle(angle: number, reflect = false): Matrix2x2 {
   const c = Math.cos(angle);
   const s = Math.sin(angle);
-  return [[c, -s], [s, c]];
+  return reflect ? [[c, s], [s, -c]] : [[c, -s], [s, c]];
 }
 
-export function computeSVD(matrix: Matrix2x2): SVDResult {
-  const a = matrix[0][0];
-  const b = matrix[0][1];
-  const c = matrix[1][0];
-  const d = matrix[1][1];
+export function toOrthogonalFactor(matrix: Matrix2x2): OrthogonalFactor {
+  return { angle: getAngle(matrix), reflect: isReflection(matrix) };
+}
 
-  // Compute A^T * A
-  const e = a * a + c * c;
-  const f = a * b + c * d;
-  const g = b * b + d * d;
+export function fromOrthogonalFactor(factor: OrthogonalFactor): Matrix2x2 {
+  return fromAngle(factor.angle, factor.reflect);
+}
 
-  // Eigenvalues of A^T * A
-  // lambda^2 - (e+g)lambda + (eg - f^2) = 0
-  const disc = Math.sqrt((e - g) * (e - g) + 4 * f * f);
-  const lambda1 = (e + g + disc) / 2;
-  const lambda2 = (e + g - disc) / 2;
-
-  const s1 = Math.sqrt(lambda1);
-  const s2 = Math.sqrt(lambda2);
-
-  // Eigenvectors of A^T * A for V
-  let v1: [number, number], v2: [number, number];
-  if (Math.abs(f) < 1e-10) {
-    if (e >= g) {
-      v1 = [1, 0];
-      v2 = [0, 1];
-    } else {
-      v1 = [0, 1];
-      v2 = [-1, 0];
-    }
-  } else {
-    v1 = [f, lambda1 - e];
-    const norm1 = Math.sqrt(v1[0] * v1[0] + v1[1] * v1[1]);
-    v1 = [v1[0] / norm1, v1[1] / norm1];
-    v2 = [-v1[1], v1[0]];
+// Multiplies by 2^k exactly, in steps so that 2^k itself can't overflow
+const scaleByPowerOf2 = (x: number, k: number) => {
+  let result = x;
+  let remaining = k;
+  while (remaining !== 0) {
+    const step = Math.max(-1000, Math.min(1000, remaining));
+    result *= 2 ** step;
+    remaining -= step;
   }
+  return result;
+};
 
-  // U = A * V * S^-1
-  let u1: [number, number] = [0, 0];
-  let u2: [number, number] = [0, 0];
-
-  if (s1 > 1e-9) {
-    u1 = [
-      (a * v1[0] + b * v1[1]) / s1,
-      (c * v1[0] + d * v1[1]) / s1
-    ];
-  } else {
-    u1 = [1, 0];
-  }
+// Closed-form 2x2 SVD that never forms A^T A. Any 2x2 matrix splits into a
+// similarity part [[E, -H], [H, E]] plus an anti-similarity part [[F, G], [G, -F]];
+// their magnitudes Q and R give the singular values directly, and their
+// angles give the two rotations:
+//   A = R(phi) * diag(Q + R, Q - R) * R(theta)
+// Only hypot and atan2 are involved, so there are no thresholds and no square
+// roots of cancelled differences. The matrix is first scaled by a power of two
+// (which is exact) so huge entries can't overflow and subnormal ones keep
+// their precision.
+export function computeSVD(matrix: Matrix2x2): SVDResult {
+  const largest = Math.max(...matrix.flat().map(Math.abs));
+  const exponent = largest > 0 ? Math.floor(Math.log2(largest)) : 0;
+  const [[a, b], [c, d]] = matrix.map(row => row.map(val => scaleByPowerOf2(val, -exponent)));
 
-  if (s2 > 1e-9) {
-    u2 = [
-      (a * v2[0] + b * v2[1]) / s2,
-      (c * v2[0] + d * v2[1]) / s2
-    ];
-  } else {
-    // u2 must be orthogonal to u1
-    u2 = [-u1[1], u1[0]];
-  }
+  const E = (a + d) / 2;
+  const F = (a - d) / 2;
+  const G = (c + b) / 2;
+  const H = (c - b) / 2;
 
-  const u: Matrix2x2 = [
-    [u1[0], u2[0]],
-    [u1[1], u2[1]]
-  ];
+  const Q = Math.hypot(E, H);
+  const R = Math.hypot(F, G);
 
-  const v: Matrix2x2 = [
-    [v1[0], v2[0]],
-    [v1[1], v2[1]]
-  ];
+  // Undo the scaling. Q - R is negative exactly when det(A) < 0; that sign
+  // becomes a mirror in U
+  const s1 = scaleByPowerOf2(Q + R, exponent);
+  const sy = Q - R;
+  const s2 = scaleByPowerOf2(Math.abs(sy), exponent);
 
-  const vt: Matrix2x2 = [
-    [v1[0], v1[1]],
-    [v2[0], v2[1]]
-  ];
+  const a1 = Math.atan2(G, F);
+  const a2 = Math.atan2(H, E);
+  let theta = (a2 - a1) / 2; // Angle of V^T
+  let phi = (a2 + a1) / 2; // Angle of U
+
+  // Keep the V angle (-theta) in (-90°, 90°]; turning both V and U by 180°
+  // leaves U Σ V^T unchanged
+  if (-theta > Math.PI / 2) {
+    theta += Math.PI;
+    phi += Math.PI;
+  } else if (-theta <= -Math.PI / 2) {
+    theta -= Math.PI;
+    phi += Math.PI;
+  }
+  phi = Math.atan2(Math.sin(phi), Math.cos(phi));
+
+  const u = fromAngle(phi, sy < 0);
+  const vt = fromAngle(theta);
+  const v: Matrix2x2 = [[vt[0][0], vt[1][0]], [vt[0][1], vt[1][1]]];
 
   return { u, s: [s1, s2], v, vt };
 }
@@ -112,3 +133,477 @@ export function applyTransform(matrix: Matrix2x2, point: [number, number]): [num
     matrix[1][0] * point[0] + matrix[1][1] * point[1]
   ];
 }
+
+// Singular values below this fraction of σ1 are treated as exact zeros
+export const RANK_TOLERANCE = 1e-12;
+
+// --- Derived quantities ---
+
+export interface MatrixQuantities {
+  rank: number;
+  det: number; // ±σ1σ2, negative when exactly one factor is mirrored
+  condition: number; // σ1/σ2, Infinity when singular
+  spectralNorm: number; // σ1
+  frobeniusNorm: number; // sqrt(σ1² + σ2²)
+  nuclearNorm: number; // σ1 + σ2
+}
+
+export function matrixQuantities(svd: SVDResult): MatrixQuantities {
+  const [s1, s2] = svd.s;
+  const largest = Math.max(s1, s2);
+  const smallest = Math.min(s1, s2);
+  const sign = Math.sign(determinant(svd.u) * determinant(svd.vt)) || 1;
+  return {
+    rank: svd.s.filter(sigma => sigma > largest * RANK_TOLERANCE).length,
+    det: sign * s1 * s2,
+    condition: smallest > largest * RANK_TOLERANCE ? largest / smallest : Infinity,
+    spectralNorm: largest,
+    frobeniusNorm: Math.hypot(s1, s2),
+    nuclearNorm: s1 + s2
+  };
+}
+
+// Best rank-k approximation (Eckart–Young): keep the k largest singular
+// values and drop the rest. The error is σ_{k+1} in the spectral norm and
+// the root-sum-square of the dropped values in the Frobenius norm.
+export function truncateSVD(svd: SVDResult, k: number): { matrix: Matrix2x2; spectralError: number; frobeniusError: number } {
+  // Rank by magnitude, since Σ can be edited out of order
+  const order = svd.s[0] >= svd.s[1] ? [0, 1] : [1, 0];
+  const kept = [0, 0] as [number, number];
+  order.slice(0, k).forEach(i => { kept[i] = svd.s[i]; });
+  const dropped = order.slice(k).map(i => svd.s[i]);
+  return {
+    matrix: reconstructMatrix(svd.u, kept, svd.vt),
+    spectralError: dropped.length ? Math.max(...dropped) : 0,
+    frobeniusError: Math.hypot(...dropped)
+  };
+}
+
+// --- Continuity ---
+
+// Relative gap below which σ₁ and σ₂ count as equal. Looser than
+// RANK_TOLERANCE because equal singular values come out of hypot with
+// rounding noise rather than as an exact zero.
+export const REPEAT_TOLERANCE = 1e-9;
+// Relative gap under which the UI warns that U and V^T are sensitive
+export const NEAR_REPEAT = 0.05;
+
+// Where the SVD stops being unique. With σ₁ = σ₂ any rotated pair of
+// singular vectors works; with σ₂ = 0 the sign of u₂ is free; for A = 0
+// every U and V do.
+export interface Degeneracy {
+  zero: boolean;
+  repeated: boolean;
+  rankDeficient: boolean;
+  gap: number; // |σ₁ - σ₂| / max σ, 0 for a zero matrix
+}
+
+export function svdDegeneracy(s: [number, number]): Degeneracy {
+  const largest = Math.max(...s);
+  const smallest = Math.min(...s);
+  const zero = largest === 0;
+  const gap = zero ? 0 : (largest - smallest) / largest;
+  return {
+    zero,
+    repeated: !zero && gap <= REPEAT_TOLERANCE,
+    rankDeficient: !zero && smallest <= largest * RANK_TOLERANCE,
+    gap
+  };
+}
+
+const squaredDistance = (a: Matrix2x2, b: Matrix2x2) =>
+  a.flat().reduce((sum, val, i) => sum + (val - b.flat()[i]) ** 2, 0);
+
+// computeSVD picks its singular vectors from scratch, so a small change to A
+// can turn U and V^T by 180° (a sign pair) or 90° (σ₁ and σ₂ trading places).
+// This returns the equivalent factorization nearest to previous instead:
+// V^T stays a proper rotation, but Σ may come out in either order.
+export function computeSVDContinuous(matrix: Matrix2x2, previous: SVDResult): SVDResult {
+  const base = computeSVD(matrix);
+  const degeneracy = svdDegeneracy(base.s);
+
+  // Every U and V work, so nothing needs to move
+  if (degeneracy.zero) return { ...previous, s: [0, 0] };
+
+  // A = σW with W orthogonal: keep V and solve A V = σ U for U
+  if (degeneracy.repeated) {
+    const sigma = (base.s[0] + base.s[1]) / 2;
+    const av = multiply(matrix, previous.v);
+    const u = av.map(row => row.map(val => val / sigma)) as Matrix2x2;
+    return { u, s: [sigma, sigma], v: previous.v, vt: previous.vt };
+  }
+
+  // Turning both U and V by k·90° keeps U Σ V^T when odd k also swaps Σ
+  const candidates: SVDResult[] = [0, 1, 2, 3].flatMap(k => {
+    const turn = fromAngle((k * Math.PI) / 2);
+    const u = multiply(base.u, turn);
+    const vt = multiply(transpose(turn), base.vt);
+    const s: [number, number] = k % 2 ? [base.s[1], base.s[0]] : [base.s[0], base.s[1]];
+    const options = [{ u, s, v: transpose(vt), vt }];
+    // With σ = 0 in one slot, that column of U can change sign on its own
+    const zeroSlot = s.findIndex(sigma => sigma <= Math.max(...s) * RANK_TOLERANCE);
+    if (degeneracy.rankDeficient && zeroSlot >= 0) {
+      const flip: Matrix2x2 = zeroSlot === 0 ? [[-1, 0], [0, 1]] : [[1, 0], [0, -1]];
+      options.push({ u: multiply(u, flip), s, v: transpose(vt), vt });
+    }
+    return options;
+  });
+
+  const distance = (svd: SVDResult) => squaredDistance(svd.u, previous.u) + squaredDistance(svd.vt, previous.vt);
+  return candidates.reduce((best, svd) => (distance(svd) < distance(best) ? svd : best));
+}
+
+// --- Derivation trace ---
+
+// The textbook route to the SVD, with every intermediate number. computeSVD
+// itself takes a more stable path; the trace borrows its singular vectors so
+// the numbers shown match the factors on screen.
+export interface SVDDerivation {
+  a: Matrix2x2;
+  ata: Matrix2x2; // A^T A = [[e, f], [f, g]]
+  trace: number; // e + g
+  det: number; // eg - f^2
+  discriminant: number; // trace^2 - 4 det
+  lambda: [number, number];
+  // In the order of the factors explained, so σ_i goes with v_i and u_i
+  sigma: [number, number];
+  // Those factors list σ smallest first (continuity can leave them so)
+  swapped: boolean;
+  v: [[number, number], [number, number]];
+  u: [[number, number], [number, number]];
+  // u_i can't be Av_i / σ_i when σ_i = 0; it's completed to an orthonormal basis instead
+  uCompleted: [boolean, boolean];
+  // A was divided by 2^exponent before forming AᵀA, as in computeSVD. The
+  // values above are scaled back, so at extreme magnitudes AᵀA, λ and the
+  // coefficients can overflow or underflow even though σ doesn't.
+  exponent: number;
+}
+
+// Explains svd, the factors on screen, which may differ from computeSVD's
+// canonical pick in signs and order when continuity is on
+export function explainSVD(matrix: Matrix2x2, svd: SVDResult = computeSVD(matrix)): SVDDerivation {
+  // Same power-of-2 scaling as computeSVD, so squaring the entries can't
+  // overflow or underflow
+  const largest = Math.max(...matrix.flat().map(Math.abs));
+  const exponent = largest > 0 ? Math.floor(Math.log2(largest)) : 0;
+  const [[a, b], [c, d]] = matrix.map(row => row.map(val => scaleByPowerOf2(val, -exponent)));
+  const e = a * a + c * c;
+  const f = a * b + c * d;
+  const g = b * b + d * d;
+
+  const trace = e + g;
+  const det = e * g - f * f;
+  // Clamp: rounding can push the discriminant and the smaller root below zero
+  const discriminant = Math.max(0, trace * trace - 4 * det);
+  const lambda1 = (trace + Math.sqrt(discriminant)) / 2;
+  const lambda2 = Math.max(0, (trace - Math.sqrt(discriminant)) / 2);
+  // AᵀA and λ scale by 4^exponent, det and the discriminant by 16^exponent
+  const unscale = (val: number, power: number) => scaleByPowerOf2(val, power * exponent);
+
+  const swapped = svd.s[0] < svd.s[1];
+  const v: [[number, number], [number, number]] = [
+    [svd.v[0][0], svd.v[1][0]],
+    [svd.v[0][1], svd.v[1][1]]
+  ];
+  const u: [[number, number], [number, number]] = [
+    [svd.u[0][0], svd.u[1][0]],
+    [svd.u[0][1], svd.u[1][1]]
+  ];
+  const isZero = (sigma: number) => sigma <= Math.max(...svd.s) * RANK_TOLERANCE;
+  const sigma: [number, number] = [unscale(Math.sqrt(lambda1), 1), unscale(Math.sqrt(lambda2), 1)];
+
+  return {
+    a: matrix,
+    ata: [[unscale(e, 2), unscale(f, 2)], [unscale(f, 2), unscale(g, 2)]],
+    trace: unscale(trace, 2),
+    det: unscale(det, 4),
+    discriminant: unscale(discriminant, 4),
+    lambda: [unscale(lambda1, 2), unscale(lambda2, 2)],
+    sigma: swapped ? [sigma[1], sigma[0]] : sigma,
+    swapped,
+    v,
+    u,
+    uCompleted: [isZero(svd.s[0]), isZero(svd.s[1])],
+    exponent
+  };
+}
+
+// --- Other decompositions ---
+
+export const transpose = ([[a, b], [c, d]]: Matrix2x2): Matrix2x2 => [[a, c], [b, d]];
+
+// null when A is singular to working precision
+export function inverse(matrix: Matrix2x2): Matrix2x2 | null {
+  const [[a, b], [c, d]] = matrix;
+  const det = determinant(matrix);
+  const scale = Math.max(Math.abs(a), Math.abs(b), Math.abs(c), Math.abs(d));
+  if (!(Math.abs(det) > scale * scale * RANK_TOLERANCE)) return null;
+  return [[d / det, -b / det], [-c / det, a / det]];
+}
+
+// Moore–Penrose pseudo-inverse A⁺ = V Σ⁺ Uᵀ, where Σ⁺ inverts the nonzero σ
+// and keeps the zeros. Read as an SVD it has U and V swapped, so its
+// pipeline runs the original one backwards. Equals A^-1 when that exists.
+export function pseudoInverseSVD(svd: SVDResult): SVDResult {
+  const largest = Math.max(...svd.s);
+  const sPlus = svd.s.map(sigma => (sigma > largest * RANK_TOLERANCE ? 1 / sigma : 0)) as [number, number];
+  return { u: svd.v, s: sPlus, v: svd.u, vt: transpose(svd.u) };
+}
+
+export function pseudoInverse(svd: SVDResult): Matrix2x2 {
+  const plus = pseudoInverseSVD(svd);
+  return reconstructMatrix(plus.u, plus.s, plus.vt);
+}
+
+// A = P Λ P^-1 when A has two independent real eigenvectors. Unlike the
+// SVD, P is only orthogonal when A is symmetric (or close to it), and a real
+// 2x2 can fail to have one at all: complex eigenvalues (A turns every
+// direction) or a repeated eigenvalue with a single eigenvector (a shear).
+export type EigenDecomposition =
+  | { kind: 'real'; values: [number, number]; p: Matrix2x2; pInv: Matrix2x2; orthogonal: boolean }
+  | { kind: 'complex'; real: number; imag: number }
+  | { kind: 'defective'; value: number };
+
+// Relative separation below which two eigenvalues count as repeated
+const EIGEN_TOLERANCE = 1e-9;
+
+export function eigenDecompose(matrix: Matrix2x2): EigenDecomposition {
+  const [[a, b], [c, d]] = matrix;
+  const scale = Math.max(Math.abs(a), Math.abs(b), Math.abs(c), Math.abs(d));
+  const mean = (a + d) / 2;
+  // λ = mean ± sqrt(disc); this form avoids the cancellation in tr²/4 - det
+  const disc = ((a - d) / 2) ** 2 + b * c;
+  const tol = (scale * EIGEN_TOLERANCE) ** 2;
+
+  if (disc < -tol) return { kind: 'complex', real: mean, imag: Math.sqrt(-disc) };
+  if (disc <= tol) {
+    // A repeated eigenvalue only has a full eigenbasis when A = λI
+    const isScalar = Math.max(Math.abs(b), Math.abs(c), Math.abs(a - d)) <= scale * EIGEN_TOLERANCE;
+    return isScalar
+      ? { kind: 'real', values: [mean, mean], p: IDENTITY, pInv: IDENTITY, orthogonal: true }
+      : { kind: 'defective', value: mean };
+  }
+
+  const root = Math.sqrt(disc);
+  const values: [number, number] = [mean + root, mean - root];
+  // Null vector of A - λI from whichever row of it is better conditioned
+  const [p1, p2] = values.map(lambda => {
+    const fromTop: [number, number] = [b, lambda - a];
+    const fromBottom: [number, number] = [lambda - d, c];
+    const [x, y] = Math.hypot(...fromTop) >= Math.hypot(...fromBottom) ? fromTop : fromBottom;
+    const norm = Math.hypot(x, y);
+    // Fix the sign so the first nonzero component is positive
+    const sign = x > 0 || (x === 0 && y > 0) ? 1 : -1;
+    return [sign * x / norm, sign * y / norm];
+  });
+  const p: Matrix2x2 = [[p1[0], p2[0]], [p1[1], p2[1]]];
+  const pInv = inverse(p);
+  // Eigenvectors too close to parallel to invert are no better than one
+  if (!pInv) return { kind: 'defective', value: mean };
+  return {
+    kind: 'real',
+    values,
+    p,
+    pInv,
+    orthogonal: Math.abs(p1[0] * p2[0] + p1[1] * p2[1]) <= EIGEN_TOLERANCE
+  };
+}
+
+// A = Q S with Q = U V^T orthogonal and S = V Σ V^T symmetric positive
+// semidefinite: S stretches along the v_i without turning them, then Q turns
+// (and mirrors, when det A < 0). The left form A = S' Q has S' = U Σ U^T.
+export interface PolarDecomposition {
+  q: Matrix2x2;
+  s: Matrix2x2;
+  sLeft: Matrix2x2;
+}
+
+export function polarDecompose(svd: SVDResult): PolarDecomposition {
+  const sigma: Matrix2x2 = [[svd.s[0], 0], [0, svd.s[1]]];
+  return {
+    q: multiply(svd.u, svd.vt),
+    s: multiply(multiply(transpose(svd.vt), sigma), svd.vt),
+    sLeft: multiply(multiply(svd.u, sigma), transpose(svd.u))
+  };
+}
+
+// --- n-dimensional engine ---
+
+export type Matrix = number[][];
+
+export interface SVDResultN {
+  u: Matrix;
+  s: number[];
+  v: Matrix; // This is V, not V^T
+  vt: Matrix; // This is V^T
+}
+
+export function identityN(n: number): Matrix {
+  return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+}
+
+export function diagN(values: number[]): Matrix {
+  return values.map((val, i) => values.map((_, j) => (i === j ? val : 0)));
+}
+
+export function transposeN(matrix: Matrix): Matrix {
+  if (matrix.length === 0) return [];
+  return matrix[0].map((_, j) => matrix.map(row => row[j]));
+}
+
+export function multiplyN(a: Matrix, b: Matrix): Matrix {
+  return a.map(row =>
+    b[0].map((_, j) => row.reduce((sum, val, k) => sum + val * b[k][j], 0))
+  );
+}
+
+export function determinantN(matrix: Matrix): number {
+  // Gaussian elimination with partial pivoting
+  const m = matrix.map(row => [...row]);
+  const n = m.length;
+  let det = 1;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (m[pivot][col] === 0) return 0;
+    if (pivot !== col) {
+      [m[pivot], m[col]] = [m[col], m[pivot]];
+      det = -det;
+    }
+    det *= m[col][col];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k < n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  return det;
+}
+
+export function reconstructMatrixN(u: Matrix, s: number[], vt: Matrix): Matrix {
+  return multiplyN(multiplyN(u, diagN(s)), vt);
+}
+
+export function applyTransformN(matrix: Matrix, point: number[]): number[] {
+  return matrix.map(row => row.reduce((sum, val, k) => sum + val * point[k], 0));
+}
+
+// Extends a set of orthonormal vectors in R^dim to `count` of them, trying
+// the standard basis vectors in order (Gram-Schmidt).
+function completeBasis(columns: number[][], dim: number, count = dim): number[][] {
+  const basis = [...columns];
+  for (let k = 0; k < dim && basis.length < count; k++) {
+    const candidate = Array.from({ length: dim }, (_, i) => (i === k ? 1 : 0));
+    // Twice, for numerical orthogonality
+    for (let pass = 0; pass < 2; pass++) {
+      for (const b of basis) {
+        const dot = b.reduce((sum, val, i) => sum + val * candidate[i], 0);
+        for (let i = 0; i < dim; i++) candidate[i] -= dot * b[i];
+      }
+    }
+    const norm = Math.hypot(...candidate);
+    if (norm > 1e-6) basis.push(candidate.map(val => val / norm));
+  }
+  return basis;
+}
+
+// One-sided Jacobi SVD for any m x n matrix. Returns the thin decomposition:
+// with r = min(m, n), U is m x r, s has r entries and V is n x r. For square
+// matrices the sign convention matches computeSVD: V is a proper rotation and
+// U carries any reflection.
+export function computeSVDN(matrix: Matrix): SVDResultN {
+  const m = matrix.length;
+  const n = m > 0 ? matrix[0].length : 0;
+  // Jacobi orthogonalises columns, so work on whichever side is narrower
+  if (m < n) {
+    const { u, s, v } = computeSVDN(transposeN(matrix));
+    return { u: v, s, v: u, vt: transposeN(u) };
+  }
+
+  // cols[j] is column j of A * V, vCols[j] is column j of V
+  const cols = transposeN(matrix).map(col => Float64Array.from(col));
+  const vCols = identityN(n).map(col => Float64Array.from(col));
+  const eps = 1e-15;
+
+  for (let sweep = 0; sweep < 60; sweep++) {
+    let rotated = false;
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const cp = cols[p], cq = cols[q];
+        let alpha = 0, beta = 0, gamma = 0;
+        for (let i = 0; i < m; i++) {
+          alpha += cp[i] * cp[i];
+          beta += cq[i] * cq[i];
+          gamma += cp[i] * cq[i];
+        }
+        if (gamma === 0 || Math.abs(gamma) <= eps * Math.sqrt(alpha * beta)) continue;
+        rotated = true;
+        const zeta = (beta - alpha) / (2 * gamma);
+        const t = (zeta >= 0 ? 1 : -1) / (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+        const c = 1 / Math.sqrt(1 + t * t);
+        const s = c * t;
+        for (let i = 0; i < m; i++) {
+          const ap = cp[i], aq = cq[i];
+          cp[i] = c * ap - s * aq;
+          cq[i] = s * ap + c * aq;
+        }
+        const vp = vCols[p], vq = vCols[q];
+        for (let i = 0; i < n; i++) {
+          const xp = vp[i], xq = vq[i];
+          vp[i] = c * xp - s * xq;
+          vq[i] = s * xp + c * xq;
+        }
+      }
+    }
+    if (!rotated) break;
+  }
+
+  // Sort by descending singular value
+  const order = cols
+    .map((col, j) => ({ j, sigma: Math.hypot(...col) }))
+    .sort((x, y) => y.sigma - x.sigma);
+
+  const scale = order.length > 0 ? order[0].sigma : 0;
+  const s = order.map(({ sigma }) => sigma);
+  const vOut = order.map(({ j }) => Array.from(vCols[j]));
+  const uOut: number[][] = [];
+  order.forEach(({ j, sigma }) => {
+    if (sigma > scale * RANK_TOLERANCE && sigma > 0) uOut.push(Array.from(cols[j], val => val / sigma));
+  });
+  const rank = uOut.length;
+  const uFull = completeBasis(uOut, m, n);
+
+  // Canonical signs: make each v_j point "forward" (largest component
+  // positive). With two columns this is computeSVD's rule instead, V's angle
+  // in (-90°, 90°], so the 2×2 view and this engine give the same factors.
+  for (let j = 0; j < n; j++) {
+    const lead = n === 2
+      ? (vOut[j][0] !== 0 ? vOut[j][0] : vOut[j][1])
+      : vOut[j].reduce((best, val) => (Math.abs(val) > Math.abs(best) ? val : best), 0);
+    if (lead < 0) {
+      vOut[j] = vOut[j].map(val => -val);
+      uFull[j] = uFull[j].map(val => -val);
+    }
+  }
+
+  if (m === n && n > 0) {
+    // V must be a proper rotation: flip the last pair of singular vectors if not
+    if (determinantN(vOut) < 0) {
+      vOut[n - 1] = vOut[n - 1].map(val => -val);
+      uFull[n - 1] = uFull[n - 1].map(val => -val);
+    }
+    // With a zero singular value the reflection can be absorbed for free
+    if (rank < n && determinantN(uFull) < 0) {
+      uFull[n - 1] = uFull[n - 1].map(val => -val);
+    }
+  }
+
+  return { u: transposeN(uFull), s, v: transposeN(vOut), vt: vOut };
+}
+
+// A_k = sum of the first k rank-one terms σ_i u_i v_i^T
+export function truncateSVDN({ u, s, vt }: SVDResultN, k: number): Matrix {
+  const kept = s.map((sigma, i) => (i < k ? sigma : 0));
+  return multiplyN(multiplyN(u, diagN(kept)), vt);
+}
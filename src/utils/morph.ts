@@ -0,0 +1,94 @@
+import {
+  Matrix2x2,
+  SVDResult,
+  IDENTITY,
+  multiply,
+  toOrthogonalFactor
+} from './matrix';
+import { Point } from './shapes';
+
+export interface MorphPhase {
+  label: string;
+  color: string;
+  // Partial transform for this phase at progress p in [0, 1]
+  at: (p: number) => Matrix2x2;
+  // Affine phases: translation added after the matrix at progress p
+  offset?: (p: number) => Point;
+}
+
+const rotation = (angle: number): Matrix2x2 => {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  return [[c, -s], [s, c]];
+};
+
+// Squashes y from 1 to -1, so a mirror plays as a flip through the x-axis
+const partialMirror = (p: number): Matrix2x2 => [[1, 0], [0, 1 - 2 * p]];
+
+// Splits A = U Σ V^T into the phases the morph animation plays, in order.
+// Mirrored factors get their own phase before their rotation, matching the
+// static pipeline.
+export function morphPhases(svd: SVDResult): MorphPhase[] {
+  const factorU = toOrthogonalFactor(svd.u);
+  const factorVT = toOrthogonalFactor(svd.vt);
+  const sigma: Matrix2x2 = [[svd.s[0], 0], [0, svd.s[1]]];
+  const sigmaVT = multiply(sigma, svd.vt);
+  const mirroredVT = factorVT.reflect ? partialMirror(1) : IDENTITY;
+  const mirroredU = factorU.reflect ? partialMirror(1) : IDENTITY;
+
+  const phases: MorphPhase[] = [];
+  if (factorVT.reflect) {
+    phases.push({ label: "Mirror (Vᵀ)", color: "#ec4899", at: partialMirror });
+  }
+  phases.push({
+    label: factorVT.reflect ? "Rotate (Vᵀ)" : "Apply Vᵀ",
+    color: "#f59e0b",
+    at: p => multiply(rotation(p * factorVT.angle), mirroredVT)
+  });
+  phases.push({
+    label: "Apply Σ",
+    color: "#10b981",
+    at: p => multiply([[1 + (svd.s[0] - 1) * p, 0], [0, 1 + (svd.s[1] - 1) * p]], svd.vt)
+  });
+  if (factorU.reflect) {
+    phases.push({ label: "Mirror (U)", color: "#ec4899", at: p => multiply(partialMirror(p), sigmaVT) });
+  }
+  phases.push({
+    label: factorU.reflect ? "Rotate (U)" : "Apply U",
+    color: "#8b5cf6",
+    at: p => multiply(multiply(rotation(p * factorU.angle), mirroredU), sigmaVT)
+  });
+  return phases;
+}
+
+// Transform at timeline position t in [0, phases.length]
+export function morphMatrix(phases: MorphPhase[], t: number): Matrix2x2 {
+  if (t <= 0) return IDENTITY;
+  const index = Math.min(phases.length - 1, Math.floor(t));
+  return phases[index].at(Math.min(1, t - index));
+}
+
+export interface MorphFrame {
+  matrix: Matrix2x2;
+  translation?: Point;
+  label: string;
+  // Display time in milliseconds
+  delay: number;
+}
+
+// Fixed-rate frames for exporting the morph, with a pause before the first
+// phase and after the last so looping players don't jump straight back
+export function morphFrames(phases: MorphPhase[], phaseDuration: number, fps: number, hold = 0.6): MorphFrame[] {
+  const delay = 1000 / fps;
+  const perPhase = Math.max(1, Math.round(phaseDuration * fps));
+  const frames: MorphFrame[] = [{ matrix: IDENTITY, label: "Original", delay: hold * 1000 }];
+  phases.forEach((phase, i) => {
+    for (let f = 1; f <= perPhase; f++) {
+      const frame: MorphFrame = { matrix: morphMatrix(phases, i + f / perPhase), label: phase.label, delay };
+      if (phase.offset) frame.translation = phase.offset(f / perPhase);
+      frames.push(frame);
+    }
+  });
+  frames[frames.length - 1].delay = hold * 1000;
+  return frames;
+}
@@ -0,0 +1,51 @@
+import { SVDResult } from './matrix';
+import { Point } from './shapes';
+
+export interface OverlayOptions {
+  ellipse: boolean; // Unit circle mapped through the stage matrix
+  rightVectors: boolean; // v1, v2 and their images
+  leftVectors: boolean; // u1, u2 on the output side
+  determinant: boolean; // Image of the unit square as a signed area
+}
+
+export const DEFAULT_OVERLAYS: OverlayOptions = {
+  ellipse: true,
+  rightVectors: false,
+  leftVectors: false,
+  determinant: false,
+};
+
+export const OVERLAY_LABELS: Record<keyof OverlayOptions, string> = {
+  ellipse: "Ellipse",
+  rightVectors: "v₁ v₂",
+  leftVectors: "u₁ u₂",
+  determinant: "det",
+};
+
+export interface StageArrow {
+  vector: Point;
+  label: string;
+  color: string;
+  // Input-space arrows are pushed through the stage matrix; output-space
+  // arrows (the u_i) are drawn as given
+  transform: boolean;
+}
+
+export const RIGHT_VECTOR_COLOR = "#fb923c";
+export const LEFT_VECTOR_COLOR = "#c084fc";
+
+// v_i are the columns of V (rows of V^T), u_i the columns of U
+export function singularVectorArrows(svd: SVDResult, options: OverlayOptions, output: boolean): StageArrow[] {
+  const arrows: StageArrow[] = [];
+  if (options.rightVectors) {
+    svd.vt.forEach((row, i) => {
+      arrows.push({ vector: [row[0], row[1]], label: `v${i === 0 ? "₁" : "₂"}`, color: RIGHT_VECTOR_COLOR, transform: true });
+    });
+  }
+  if (options.leftVectors && output) {
+    [0, 1].forEach(i => {
+      arrows.push({ vector: [svd.u[0][i], svd.u[1][i]], label: `u${i === 0 ? "₁" : "₂"}`, color: LEFT_VECTOR_COLOR, transform: false });
+    });
+  }
+  return arrows;
+}
@@ -0,0 +1,10 @@
+import { describe, it, expect } from 'vitest';
+import { paint } from './palette';
+
+describe('palettes', () => {
+  it('swaps known colours and leaves the rest', () => {
+    expect(paint("#f59e0b", 'standard')).toBe("#f59e0b");
+    expect(paint("#F59E0B", 'colorblind')).toBe("#e69f00");
+    expect(paint("#123456", 'contrast')).toBe("#123456");
+  });
+});
@@ -0,0 +1,77 @@
+// Colour schemes for the stages. Colours are written in their standard form
+// throughout the app; a palette swaps each for its own when drawing.
+export type PaletteId = 'standard' | 'contrast' | 'colorblind';
+
+export const PALETTE_IDS: PaletteId[] = ['standard', 'contrast', 'colorblind'];
+
+export const PALETTE_LABELS: Record<PaletteId, string> = {
+  standard: "Standard",
+  contrast: "High contrast",
+  colorblind: "Colour-blind safe",
+};
+
+export const DEFAULT_PALETTE: PaletteId = 'standard';
+
+// Okabe & Ito's set, which stays distinct under every common colour vision
+// deficiency
+const OKABE_ITO = {
+  orange: "#e69f00",
+  sky: "#56b4e9",
+  green: "#009e73",
+  yellow: "#f0e442",
+  blue: "#0072b2",
+  vermillion: "#d55e00",
+  purple: "#cc79a7",
+};
+
+const PALETTES: Record<PaletteId, Record<string, string>> = {
+  standard: {},
+  contrast: {
+    "#f59e0b": "#ffd400", // Vᵀ, P⁻¹
+    "#10b981": "#00ff88", // Σ, Λ
+    "#8b5cf6": "#ff66ff", // U, P
+    "#ec4899": "#ff4040", // Mirrors
+    "#ef4444": "#ff4040", // e₁
+    "#22c55e": "#00ff88", // e₂
+    "#3b82f6": "#4dc3ff", // Plain stages
+    "#38bdf8": "#00ffff", // Eigenvectors
+    "#fb923c": "#ffd400", // v₁, v₂
+    "#c084fc": "#ff66ff", // u₁, u₂
+    "#06b6d4": "#00ffff", // Translation
+    "#34d399": "#00ff88", // Truncation
+    "#f472b6": "#ff66ff", // PC1
+    "#22d3ee": "#00ffff", // PC2
+    "#60a5fa": "#4dc3ff", // det > 0
+    "#f87171": "#ff4040", // det < 0
+    "#71717a": "#d4d4d8", // Identity
+    "#a1a1aa": "#f4f4f5",
+    "#e4e4e7": "#ffffff", // Ellipse
+    "#52525b": "#a1a1aa", // Labels
+    "#3f3f46": "#a1a1aa", // Axes
+    "#27272a": "#52525b", // Grid
+  },
+  colorblind: {
+    "#f59e0b": OKABE_ITO.orange,
+    "#10b981": OKABE_ITO.green,
+    "#8b5cf6": OKABE_ITO.purple,
+    "#ec4899": OKABE_ITO.vermillion,
+    "#ef4444": OKABE_ITO.vermillion,
+    "#22c55e": OKABE_ITO.sky,
+    "#3b82f6": OKABE_ITO.sky,
+    "#38bdf8": OKABE_ITO.yellow,
+    "#fb923c": OKABE_ITO.orange,
+    "#c084fc": OKABE_ITO.purple,
+    "#06b6d4": OKABE_ITO.yellow,
+    "#34d399": OKABE_ITO.green,
+    "#f472b6": OKABE_ITO.purple,
+    "#22d3ee": OKABE_ITO.sky,
+    "#60a5fa": OKABE_ITO.sky,
+    "#f87171": OKABE_ITO.vermillion,
+  },
+};
+
+export function paint(color: string, palette: PaletteId): string {
+  return PALETTES[palette][color.toLowerCase()] ?? color;
+}
+
+export const isPalette = (val: unknown): val is PaletteId => PALETTE_IDS.includes(val as PaletteId);
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { applyTransform, fromAngle, multiply, transpose } from './matrix';
+import { Point } from './shapes';
+import { PcaError, cloudCovariance, fitPca, gaussianCloud, principalAxis, projectOntoPc1, whiteningMatrix } from './pca';
+import { whiteningPipeline } from './pipelines';
+
+// A rectangle's corners and edge midpoints, stretched 3:1 and turned by 0.5 rad
+const TURN = fromAngle(0.5);
+const CLOUD: Point[] = ([[3, 1], [-3, 1], [3, -1], [-3, -1], [0, 1], [0, -1], [3, 0], [-3, 0]] as Point[])
+  .map(p => applyTransform(TURN, p))
+  .map(([x, y]) => [x + 2, y - 1]);
+
+describe('fitPca', () => {
+  it('finds the mean, the axes and the variance along each', () => {
+    const pca = fitPca(CLOUD);
+    expect(pca.mean[0]).toBeCloseTo(2, 12);
+    expect(pca.mean[1]).toBeCloseTo(-1, 12);
+    const [ux, uy] = principalAxis(pca, 0);
+    // Up to sign, PC1 is the long side
+    expect(Math.abs(ux * TURN[0][0] + uy * TURN[1][0])).toBeCloseTo(1, 12);
+    expect(pca.variance[0]).toBeCloseTo(54 / 7, 12);
+    expect(pca.variance[1]).toBeCloseTo(6 / 7, 12);
+    expect(pca.explained[0] + pca.explained[1]).toBeCloseTo(1, 14);
+    // σᵢ² = (n - 1)λᵢ
+    expect(pca.singularValues[0] ** 2).toBeCloseTo(54, 10);
+  });
+
+  it('needs two points', () => {
+    expect(() => fitPca([[1, 2]])).toThrow(PcaError);
+  });
+
+  it('projects every point onto the PC1 line', () => {
+    const pca = fitPca(CLOUD);
+    const [ux, uy] = principalAxis(pca, 0);
+    projectOntoPc1(pca).forEach(([x, y], i) => {
+      // The residual is perpendicular to PC1
+      const [rx, ry] = [CLOUD[i][0] - x, CLOUD[i][1] - y];
+      expect(rx * ux + ry * uy).toBeCloseTo(0, 12);
+    });
+  });
+});
+
+describe('whitening', () => {
+  it('leaves the centred cloud with identity covariance', () => {
+    const pca = fitPca(CLOUD);
+    const w = whiteningMatrix(pca)!;
+    const white = multiply(multiply(w, pca.covariance), transpose(w));
+    white.flat().forEach((val, i) => expect(val).toBeCloseTo([1, 0, 0, 1][i], 12));
+  });
+
+  it('is unavailable for collinear points', () => {
+    const pca = fitPca([[0, 0], [1, 1], [2, 2]]);
+    expect(whiteningMatrix(pca)).toBeNull();
+    const pipeline = whiteningPipeline(pca);
+    expect(pipeline.unavailable).toBeDefined();
+    expect(pipeline.stages).toHaveLength(2);
+  });
+});
+
+describe('gaussianCloud', () => {
+  it('is repeatable and has roughly the requested covariance', () => {
+    const options = { mean: [1, -1] as Point, std: [2, 0.5] as [number, number], correlation: -0.7, count: 4000 };
+    expect(gaussianCloud(options, 3)).toEqual(gaussianCloud(options, 3));
+    const { covariance, mean } = fitPca(gaussianCloud(options, 3));
+    const expected = cloudCovariance(options);
+    expect(mean[0]).toBeCloseTo(1, 1);
+    expect(mean[1]).toBeCloseTo(-1, 1);
+    covariance.flat().forEach((val, i) => expect(Math.abs(val - expected.flat()[i])).toBeLessThan(0.15));
+  });
+});
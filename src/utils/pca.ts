@@ -0,0 +1,124 @@
+import { Matrix2x2, RANK_TOLERANCE, SVDResult, applyTransform, computeSVD } from './matrix';
+import { Point } from './shapes';
+import { gaussianPair, seeded } from './random';
+
+export class PcaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PcaError';
+  }
+}
+
+// --- Fitting ---
+// The centred points are the columns of the 2×n data matrix D = UΣVᵀ. Its
+// left singular vectors are the principal axes, and the covariance
+// C = DDᵀ/(n - 1) = U diag(λ) Uᵀ with λᵢ = σᵢ²/(n - 1), so the 2×2 engine
+// only ever sees C.
+
+export interface PcaResult {
+  count: number;
+  mean: Point;
+  centered: Point[];
+  covariance: Matrix2x2;
+  // SVD of the covariance; u holds the principal axes as columns
+  svd: SVDResult;
+  // Variance along each axis (λ) and the data matrix's singular values (σ)
+  variance: [number, number];
+  singularValues: [number, number];
+  // Share of the total variance along each axis
+  explained: [number, number];
+}
+
+export function fitPca(points: Point[]): PcaResult {
+  const count = points.length;
+  if (count < 2) throw new PcaError(`PCA needs at least 2 points, got ${count}`);
+  const mean: Point = [
+    points.reduce((sum, p) => sum + p[0], 0) / count,
+    points.reduce((sum, p) => sum + p[1], 0) / count
+  ];
+  const centered = points.map(([x, y]): Point => [x - mean[0], y - mean[1]]);
+
+  let [sxx, sxy, syy] = [0, 0, 0];
+  centered.forEach(([x, y]) => {
+    sxx += x * x;
+    sxy += x * y;
+    syy += y * y;
+  });
+  const covariance: Matrix2x2 = [
+    [sxx / (count - 1), sxy / (count - 1)],
+    [sxy / (count - 1), syy / (count - 1)]
+  ];
+
+  const svd = computeSVD(covariance);
+  const variance = svd.s;
+  const total = variance[0] + variance[1];
+  return {
+    count,
+    mean,
+    centered,
+    covariance,
+    svd,
+    variance,
+    singularValues: [Math.sqrt((count - 1) * variance[0]), Math.sqrt((count - 1) * variance[1])],
+    explained: total > 0 ? [variance[0] / total, variance[1] / total] : [1, 0]
+  };
+}
+
+export const principalAxis = (pca: PcaResult, i: 0 | 1): Point => [pca.svd.u[0][i], pca.svd.u[1][i]];
+
+// Each point dropped onto the line through the mean along PC1
+export function projectOntoPc1(pca: PcaResult): Point[] {
+  const [ux, uy] = principalAxis(pca, 0);
+  return pca.centered.map(([x, y]) => {
+    const score = x * ux + y * uy;
+    return [pca.mean[0] + score * ux, pca.mean[1] + score * uy];
+  });
+}
+
+// W = √(n - 1) Σ⁻¹Uᵀ = diag(λ)^(-1/2) Uᵀ maps the centred cloud to one
+// with identity covariance. null when the points lie on a line.
+export function whiteningMatrix(pca: PcaResult): Matrix2x2 | null {
+  const [l1, l2] = pca.variance;
+  if (l2 <= RANK_TOLERANCE * Math.max(l1, 1)) return null;
+  const { u } = pca.svd;
+  const [k1, k2] = [1 / Math.sqrt(l1), 1 / Math.sqrt(l2)];
+  return [
+    [k1 * u[0][0], k1 * u[1][0]],
+    [k2 * u[0][1], k2 * u[1][1]]
+  ];
+}
+
+// --- Generated clouds ---
+
+export interface CloudOptions {
+  mean: Point;
+  std: [number, number];
+  // Correlation of x and y, in (-1, 1)
+  correlation: number;
+  count: number;
+}
+
+export const DEFAULT_CLOUD: CloudOptions = {
+  mean: [0.4, 0.2],
+  std: [1, 0.4],
+  correlation: 0.6,
+  count: 200,
+};
+
+export function cloudCovariance({ std: [sx, sy], correlation }: CloudOptions): Matrix2x2 {
+  return [
+    [sx * sx, correlation * sx * sy],
+    [correlation * sx * sy, sy * sy]
+  ];
+}
+
+// Samples mean + Lz with L the Cholesky factor of the covariance
+export function gaussianCloud(options: CloudOptions, seed: number): Point[] {
+  const { mean, std: [sx, sy], correlation, count } = options;
+  const chol: Matrix2x2 = [[sx, 0], [correlation * sy, sy * Math.sqrt(Math.max(0, 1 - correlation * correlation))]];
+  const random = seeded(seed);
+  return Array.from({ length: count }, () => {
+    const [x, y] = applyTransform(chol, gaussianPair(random));
+    return [mean[0] + x, mean[1] + y];
+  });
+}
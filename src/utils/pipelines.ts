@@ -0,0 +1,248 @@
+import {
+  Matrix2x2,
+  SVDResult,
+  IDENTITY,
+  multiply,
+  determinant,
+  toOrthogonalFactor,
+  eigenDecompose,
+  polarDecompose,
+  pseudoInverseSVD,
+  transpose
+} from './matrix';
+import { MorphPhase, morphPhases } from './morph';
+import { StageArrow } from './overlays';
+import { Point } from './shapes';
+import { TRANSLATION_COLOR } from './affine';
+import { PcaResult, whiteningMatrix } from './pca';
+
+// Factorizations the pipeline can show for the same A
+export type DecompositionMode = 'svd' | 'eigen' | 'polar';
+
+export const DECOMPOSITION_MODES: DecompositionMode[] = ['svd', 'eigen', 'polar'];
+
+export const DECOMPOSITION_LABELS: Record<DecompositionMode, string> = {
+  svd: "UΣVᵀ",
+  eigen: "PΛP⁻¹",
+  polar: "QS",
+};
+
+export interface PipelineStage {
+  // Product of every factor applied so far
+  matrix: Matrix2x2;
+  // Affine mode only: added after the matrix
+  translation?: Point;
+  subLabel: string;
+  color: string;
+}
+
+export interface Pipeline {
+  formula: string;
+  stages: PipelineStage[];
+  // Set when the factorization doesn't exist over the reals
+  unavailable?: string;
+  note: string;
+  arrows: StageArrow[];
+}
+
+export const EIGENVECTOR_COLOR = "#38bdf8";
+
+const fmt = (x: number) => x.toFixed(2);
+
+// Stages are the end points of the morph phases. Each orthogonal factor is
+// R * F^reflect, so a mirrored factor gets its own "Mirror" stage before its
+// rotation.
+function svdPipeline(svd: SVDResult): Pipeline {
+  const mirrored = toOrthogonalFactor(svd.u).reflect || toOrthogonalFactor(svd.vt).reflect;
+  return {
+    formula: "x → Vᵀx → ΣVᵀx → UΣVᵀx",
+    stages: morphPhases(svd).map(phase => ({ matrix: phase.at(1), subLabel: phase.label, color: phase.color })),
+    note: "Pipeline shows sequential SVD application." +
+      (mirrored ? " Mirrored factors are split into a reflection across the x-axis followed by a rotation." : ""),
+    arrows: []
+  };
+}
+
+function eigenPipeline(matrix: Matrix2x2): Pipeline {
+  const formula = "x → P⁻¹x → ΛP⁻¹x → PΛP⁻¹x";
+  const eigen = eigenDecompose(matrix);
+  // Without a real P, the only honest stage is A itself
+  const direct: PipelineStage[] = [{ matrix, subLabel: "Apply A", color: "#ef4444" }];
+
+  if (eigen.kind === 'complex') {
+    return {
+      formula,
+      stages: direct,
+      unavailable: `No real eigendecomposition: λ = ${fmt(eigen.real)} ± ${fmt(eigen.imag)}i.`,
+      note: "A turns every real direction, so no vector keeps its line (a rotation is the extreme case). The SVD always exists.",
+      arrows: []
+    };
+  }
+  if (eigen.kind === 'defective') {
+    return {
+      formula,
+      stages: direct,
+      unavailable: `No eigendecomposition: λ = ${fmt(eigen.value)} is repeated but has only one eigenvector.`,
+      note: "A is defective (a shear is the classic case), so P would be singular. The SVD always exists.",
+      arrows: []
+    };
+  }
+
+  const [l1, l2] = eigen.values;
+  const lambda: Matrix2x2 = [[l1, 0], [0, l2]];
+  const lambdaPInv = multiply(lambda, eigen.pInv);
+  return {
+    formula,
+    stages: [
+      { matrix: eigen.pInv, subLabel: "Apply P⁻¹", color: "#f59e0b" },
+      { matrix: lambdaPInv, subLabel: "Apply Λ", color: "#10b981" },
+      { matrix: multiply(eigen.p, lambdaPInv), subLabel: "Apply P", color: "#8b5cf6" }
+    ],
+    note: `λ₁ = ${fmt(l1)}, λ₂ = ${fmt(l2)}. P⁻¹ moves the eigenvectors p₁, p₂ onto the axes, Λ scales them and P moves them back.` +
+      (eigen.orthogonal
+        ? " A is symmetric here, so P is a rotation and this matches the SVD up to signs."
+        : " P is not orthogonal, so P⁻¹ and P shear the shape instead of rotating it.") +
+      (l1 < 0 || l2 < 0 ? " A negative λ flips its eigenvector, which Σ never does." : ""),
+    arrows: [0, 1].map(i => ({
+      vector: [eigen.p[0][i], eigen.p[1][i]],
+      label: `p${i === 0 ? "₁" : "₂"}`,
+      color: EIGENVECTOR_COLOR,
+      transform: true
+    }))
+  };
+}
+
+function polarPipeline(svd: SVDResult): Pipeline {
+  const { q, s } = polarDecompose(svd);
+  const mirrored = determinant(q) < 0;
+  return {
+    formula: "x → Sx → QSx",
+    stages: [
+      { matrix: s, subLabel: "Apply S", color: "#10b981" },
+      { matrix: multiply(q, s), subLabel: mirrored ? "Apply Q (mirror)" : "Apply Q", color: "#8b5cf6" }
+    ],
+    note: "S = VΣVᵀ stretches along v₁, v₂ without turning them; Q = UVᵀ then " +
+      (mirrored ? "rotates and mirrors, since det A < 0." : "rotates.") +
+      " The same factors give the left form A = (QSQᵀ)Q.",
+    arrows: []
+  };
+}
+
+export function buildPipeline(mode: DecompositionMode, matrix: Matrix2x2, svd: SVDResult): Pipeline {
+  switch (mode) {
+    case 'eigen': return eigenPipeline(matrix);
+    case 'polar': return polarPipeline(svd);
+    default: return svdPipeline(svd);
+  }
+}
+
+// --- Affine mode ---
+
+// Translation is applied last, as its own stage. It moves every point by t
+// and leaves every direction alone, so the factorization of A is unchanged.
+export function withTranslation(pipeline: Pipeline, matrix: Matrix2x2, translation: Point): Pipeline {
+  return {
+    ...pipeline,
+    formula: `${pipeline.formula} → Ax + t`,
+    stages: [...pipeline.stages, { matrix, translation, subLabel: "Translate (t)", color: TRANSLATION_COLOR }],
+    note: `${pipeline.note} The last stage adds t = (${fmt(translation[0])}, ${fmt(translation[1])}): ` +
+      "in homogeneous coordinates x ↦ Ax + t is the single 3×3 matrix [[A, t], [0, 1]], " +
+      "but the singular values and vectors come from A alone."
+  };
+}
+
+// --- Animation ---
+
+const blend = (from: Matrix2x2, to: Matrix2x2, p: number): Matrix2x2 =>
+  [0, 1].map(i => [0, 1].map(j => from[i][j] + (to[i][j] - from[i][j]) * p)) as Matrix2x2;
+
+// Phases that play the pipeline's stages in order, for exporting it as an
+// animation. The SVD keeps morphPhases' turning rotations; other factors
+// blend linearly from the stage before, and translation slides from 0 to t.
+export function pipelinePhases(pipeline: Pipeline, mode: DecompositionMode, svd: SVDResult): MorphPhase[] {
+  // SVD stages are the end points of the morph phases, so those come first
+  const phases: MorphPhase[] = mode === 'svd' ? morphPhases(svd) : [];
+  for (let i = phases.length; i < pipeline.stages.length; i++) {
+    const stage = pipeline.stages[i];
+    const before = i > 0 ? pipeline.stages[i - 1].matrix : IDENTITY;
+    const t = stage.translation;
+    phases.push(t
+      ? { label: stage.subLabel, color: stage.color, at: () => stage.matrix, offset: p => [t[0] * p, t[1] * p] }
+      : { label: stage.subLabel, color: stage.color, at: p => blend(before, stage.matrix, p) });
+  }
+  return phases;
+}
+
+// --- Composition ---
+
+const SUBSCRIPTS = "₀₁₂₃₄₅₆₇₈₉";
+export const subscript = (n: number) => String(n).split('').map(d => SUBSCRIPTS[Number(d)]).join('');
+
+// One stage per factor, each showing the running product
+export function chainPipeline(factors: Matrix2x2[]): Pipeline {
+  const colors = ["#f59e0b", "#10b981", "#8b5cf6", "#ec4899", "#38bdf8"];
+  let acc = IDENTITY;
+  const stages = factors.map((factor, i) => {
+    acc = multiply(factor, acc);
+    return { matrix: acc, subLabel: `Apply A${subscript(i + 1)}`, color: colors[i % colors.length] };
+  });
+  return {
+    formula: `x → ${factors.map((_, i) => `A${subscript(i + 1)}`).reverse().join('')}x`,
+    stages,
+    note: "Each stage applies the next factor to the previous result, so the last stage is the product P = Aₙ⋯A₁.",
+    arrows: []
+  };
+}
+
+// A⁺ = V Σ⁺ Uᵀ undoes the SVD pipeline in reverse: Uᵀ turns the output axes
+// back, Σ⁺ unstretches (and drops collapsed directions), V turns back
+export function pseudoInversePipeline(svd: SVDResult): Pipeline {
+  const plus = pseudoInverseSVD(svd);
+  const sigmaPlus: Matrix2x2 = [[plus.s[0], 0], [0, plus.s[1]]];
+  const sigmaUT = multiply(sigmaPlus, plus.vt);
+  const singular = plus.s.some(sigma => sigma === 0);
+  return {
+    formula: "y → Uᵀy → Σ⁺Uᵀy → VΣ⁺Uᵀy",
+    stages: [
+      { matrix: plus.vt, subLabel: "Apply Uᵀ", color: "#8b5cf6" },
+      { matrix: sigmaUT, subLabel: "Apply Σ⁺", color: "#10b981" },
+      { matrix: multiply(plus.u, sigmaUT), subLabel: "Apply V", color: "#f59e0b" }
+    ],
+    note: singular
+      ? "A is singular, so Σ⁺ keeps the zero σ at zero: A⁺ maps onto the row space and A⁺A is a projection, not the identity."
+      : "A is invertible, so A⁺ = A⁻¹ and each stage exactly undoes its counterpart in UΣVᵀ.",
+    arrows: []
+  };
+}
+
+// --- PCA ---
+
+export const PC_COLORS = ["#f472b6", "#22d3ee"];
+
+// Centres the cloud, turns the principal axes onto x and y with Uᵀ, then
+// divides each by its standard deviation. The arrows are the axes scaled by
+// √λᵢ, so they end up as e₁ and e₂.
+export function whiteningPipeline(pca: PcaResult): Pipeline {
+  const ut = transpose(pca.svd.u);
+  const whiten = whiteningMatrix(pca);
+  const spread = pca.variance.map(Math.sqrt);
+  const stages: PipelineStage[] = [
+    { matrix: IDENTITY, subLabel: "Center (x − μ)", color: "#71717a" },
+    { matrix: ut, subLabel: "Rotate (Uᵀ)", color: "#f59e0b" },
+    ...(whiten ? [{ matrix: whiten, subLabel: "Whiten (√(n−1) Σ⁻¹)", color: "#10b981" }] : [])
+  ];
+  return {
+    formula: "x → x − μ → Uᵀ(x − μ) → √(n−1) Σ⁻¹Uᵀ(x − μ)",
+    stages,
+    unavailable: whiten ? undefined : "The points lie on a line (σ₂ = 0), so the cloud can't be whitened.",
+    note: `Uᵀ turns PC1 onto the x-axis, where the coordinates are the scores. ` +
+      `The spreads are then √λ₁ = ${fmt(spread[0])} and √λ₂ = ${fmt(spread[1])}` +
+      (whiten ? "; dividing by them leaves unit variance in every direction (covariance I)." : "."),
+    arrows: [0, 1].map(i => ({
+      vector: [pca.svd.u[0][i] * spread[i], pca.svd.u[1][i] * spread[i]],
+      label: `PC${i + 1}`,
+      color: PC_COLORS[i],
+      transform: true
+    }))
+  };
+}
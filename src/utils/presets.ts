@@ -0,0 +1,73 @@
+import { Matrix2x2, fromAngle } from './matrix';
+
+export interface MatrixPreset {
+  id: string;
+  name: string;
+  description: string;
+  matrix: Matrix2x2;
+}
+
+// Rounded so the matrix input shows tidy numbers
+const round = (matrix: Matrix2x2): Matrix2x2 =>
+  matrix.map(row => row.map(val => Math.round(val * 1e4) / 1e4)) as Matrix2x2;
+
+export const PRESETS: MatrixPreset[] = [
+  {
+    id: 'symmetric',
+    name: "Symmetric",
+    description: "The starting matrix: U = V, so the SVD is also an eigendecomposition",
+    matrix: [[1.5, 0.5], [0.5, 1.5]]
+  },
+  {
+    id: 'rotation',
+    name: "Rotation",
+    description: "Rotation by 30°: both σ are 1 and all the work happens in U and Vᵀ",
+    matrix: round(fromAngle(Math.PI / 6))
+  },
+  {
+    id: 'reflection',
+    name: "Reflection",
+    description: "Mirror across the line at 30°: σ₁ = σ₂ = 1 and det A = -1",
+    matrix: round(fromAngle(Math.PI / 3, true))
+  },
+  {
+    id: 'shear',
+    name: "Shear",
+    description: "Horizontal shear: no eigenbasis, but the SVD still turns it into rotate-stretch-rotate",
+    matrix: [[1, 1], [0, 1]]
+  },
+  {
+    id: 'projection',
+    name: "Projection",
+    description: "Orthogonal projection onto y = x: σ₂ = 0 and the plane collapses onto a line",
+    matrix: [[0.5, 0.5], [0.5, 0.5]]
+  },
+  {
+    id: 'singular',
+    name: "Singular",
+    description: "Rank 1 with dependent columns: everything lands on one line",
+    matrix: [[1, 2], [0.5, 1]]
+  },
+  {
+    id: 'nearly-singular',
+    name: "Nearly singular",
+    description: "det A = 0.02: σ₂ is tiny and the condition number is huge",
+    matrix: [[1, 2], [0.5, 1.02]]
+  },
+  {
+    id: 'uniform-scaling',
+    name: "Uniform scaling",
+    description: "1.5 I: σ₁ = σ₂, so any orthonormal pair is a valid set of singular vectors",
+    matrix: [[1.5, 0], [0, 1.5]]
+  },
+  {
+    id: 'nonuniform-scaling',
+    name: "Non-uniform scaling",
+    description: "diag(2, 0.5): U and V are the identity and Σ is A itself",
+    matrix: [[2, 0], [0, 0.5]]
+  }
+];
+
+export function findPreset(id: string): MatrixPreset | undefined {
+  return PRESETS.find(preset => preset.id === id);
+}
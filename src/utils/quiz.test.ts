@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { Matrix2x2, computeSVD, determinant, fromAngle, transpose } from './matrix';
+import { seeded } from './random';
+import {
+  DEFAULT_QUIZ_OPTIONS,
+  QUIZ_HISTORY_KEY,
+  QuizAttempt,
+  QuizOptions,
+  QuizStorage,
+  generateMatrix,
+  generateProblem,
+  gradeFactors,
+  gradeMatch,
+  loadQuizHistory,
+  quizStats,
+  recordAttempt
+} from './quiz';
+
+const ALL_OPTIONS: QuizOptions[] = [true, false].flatMap(integers =>
+  [true, false].flatMap(rational => [true, false].map(reflections => ({ integers, rational, reflections }))));
+
+const memoryStorage = (initial: Record<string, string> = {}): QuizStorage => {
+  const items = new Map(Object.entries(initial));
+  return { getItem: key => items.get(key) ?? null, setItem: (key, value) => void items.set(key, value) };
+};
+
+describe('generateMatrix', () => {
+  it('honours every combination of options', () => {
+    ALL_OPTIONS.forEach(options => {
+      const random = seeded(11);
+      for (let i = 0; i < 20; i++) {
+        const m = generateMatrix(options, random);
+        const [s1, s2] = computeSVD(m).s;
+        expect(s1 - s2).toBeGreaterThan(0.1);
+        expect(s2).toBeGreaterThan(0.1);
+        if (options.integers) m.flat().forEach(val => expect(Number.isInteger(val)).toBe(true));
+        // Rational σ come out as multiples of ½
+        if (options.rational) [s1, s2].forEach(s => expect(Math.abs(s * 2 - Math.round(s * 2))).toBeLessThan(1e-9));
+        if (!options.reflections) expect(determinant(m)).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  it('is repeatable from the seed', () => {
+    expect(generateProblem('match', DEFAULT_QUIZ_OPTIONS, 5)).toEqual(generateProblem('match', DEFAULT_QUIZ_OPTIONS, 5));
+  });
+});
+
+describe('gradeFactors', () => {
+  const a: Matrix2x2 = [[2, 1], [1, 2]];
+  const r = Math.SQRT1_2;
+
+  it("accepts the app's own SVD", () => {
+    const { u, s, vt } = computeSVD(a);
+    expect(gradeFactors(a, { u, s, vt })).toMatchObject({ correct: true, feedback: [] });
+  });
+
+  it('accepts flipped pairs and ascending σ', () => {
+    const flipped = gradeFactors(a, { u: [[-r, -r], [-r, r]], s: [3, 1], vt: [[-r, -r], [-r, r]] });
+    expect(flipped.correct).toBe(true);
+    const ascending = gradeFactors(a, { u: [[-r, r], [r, r]], s: [1, 3], vt: [[-r, r], [r, r]] });
+    expect(ascending.correct).toBe(true);
+    expect(ascending.feedback.join(" ")).toMatch(/largest first/);
+  });
+
+  it('accepts any orthonormal pair when σ repeat', () => {
+    // 2 R(90°) = U Σ Vᵀ with V = R(0.3), U = R(90° + 0.3)
+    const grade = gradeFactors([[0, -2], [2, 0]], { u: fromAngle(Math.PI / 2 + 0.3), s: [2, 2], vt: transpose(fromAngle(0.3)) });
+    expect(grade.correct).toBe(true);
+    expect(grade.feedback.join(" ")).toMatch(/any orthonormal pair/);
+  });
+
+  it('accepts typed decimals and points out slips', () => {
+    expect(gradeFactors(a, { u: [[0.7071, -0.7071], [0.7071, 0.7071]], s: [3, 1], vt: [[0.7071, 0.7071], [-0.7071, 0.7071]] }).correct).toBe(true);
+
+    const unmatched = gradeFactors(a, { u: [[-r, -r], [-r, r]], s: [3, 1], vt: [[r, r], [-r, r]] });
+    expect(unmatched.correct).toBe(false);
+    expect(unmatched.feedback.join(" ")).toMatch(/Flip the sign/);
+
+    const shear: Matrix2x2 = [[1, 1], [0, 1]];
+    const { u, s, vt } = computeSVD(shear);
+    const untransposed = gradeFactors(shear, { u, s, vt: transpose(vt) });
+    expect(untransposed.correct).toBe(false);
+    expect(untransposed.feedback.join(" ")).toMatch(/transpose/);
+
+    const squared = gradeFactors(a, { u: [[r, -r], [r, r]], s: [9, 1], vt: [[r, r], [-r, r]] });
+    expect(squared.checks.find(check => check.name === "σ")!.passed).toBe(false);
+    expect(squared.feedback.join(" ")).toMatch(/eigenvalues of AᵀA/);
+  });
+});
+
+describe('gradeMatch', () => {
+  it('has one right choice among distinct ones', () => {
+    const problem = generateProblem('match', { ...DEFAULT_QUIZ_OPTIONS, integers: true }, 3);
+    expect(problem.choices).toHaveLength(4);
+    expect(problem.choices[problem.answer]).toEqual(problem.matrix);
+    expect(gradeMatch(problem, problem.answer).correct).toBe(true);
+    const wrong = (problem.answer + 1) % 4;
+    expect(gradeMatch(problem, wrong)).toMatchObject({ correct: false });
+    expect(gradeMatch(problem, wrong).feedback).toHaveLength(1);
+  });
+});
+
+describe('quiz history', () => {
+  const attempt = (correct: boolean, time = 0): QuizAttempt =>
+    ({ time, kind: 'factors', seed: 1, options: DEFAULT_QUIZ_OPTIONS, correct });
+
+  it('records attempts and survives bad data', () => {
+    const storage = memoryStorage({ [QUIZ_HISTORY_KEY]: "not json" });
+    expect(loadQuizHistory(storage)).toEqual([]);
+    recordAttempt(storage, attempt(true, 1));
+    recordAttempt(storage, attempt(false, 2));
+    expect(loadQuizHistory(storage).map(a => a.time)).toEqual([1, 2]);
+    expect(loadQuizHistory(memoryStorage({ [QUIZ_HISTORY_KEY]: '[{"time": "x"}]' }))).toEqual([]);
+  });
+
+  it('counts streaks', () => {
+    const history = [true, true, true, false, true, true].map(correct => attempt(correct));
+    expect(quizStats(history)).toEqual({ attempts: 6, correct: 5, streak: 2, bestStreak: 3 });
+  });
+});
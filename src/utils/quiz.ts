@@ -0,0 +1,340 @@
+import {
+  MIRROR_X,
+  Matrix2x2,
+  SVDResult,
+  computeSVD,
+  determinant,
+  fromAngle,
+  multiply,
+  reconstructMatrix,
+  transpose
+} from './matrix';
+import { seeded } from './random';
+import { verifySVD } from './verify';
+
+// Practice problems: a random 2×2 whose SVD comes out "nice", and a grader
+// that accepts every valid SVD rather than only the one the app computes.
+
+export interface QuizOptions {
+  integers: boolean; // A has integer entries
+  rational: boolean; // σ are rational (otherwise square roots turn up)
+  reflections: boolean; // Half the problems have det A < 0
+}
+
+export const DEFAULT_QUIZ_OPTIONS: QuizOptions = {
+  integers: false,
+  rational: true,
+  reflections: false,
+};
+
+export const QUIZ_OPTION_LABELS: Record<keyof QuizOptions, string> = {
+  integers: "Integer A",
+  rational: "Rational σ",
+  reflections: "Reflections",
+};
+
+export type QuizKind = 'factors' | 'match';
+
+export const QUIZ_KIND_LABELS: Record<QuizKind, string> = {
+  factors: "Find the SVD",
+  match: "Match the pipeline",
+};
+
+// Answers are typed to a few decimals, so this is loose on purpose
+export const QUIZ_TOLERANCE = 5e-3;
+
+export class QuizError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuizError';
+  }
+}
+
+// --- Generation ---
+
+const pick = <T,>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// Rotations with rational entries (Pythagorean triples) and, when σ may be
+// irrational anyway, the usual multiples of 15°
+const PYTHAGOREAN = [[1, 0], [3, 4], [4, 3], [5, 12], [12, 5], [8, 15], [15, 8]]
+  .map(([a, b]) => Math.atan2(b, a));
+const RATIONAL_ANGLES = [0, 1, 2, 3].flatMap(quarter => PYTHAGOREAN.map(angle => angle + (quarter * Math.PI) / 2));
+const NICE_ANGLES = Array.from({ length: 24 }, (_, i) => (i * Math.PI) / 12);
+const RATIONAL_SIGMAS = [0.5, 1, 1.5, 2, 2.5, 3, 4];
+const SURD_SIGMAS = [1, Math.SQRT2, Math.sqrt(3), 2, Math.sqrt(5), Math.sqrt(6), 3];
+
+// Cleans up float noise so exact entries display exactly
+const tidy = (val: number) => {
+  const rounded = Number(val.toFixed(10));
+  return rounded === 0 ? 0 : rounded;
+};
+
+const isSquare = (n: number) => n >= 0 && Number.isInteger(Math.sqrt(n));
+
+// Every integer matrix with entries in [-4, 4] whose σ are distinct and
+// non-zero, and rational or at least with integer σ². With t = ‖A‖²_F and
+// d = |det A|, σ₁ ± σ₂ = √(t ± 2d), and σ² are the roots of λ² - tλ + d².
+let integerCandidates: { rational: Matrix2x2[]; surd: Matrix2x2[] } | null = null;
+
+function integerMatrices() {
+  if (integerCandidates) return integerCandidates;
+  integerCandidates = { rational: [], surd: [] };
+  const range = [-4, -3, -2, -1, 0, 1, 2, 3, 4];
+  for (const a of range) for (const b of range) for (const c of range) for (const d of range) {
+    const t = a * a + b * b + c * c + d * d;
+    const det = Math.abs(a * d - b * c);
+    if (det === 0 || t === 2 * det) continue;
+    const m: Matrix2x2 = [[a, b], [c, d]];
+    if (isSquare(t + 2 * det) && isSquare(t - 2 * det)) integerCandidates.rational.push(m);
+    else if (isSquare(t * t - 4 * det * det)) integerCandidates.surd.push(m);
+  }
+  return integerCandidates;
+}
+
+export function generateMatrix(options: QuizOptions, random: () => number): Matrix2x2 {
+  const mirrored = options.reflections && random() < 0.5;
+  if (options.integers) {
+    const pool = integerMatrices()[options.rational ? 'rational' : 'surd']
+      .filter(m => (determinant(m) < 0) === mirrored);
+    return pick(pool, random);
+  }
+  const angles = options.rational ? RATIONAL_ANGLES : NICE_ANGLES;
+  const sigmas = options.rational ? RATIONAL_SIGMAS : SURD_SIGMAS;
+  const s1 = pick(sigmas, random);
+  const s2 = pick(sigmas.filter(s => s !== s1), random);
+  const u = fromAngle(pick(angles, random), mirrored);
+  const vt = transpose(fromAngle(pick(angles, random)));
+  return reconstructMatrix(u, [Math.max(s1, s2), Math.min(s1, s2)], vt).map(row => row.map(tidy)) as Matrix2x2;
+}
+
+export interface QuizProblem {
+  kind: QuizKind;
+  seed: number;
+  matrix: Matrix2x2;
+  svd: SVDResult;
+  // match only: candidate matrices and the index of the right one
+  choices: Matrix2x2[];
+  answer: number;
+}
+
+const MATCH_CHOICES = 4;
+const SWAP: Matrix2x2 = [[0, 1], [1, 0]];
+
+const distance = (a: Matrix2x2, b: Matrix2x2) =>
+  Math.hypot(a[0][0] - b[0][0], a[0][1] - b[0][1], a[1][0] - b[1][0], a[1][1] - b[1][1]);
+
+// Distractors share A's entries, and mostly its σ, so only the singular
+// vectors tell them apart: Aᵀ swaps U and V, the swaps and the mirror change
+// one of them and -A turns U by 180°.
+function matchChoices(matrix: Matrix2x2, options: QuizOptions, random: () => number): { choices: Matrix2x2[]; answer: number } {
+  const related = shuffle([
+    transpose(matrix),
+    multiply(matrix, SWAP),
+    multiply(SWAP, matrix),
+    multiply(matrix, MIRROR_X),
+    matrix.map(row => row.map(val => tidy(-val))) as Matrix2x2
+  ], random);
+  const choices = [matrix];
+  for (let tries = 0; choices.length < MATCH_CHOICES && tries < 100; tries++) {
+    const candidate = related.shift() ?? generateMatrix(options, random);
+    if (choices.every(choice => distance(choice, candidate) > 0.25)) choices.push(candidate);
+  }
+  if (choices.length < MATCH_CHOICES) throw new QuizError("Could not find enough distinct choices");
+  const order = shuffle(choices.map((_, i) => i), random);
+  return { choices: order.map(i => choices[i]), answer: order.indexOf(0) };
+}
+
+export function generateProblem(kind: QuizKind, options: QuizOptions, seed: number): QuizProblem {
+  const random = seeded(seed);
+  const matrix = generateMatrix(options, random);
+  const svd = computeSVD(matrix);
+  const match = kind === 'match' ? matchChoices(matrix, options, random) : { choices: [], answer: -1 };
+  return { kind, seed, matrix, svd, ...match };
+}
+
+// --- Grading ---
+
+export interface QuizAnswer {
+  u: Matrix2x2;
+  s: [number, number];
+  vt: Matrix2x2;
+}
+
+export interface QuizCheck {
+  name: string;
+  passed: boolean;
+}
+
+export interface QuizGrade {
+  correct: boolean;
+  checks: QuizCheck[];
+  // Hints when wrong; when right, how the answer differs from the app's
+  feedback: string[];
+}
+
+const column = (m: Matrix2x2, i: number) => [m[0][i], m[1][i]];
+const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1];
+const fmt = (val: number) => String(Number(val.toFixed(3)));
+const flipColumn = (m: Matrix2x2, i: number): Matrix2x2 =>
+  m.map(row => row.map((val, j) => (j === i ? -val : val))) as Matrix2x2;
+const flipRow = (m: Matrix2x2, i: number): Matrix2x2 =>
+  m.map((row, j) => (j === i ? row.map(val => -val) : [...row])) as Matrix2x2;
+
+// Puts the answer in the usual order, σ₁ ≥ σ₂, moving uᵢ and vᵢ along
+function sortAnswer(answer: QuizAnswer): { answer: QuizAnswer; reordered: boolean } {
+  if (answer.s[0] >= answer.s[1]) return { answer, reordered: false };
+  return {
+    answer: { u: multiply(answer.u, SWAP), s: [answer.s[1], answer.s[0]], vt: multiply(SWAP, answer.vt) },
+    reordered: true
+  };
+}
+
+const isValid = (matrix: Matrix2x2, answer: QuizAnswer, tolerance: number) =>
+  verifySVD(matrix, answer, tolerance).passed;
+
+// Common slips behind a wrong answer, each found by undoing it and checking again
+function hints(matrix: Matrix2x2, answer: QuizAnswer, svd: SVDResult, tolerance: number): string[] {
+  const found: string[] = [];
+  for (const i of [0, 1]) {
+    if (isValid(matrix, { ...answer, u: flipColumn(answer.u, i) }, tolerance) ||
+        isValid(matrix, { ...answer, vt: flipRow(answer.vt, i) }, tolerance)) {
+      found.push(`Flip the sign of u${i === 0 ? "₁" : "₂"} or v${i === 0 ? "₁" : "₂"}: a sign change in one has to be matched in the other.`);
+    }
+  }
+  if (isValid(matrix, { ...answer, vt: transpose(answer.vt) }, tolerance)) {
+    found.push("That's V in the last slot; enter its transpose Vᵀ.");
+  }
+  if (isValid(matrix, { u: transpose(answer.vt), s: answer.s, vt: transpose(answer.u) }, tolerance)) {
+    found.push("U and V are swapped: U's columns come from AAᵀ, V's from AᵀA.");
+  }
+  const squared = svd.s.map(sigma => sigma * sigma);
+  if (squared.some((val, i) => val !== svd.s[i]) && answer.s.every((val, i) => Math.abs(val - squared[i]) <= tolerance * Math.max(1, squared[i]))) {
+    found.push("Those are the eigenvalues of AᵀA; σ are their square roots.");
+  }
+  return found;
+}
+
+// Accepts any valid SVD: signs of matching uᵢ, vᵢ pairs, σ in either order
+// (with the vectors moved along), any orthonormal pair when σ₁ = σ₂ and any
+// unit u₂ ⟂ u₁ when σ₂ = 0. All of these reproduce A, so the checks are on
+// the factors' shape and the product, not on matching the app's factors.
+export function gradeFactors(matrix: Matrix2x2, submitted: QuizAnswer, tolerance = QUIZ_TOLERANCE): QuizGrade {
+  const { answer, reordered } = sortAnswer(submitted);
+  const svd = computeSVD(matrix);
+  const { checks: verified } = verifySVD(matrix, answer, tolerance);
+  const find = (name: string) => verified.find(check => check.name === name)?.passed ?? false;
+  const checks: QuizCheck[] = [
+    { name: "σ", passed: find("σ non-negative") && find("σ match") },
+    { name: "U orthogonal", passed: find("UᵀU = I") },
+    { name: "V orthogonal", passed: find("VᵀV = I") },
+    { name: "UΣVᵀ = A", passed: find("UΣVᵀ = A") }
+  ];
+  const correct = checks.every(check => check.passed);
+
+  if (!correct) {
+    const feedback = hints(matrix, answer, svd, tolerance);
+    if (!checks[0].passed && !feedback.length) feedback.push("σ are the square roots of the eigenvalues of AᵀA, and never negative.");
+    return { correct, checks, feedback };
+  }
+
+  const feedback: string[] = [];
+  if (reordered) feedback.push("σ are usually listed largest first, but your order (with the vectors to match) is equally valid.");
+  if (Math.abs(svd.s[0] - svd.s[1]) <= tolerance * Math.max(1, svd.s[0])) {
+    feedback.push("σ₁ = σ₂, so any orthonormal pair of singular vectors works, as long as V follows from U.");
+  } else {
+    const flipped = [0, 1].filter(i => dot(column(answer.u, i), column(svd.u, i)) < 0 && (i === 0 || svd.s[1] > tolerance));
+    if (flipped.length) {
+      feedback.push(`Your signs differ from the app's for ${flipped.map(i => `u${i === 0 ? "₁" : "₂"}, v${i === 0 ? "₁" : "₂"}`).join(" and ")}; flipping a pair together gives the same A.`);
+    }
+  }
+  if (svd.s[1] <= tolerance * Math.max(1, svd.s[0])) {
+    feedback.push("σ₂ = 0, so u₂ only has to be a unit vector perpendicular to u₁.");
+  }
+  return { correct, checks, feedback };
+}
+
+export function gradeMatch(problem: QuizProblem, choice: number): QuizGrade {
+  const correct = choice === problem.answer;
+  const picked = problem.choices[choice];
+  if (!picked) throw new QuizError(`No choice ${choice + 1}`);
+  const feedback: string[] = [];
+  if (!correct) {
+    const { s } = computeSVD(picked);
+    const sameSigma = Math.abs(s[0] - problem.svd.s[0]) < QUIZ_TOLERANCE && Math.abs(s[1] - problem.svd.s[1]) < QUIZ_TOLERANCE;
+    feedback.push(sameSigma
+      ? "Same σ, so the Σ stage matches, but the rotations before or after it don't."
+      : `That matrix stretches by ${s.map(fmt).join(" and ")}, not ${problem.svd.s.map(fmt).join(" and ")}.`);
+  }
+  return { correct, checks: [{ name: "Matrix", passed: correct }], feedback };
+}
+
+// --- Score history ---
+
+export interface QuizAttempt {
+  time: number; // ms since the epoch
+  kind: QuizKind;
+  seed: number;
+  options: QuizOptions;
+  correct: boolean;
+}
+
+export const QUIZ_HISTORY_KEY = "svd-visualizer:quiz-history";
+export const QUIZ_HISTORY_LIMIT = 200;
+
+// The part of localStorage the history needs, so tests can pass a map
+export interface QuizStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+}
+
+const isAttempt = (val: unknown): val is QuizAttempt => {
+  const obj = val as Record<string, unknown> | null;
+  return !!obj && typeof obj.time === 'number' && typeof obj.seed === 'number' && typeof obj.correct === 'boolean' &&
+    (obj.kind === 'factors' || obj.kind === 'match') && typeof obj.options === 'object' && obj.options !== null;
+};
+
+// A missing or corrupt history reads as empty rather than breaking the quiz
+export function loadQuizHistory(storage: QuizStorage): QuizAttempt[] {
+  try {
+    const data = JSON.parse(storage.getItem(QUIZ_HISTORY_KEY) ?? "[]");
+    return Array.isArray(data) ? data.filter(isAttempt) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function recordAttempt(storage: QuizStorage, attempt: QuizAttempt): QuizAttempt[] {
+  const history = [...loadQuizHistory(storage), attempt].slice(-QUIZ_HISTORY_LIMIT);
+  storage.setItem(QUIZ_HISTORY_KEY, JSON.stringify(history));
+  return history;
+}
+
+export function clearQuizHistory(storage: QuizStorage): QuizAttempt[] {
+  storage.setItem(QUIZ_HISTORY_KEY, "[]");
+  return [];
+}
+
+export interface QuizStats {
+  attempts: number;
+  correct: number;
+  streak: number;
+  bestStreak: number;
+}
+
+export function quizStats(history: QuizAttempt[]): QuizStats {
+  let [streak, bestStreak] = [0, 0];
+  history.forEach(attempt => {
+    streak = attempt.correct ? streak + 1 : 0;
+    bestStreak = Math.max(bestStreak, streak);
+  });
+  return { attempts: history.length, correct: history.filter(a => a.correct).length, streak, bestStreak };
+}
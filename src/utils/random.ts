@@ -0,0 +1,18 @@
+// mulberry32: a tiny seeded generator, so generated data stays put across
+// renders and can be reproduced from its seed
+export function seeded(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(state ^ (state >>> 15), 1 | state);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Two independent standard normal samples (Box-Muller)
+export function gaussianPair(random: () => number): [number, number] {
+  const r = Math.sqrt(-2 * Math.log(1 - random()));
+  const angle = 2 * Math.PI * random();
+  return [r * Math.cos(angle), r * Math.sin(angle)];
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { Matrix, determinantN, multiplyN } from './matrix';
+import { EulerAngles, MIRROR_Z, fromEuler, fromOrthogonalFactor3, toEuler, toOrthogonalFactor3 } from './rotation3d';
+
+const maxAbsDiff = (a: Matrix, b: Matrix) =>
+  Math.max(...a.flatMap((row, i) => row.map((val, j) => Math.abs(val - b[i][j]))));
+
+const angle = fc.double({ min: -Math.PI, max: Math.PI, noNaN: true });
+
+describe('toOrthogonalFactor3', () => {
+  it('round-trips proper and mirrored factors (property)', () => {
+    fc.assert(
+      fc.property(angle, fc.double({ min: -Math.PI / 2, max: Math.PI / 2, noNaN: true }), angle, fc.boolean(), (yaw, pitch, roll, reflect) => {
+        const m = fromEuler([yaw, pitch, roll], reflect);
+        const factor = toOrthogonalFactor3(m);
+        expect(factor.reflect).toBe(reflect);
+        // Within 1e-9 of ±90° the angles are read as gimbal-locked, which
+        // costs up to √(2·1e-9) in the entries
+        expect(maxAbsDiff(fromOrthogonalFactor3(factor), m)).toBeLessThan(1e-4);
+        if (Math.abs(Math.abs(pitch) - Math.PI / 2) > 1e-3) {
+          expect(maxAbsDiff(fromOrthogonalFactor3(factor), m)).toBeLessThan(1e-9);
+        }
+      }),
+      { numRuns: 500 }
+    );
+  });
+
+  it('handles gimbal lock at pitch = ±90°', () => {
+    for (const pitch of [Math.PI / 2, -Math.PI / 2]) {
+      for (const reflect of [false, true]) {
+        const m = fromEuler([0.7, pitch, -0.4], reflect);
+        const factor = toOrthogonalFactor3(m);
+        expect(factor.reflect).toBe(reflect);
+        expect(factor.euler[1]).toBeCloseTo(pitch, 12);
+        // Yaw and roll share an axis, so roll is folded into yaw
+        expect(factor.euler[2]).toBe(0);
+        expect(factor.euler[0]).toBeCloseTo(pitch > 0 ? 0.7 + 0.4 : 0.7 - 0.4, 12);
+        expect(maxAbsDiff(fromOrthogonalFactor3(factor), m)).toBeLessThan(1e-12);
+      }
+    }
+  });
+
+  it('splits a mirror off as F = MIRROR_Z applied first', () => {
+    const euler: EulerAngles = [0.3, -0.5, 1.1];
+    const mirrored = fromEuler(euler, true);
+    expect(determinantN(mirrored)).toBeCloseTo(-1, 12);
+    expect(maxAbsDiff(mirrored, multiplyN(fromEuler(euler), MIRROR_Z))).toBeLessThan(1e-15);
+    const factor = toOrthogonalFactor3(mirrored);
+    factor.euler.forEach((val, i) => expect(val).toBeCloseTo(euler[i], 12));
+    expect(toEuler(fromEuler(euler))).toEqual(factor.euler);
+  });
+});
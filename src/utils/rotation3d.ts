@@ -0,0 +1,53 @@
+import { Matrix, determinantN } from './matrix';
+
+export type Vec3 = [number, number, number];
+
+// Z-Y-X (yaw, pitch, roll) Euler angles: R = Rz(yaw) * Ry(pitch) * Rx(roll)
+export type EulerAngles = [number, number, number];
+
+// A 3x3 orthogonal matrix written as R(euler) * F^reflect, where F mirrors
+// across the xy-plane. The mirror is applied first, then the rotation.
+export interface OrthogonalFactor3 {
+  euler: EulerAngles;
+  reflect: boolean;
+}
+
+export const MIRROR_Z: Matrix = [[1, 0, 0], [0, 1, 0], [0, 0, -1]];
+
+export function fromEuler([yaw, pitch, roll]: EulerAngles, reflect = false): Matrix {
+  const cy = Math.cos(yaw), sy = Math.sin(yaw);
+  const cp = Math.cos(pitch), sp = Math.sin(pitch);
+  const cr = Math.cos(roll), sr = Math.sin(roll);
+  const r: Matrix = [
+    [cy * cp, cy * sp * sr - sy * cr, cy * sp * cr + sy * sr],
+    [sy * cp, sy * sp * sr + cy * cr, sy * sp * cr - cy * sr],
+    [-sp, cp * sr, cp * cr]
+  ];
+  // Right-multiplying by F negates the third column
+  return reflect ? r.map(row => [row[0], row[1], -row[2]]) : r;
+}
+
+export function toEuler(rotation: Matrix): EulerAngles {
+  const sp = Math.max(-1, Math.min(1, -rotation[2][0]));
+  const pitch = Math.asin(sp);
+  if (Math.abs(sp) > 1 - 1e-9) {
+    // Gimbal lock: yaw and roll share an axis, so put everything into yaw
+    return [Math.atan2(-rotation[0][1], rotation[1][1]), pitch, 0];
+  }
+  return [
+    Math.atan2(rotation[1][0], rotation[0][0]),
+    pitch,
+    Math.atan2(rotation[2][1], rotation[2][2])
+  ];
+}
+
+export function toOrthogonalFactor3(matrix: Matrix): OrthogonalFactor3 {
+  const reflect = determinantN(matrix) < 0;
+  // Undo the mirror (F is its own inverse) before reading the rotation angles
+  const rotation = reflect ? matrix.map(row => [row[0], row[1], -row[2]]) : matrix;
+  return { euler: toEuler(rotation), reflect };
+}
+
+export function fromOrthogonalFactor3(factor: OrthogonalFactor3): Matrix {
+  return fromEuler(factor.euler, factor.reflect);
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { computeSVD } from './matrix';
+import { DEFAULT_OVERLAYS } from './overlays';
+import { DEFAULT_VIEWPORT } from './viewport';
+import { SHAPES } from './shapes';
+import {
+  SessionError,
+  createDefaultSession,
+  parseSession,
+  serializeSession,
+  sessionFromHash,
+  sessionFromJSON,
+  sessionToHash,
+  sessionToJSON
+} from './session';
+
+// A serialized default session with some fields changed or removed
+const stored = (changes: Record<string, unknown> = {}, view: Record<string, unknown> = {}) => {
+  const data = JSON.parse(JSON.stringify(serializeSession(createDefaultSession())));
+  return { ...data, ...changes, view: { ...data.view, ...view } };
+};
+
+const without = (obj: Record<string, unknown>, ...keys: string[]) =>
+  Object.fromEntries(Object.entries(obj).filter(([key]) => !keys.includes(key)));
+
+describe('parseSession', () => {
+  it('fills in fields added after version 1', () => {
+    const data = stored();
+    const session = parseSession({
+      ...without(data, 'shape', 'chain', 'translation'),
+      view: { pipeline: 'morph' }
+    });
+    expect(session.shape).toBe(createDefaultSession().shape);
+    expect(session.chain).toEqual(createDefaultSession().chain);
+    expect(session.translation).toEqual([0, 0]);
+    expect(session.view).toEqual({
+      workspace: 'matrix',
+      pipeline: 'morph',
+      overlays: DEFAULT_OVERLAYS,
+      decomposition: 'svd',
+      viewport: DEFAULT_VIEWPORT,
+      continuity: false,
+      affine: false,
+      palette: 'standard'
+    });
+  });
+
+  it('merges partial toggles with the defaults', () => {
+    const session = parseSession(stored({}, { overlays: { determinant: true } }));
+    expect(session.view.overlays).toEqual({ ...DEFAULT_OVERLAYS, determinant: true });
+  });
+
+  it('names the field that is wrong', () => {
+    const cases: [unknown, string][] = [
+      [[], 'Expected a JSON object'],
+      [stored({ version: 2 }), 'version 2 was written by a newer release'],
+      [stored({ version: 0 }), 'version: expected 1'],
+      [stored({ dimension: 4 }), 'dimension: expected 2 or 3'],
+      [stored({ matrixA: [[1, 2], [3]] }), 'matrixA: expected a 2×2 array'],
+      [stored({}, { pipeline: 'slideshow' }), 'view.pipeline'],
+      [stored({}, { workspace: 'pca' }), 'view.workspace'],
+      [stored({}, { decomposition: 'qr' }), 'view.decomposition: expected one of svd, eigen, polar'],
+      [stored({}, { palette: 'neon' }), 'view.palette'],
+      [stored({}, { overlays: { ellipse: 'yes' } }), 'view.overlays.ellipse: expected true or false'],
+      [stored({ chain: [] }), 'chain: expected 1 to'],
+      [stored({ shape: { id: 'custom', name: 'x', parts: [{ kind: 'blob', points: [] }] } }), 'shape.parts[0].kind'],
+      [stored({ translation: [1] }), 'translation: expected 2 finite numbers']
+    ];
+    cases.forEach(([data, message]) => {
+      expect(() => parseSession(data)).toThrow(SessionError);
+      expect(() => parseSession(data)).toThrow(message);
+    });
+  });
+
+  it('rejects factors that are not an SVD of the saved matrix', () => {
+    const { svd } = stored();
+    expect(() => parseSession(stored({ svd: { ...svd, s: [svd.s[0], -1] } }))).toThrow('svd.s: singular values must be non-negative');
+    expect(() => parseSession(stored({ svd: { ...svd, u: [[1, 1], [0, 1]] } }))).toThrow('svd.u: expected an orthogonal matrix');
+    expect(() => parseSession(stored({ svd: { ...svd, vt: [[2, 0], [0, 1]] } }))).toThrow('svd.vt: expected an orthogonal matrix');
+    // Valid factors, but of a different matrix
+    const other = computeSVD([[3, 0], [0, 1]]);
+    expect(() => parseSession(stored({ svd: { u: other.u, s: other.s, vt: other.vt } }))).toThrow("svd: U·Σ·Vᵀ doesn't reproduce matrixA");
+    expect(() => parseSession(stored({ matrixA3: [[1, 0, 0], [0, 1, 0], [0, 0, 1]] }))).toThrow('svd3');
+  });
+
+  it('keeps the factors it was given when they are valid', () => {
+    // Flipping u₁ and v₁ together is still an SVD of the same A
+    const { svd } = stored();
+    const flip = (m: number[][], col: boolean) => m.map((row, i) => row.map((val, j) => ((col ? j : i) === 0 ? -val : val)));
+    const session = parseSession(stored({ svd: { u: flip(svd.u, true), s: svd.s, vt: flip(svd.vt, false) } }));
+    expect(session.svd.u[0][0]).toBeCloseTo(-svd.u[0][0], 15);
+  });
+});
+
+describe('round-trip', () => {
+  const session = createDefaultSession();
+  session.shape = SHAPES[SHAPES.length - 1];
+  session.translation = [0.5, -1];
+  session.view = { ...session.view, pipeline: 'morph', palette: 'colorblind', affine: true };
+
+  it('survives JSON', () => {
+    expect(sessionFromJSON(sessionToJSON(session))).toEqual(session);
+  });
+
+  it('survives the URL hash, including non-ASCII shape names', () => {
+    const custom = { ...session, shape: { id: 'drawn', name: 'Σ shape ✓', parts: [{ kind: 'polyline' as const, points: [[0, 0], [1, 1]] as [number, number][] }] } };
+    expect(sessionFromHash(sessionToHash(custom))).toEqual(custom);
+  });
+
+  it('reports hashes without a session and broken ones', () => {
+    expect(sessionFromHash('#other=1')).toBeNull();
+    expect(() => sessionFromHash('#s=%%%')).toThrow('invalid encoding');
+    expect(() => sessionFromJSON('{')).toThrow('Invalid JSON');
+  });
+});
@@ -0,0 +1,299 @@
+import {
+  Matrix,
+  Matrix2x2,
+  SVDResult,
+  SVDResultN,
+  computeSVD,
+  computeSVDN,
+  identityN,
+  multiplyN,
+  reconstructMatrixN,
+  transposeN
+} from './matrix';
+import { Point, Shape, ShapePart, SHAPES, DEFAULT_SHAPE } from './shapes';
+import { OverlayOptions, DEFAULT_OVERLAYS } from './overlays';
+import { ViewportOptions, DEFAULT_VIEWPORT } from './viewport';
+import { DecompositionMode, DECOMPOSITION_MODES } from './pipelines';
+import { MAX_FACTORS } from './composition';
+import { PaletteId, PALETTE_IDS, DEFAULT_PALETTE, isPalette } from './palette';
+
+// Bump when the format changes; older versions must keep loading
+export const SESSION_VERSION = 1;
+
+export interface Session {
+  version: typeof SESSION_VERSION;
+  dimension: 2 | 3;
+  matrixA: Matrix2x2;
+  svd: SVDResult;
+  matrixA3: Matrix;
+  svd3: SVDResultN;
+  shape: Shape;
+  // Composition mode factors, applied in order
+  chain: Matrix2x2[];
+  // Affine mode: x ↦ Ax + translation
+  translation: Point;
+  view: {
+    workspace: 'matrix' | 'chain';
+    pipeline: 'panels' | 'morph';
+    overlays: OverlayOptions;
+    decomposition: DecompositionMode;
+    viewport: ViewportOptions;
+    // Re-decompose A near the previous factors (computeSVDContinuous)
+    continuity: boolean;
+    affine: boolean;
+    palette: PaletteId;
+  };
+}
+
+export function createDefaultSession(): Session {
+  const matrixA: Matrix2x2 = [[1.5, 0.5], [0.5, 1.5]];
+  const matrixA3: Matrix = [[1.5, 0.5, 0.2], [0.5, 1.2, 0], [0, 0.3, 0.8]];
+  return {
+    version: SESSION_VERSION,
+    dimension: 2,
+    matrixA,
+    svd: computeSVD(matrixA),
+    matrixA3,
+    svd3: computeSVDN(matrixA3),
+    shape: DEFAULT_SHAPE,
+    chain: [[[1, 1], [0, 1]], [[0.8, -0.6], [0.6, 0.8]]],
+    translation: [0, 0],
+    view: { workspace: 'matrix', pipeline: 'panels', overlays: DEFAULT_OVERLAYS, decomposition: 'svd', viewport: DEFAULT_VIEWPORT, continuity: false, affine: false, palette: DEFAULT_PALETTE }
+  };
+}
+
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+// --- Validation ---
+
+const isFiniteNumber = (val: unknown): val is number => typeof val === 'number' && Number.isFinite(val);
+
+function readMatrix(val: unknown, n: number, field: string): Matrix {
+  if (
+    !Array.isArray(val) ||
+    val.length !== n ||
+    !val.every(row => Array.isArray(row) && row.length === n && row.every(isFiniteNumber))
+  ) {
+    throw new SessionError(`${field}: expected a ${n}×${n} array of finite numbers`);
+  }
+  return val.map(row => [...row]);
+}
+
+function readVector(val: unknown, n: number, field: string): number[] {
+  if (!Array.isArray(val) || val.length !== n || !val.every(isFiniteNumber)) {
+    throw new SessionError(`${field}: expected ${n} finite numbers`);
+  }
+  return [...val];
+}
+
+// Stored factors are rounding-exact, so anything past this was edited by hand
+// or belongs to another matrix
+const FACTOR_TOLERANCE = 1e-6;
+
+const maxAbsDiff = (a: Matrix, b: Matrix) =>
+  Math.max(0, ...a.flatMap((row, i) => row.map((val, j) => Math.abs(val - b[i][j]))));
+
+// The factors must be an SVD of the matrix they're saved with, or the
+// pipeline would contradict A
+function readSVD(val: unknown, matrix: Matrix, field: string, matrixField: string): SVDResultN {
+  const n = matrix.length;
+  if (!val || typeof val !== 'object') throw new SessionError(`${field}: expected an object with u, s and vt`);
+  const { u, s, vt } = val as Record<string, unknown>;
+  const result = {
+    u: readMatrix(u, n, `${field}.u`),
+    s: readVector(s, n, `${field}.s`),
+    vt: readMatrix(vt, n, `${field}.vt`)
+  };
+  if (result.s.some(sigma => sigma < 0)) throw new SessionError(`${field}.s: singular values must be non-negative`);
+  const identity = identityN(n);
+  if (maxAbsDiff(multiplyN(transposeN(result.u), result.u), identity) > FACTOR_TOLERANCE) {
+    throw new SessionError(`${field}.u: expected an orthogonal matrix`);
+  }
+  if (maxAbsDiff(multiplyN(result.vt, transposeN(result.vt)), identity) > FACTOR_TOLERANCE) {
+    throw new SessionError(`${field}.vt: expected an orthogonal matrix`);
+  }
+  const scale = Math.max(1, ...matrix.flat().map(Math.abs));
+  if (maxAbsDiff(reconstructMatrixN(result.u, result.s, result.vt), matrix) > FACTOR_TOLERANCE * scale) {
+    throw new SessionError(`${field}: U·Σ·Vᵀ doesn't reproduce ${matrixField}`);
+  }
+  return { ...result, v: transposeN(result.vt) };
+}
+
+// Missing keys fall back to the defaults so older links keep working
+function readToggles<T extends { [K in keyof T]: boolean }>(val: unknown, defaults: T, field: string): T {
+  if (val === undefined) return defaults;
+  if (!val || typeof val !== 'object') throw new SessionError(`${field}: expected an object`);
+  const obj = val as Record<string, unknown>;
+  const toggles = { ...defaults };
+  for (const key of Object.keys(defaults) as (keyof T & string)[]) {
+    if (obj[key] === undefined) continue;
+    if (typeof obj[key] !== 'boolean') throw new SessionError(`${field}.${key}: expected true or false`);
+    toggles[key] = obj[key] as T[keyof T & string];
+  }
+  return toggles;
+}
+
+function readChain(val: unknown): Matrix2x2[] {
+  if (!Array.isArray(val) || val.length === 0 || val.length > MAX_FACTORS) {
+    throw new SessionError(`chain: expected 1 to ${MAX_FACTORS} matrices`);
+  }
+  return val.map((factor, i) => readMatrix(factor, 2, `chain[${i}]`) as Matrix2x2);
+}
+
+function readShape(val: unknown): Shape {
+  if (!val || typeof val !== 'object') throw new SessionError('shape: expected an object');
+  const { id, name, parts } = val as Record<string, unknown>;
+  // Library shapes are stored by id only
+  const builtIn = SHAPES.find(shape => shape.id === id);
+  if (builtIn) return builtIn;
+  if (typeof id !== 'string' || typeof name !== 'string' || !Array.isArray(parts)) {
+    throw new SessionError('shape: expected a library id or {id, name, parts}');
+  }
+  const readPart = (part: unknown, i: number): ShapePart => {
+    const { kind, points, color } = (part ?? {}) as Record<string, unknown>;
+    if (kind !== 'polygon' && kind !== 'polyline' && kind !== 'points') {
+      throw new SessionError(`shape.parts[${i}].kind: expected polygon, polyline or points`);
+    }
+    if (!Array.isArray(points) || !points.every(p => Array.isArray(p) && p.length === 2 && p.every(isFiniteNumber))) {
+      throw new SessionError(`shape.parts[${i}].points: expected an array of [x, y] pairs`);
+    }
+    if (color !== undefined && typeof color !== 'string') {
+      throw new SessionError(`shape.parts[${i}].color: expected a string`);
+    }
+    return { kind, points: points.map(p => [p[0], p[1]] as Point), ...(typeof color === 'string' ? { color } : {}) };
+  };
+  return { id, name, parts: parts.map(readPart) };
+}
+
+export function parseSession(data: unknown): Session {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new SessionError('Expected a JSON object');
+  }
+  const obj = data as Record<string, unknown>;
+  if (obj.version !== SESSION_VERSION) {
+    throw new SessionError(
+      typeof obj.version === 'number' && obj.version > SESSION_VERSION
+        ? `version ${obj.version} was written by a newer release of the visualizer`
+        : `version: expected ${SESSION_VERSION}`
+    );
+  }
+  if (obj.dimension !== 2 && obj.dimension !== 3) throw new SessionError('dimension: expected 2 or 3');
+  const view = (obj.view ?? {}) as Record<string, unknown>;
+  if (view.pipeline !== 'panels' && view.pipeline !== 'morph') {
+    throw new SessionError('view.pipeline: expected "panels" or "morph"');
+  }
+  // Added after version 1 shipped, so these may be missing
+  const workspace = view.workspace ?? 'matrix';
+  if (workspace !== 'matrix' && workspace !== 'chain') {
+    throw new SessionError('view.workspace: expected "matrix" or "chain"');
+  }
+  const decomposition = view.decomposition ?? 'svd';
+  if (!DECOMPOSITION_MODES.includes(decomposition as DecompositionMode)) {
+    throw new SessionError(`view.decomposition: expected one of ${DECOMPOSITION_MODES.join(', ')}`);
+  }
+  const continuity = view.continuity ?? false;
+  if (typeof continuity !== 'boolean') throw new SessionError('view.continuity: expected true or false');
+  const affine = view.affine ?? false;
+  if (typeof affine !== 'boolean') throw new SessionError('view.affine: expected true or false');
+  const palette = view.palette ?? DEFAULT_PALETTE;
+  if (!isPalette(palette)) throw new SessionError(`view.palette: expected one of ${PALETTE_IDS.join(', ')}`);
+
+  const matrixA = readMatrix(obj.matrixA, 2, 'matrixA') as Matrix2x2;
+  const matrixA3 = readMatrix(obj.matrixA3, 3, 'matrixA3');
+
+  return {
+    version: SESSION_VERSION,
+    dimension: obj.dimension,
+    matrixA,
+    svd: readSVD(obj.svd, matrixA, 'svd', 'matrixA') as SVDResult,
+    matrixA3,
+    svd3: readSVD(obj.svd3, matrixA3, 'svd3', 'matrixA3'),
+    shape: readShape(obj.shape ?? DEFAULT_SHAPE),
+    chain: obj.chain === undefined ? createDefaultSession().chain : readChain(obj.chain),
+    translation: obj.translation === undefined ? [0, 0] : readVector(obj.translation, 2, 'translation') as Point,
+    view: {
+      workspace,
+      pipeline: view.pipeline,
+      overlays: readToggles(view.overlays, DEFAULT_OVERLAYS, 'view.overlays'),
+      decomposition: decomposition as DecompositionMode,
+      viewport: readToggles(view.viewport, DEFAULT_VIEWPORT, 'view.viewport'),
+      continuity,
+      affine,
+      palette
+    }
+  };
+}
+
+// --- Serialization ---
+
+export function serializeSession(session: Session): object {
+  const { shape } = session;
+  const isBuiltIn = SHAPES.some(builtIn => builtIn === shape);
+  // v is implied by vt, so it's left out
+  const svd = ({ u, s, vt }: SVDResultN) => ({ u, s, vt });
+  return {
+    version: session.version,
+    dimension: session.dimension,
+    matrixA: session.matrixA,
+    svd: svd(session.svd),
+    matrixA3: session.matrixA3,
+    svd3: svd(session.svd3),
+    shape: isBuiltIn ? { id: shape.id } : shape,
+    chain: session.chain,
+    translation: session.translation,
+    view: session.view
+  };
+}
+
+export function sessionToJSON(session: Session): string {
+  return JSON.stringify(serializeSession(session), null, 2);
+}
+
+export function sessionFromJSON(text: string): Session {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new SessionError(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return parseSession(data);
+}
+
+// --- URL hash ---
+
+const HASH_KEY = 's';
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+};
+
+export function sessionToHash(session: Session): string {
+  return `#${HASH_KEY}=${toBase64Url(JSON.stringify(serializeSession(session)))}`;
+}
+
+// Returns null when the hash holds no session at all
+export function sessionFromHash(hash: string): Session | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(HASH_KEY);
+  if (!encoded) return null;
+  let text: string;
+  try {
+    text = fromBase64Url(encoded);
+  } catch {
+    throw new SessionError('The link is corrupted (invalid encoding)');
+  }
+  return sessionFromJSON(text);
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_CLOUD_POINTS, parsePointCloud } from './shapes';
+
+describe('parsePointCloud', () => {
+  it('reads CSV with or without a header', () => {
+    expect(parsePointCloud("1,2\n3,4")).toEqual([[1, 2], [3, 4]]);
+    expect(parsePointCloud("x,y\n1,2\n-3.5,4e-1")).toEqual([[1, 2], [-3.5, 0.4]]);
+  });
+
+  it('accepts semicolons, tabs and spaces as separators', () => {
+    expect(parsePointCloud("1;2\n3\t4\n5   6\n7, 8")).toEqual([[1, 2], [3, 4], [5, 6], [7, 8]]);
+  });
+
+  it('ignores a byte-order mark, CRLF line ends and blank lines', () => {
+    expect(parsePointCloud("\uFEFFx,y\r\n1,2\r\n\r\n3,4\r\n")).toEqual([[1, 2], [3, 4]]);
+  });
+
+  it('reads JSON pairs and {x, y} objects', () => {
+    expect(parsePointCloud("[[1, 2], [3, 4]]")).toEqual([[1, 2], [3, 4]]);
+    expect(parsePointCloud('[{"x": 1, "y": 2}, {"x": "3", "y": 4, "label": "a"}]')).toEqual([[1, 2], [3, 4]]);
+  });
+
+  it('says what is wrong', () => {
+    const cases: [string, string][] = [
+      ["", 'The file is empty'],
+      ["  \n ", 'The file is empty'],
+      ["x,y", 'No points found'],
+      ["[]", 'No points found'],
+      ["1,2\n3,4,5", 'Line 2: expected two columns'],
+      ["x,y\n1,2\n3", 'Line 3: expected two columns'],
+      ["1,2\n3,abc", 'Line 2: expected two finite numbers'],
+      ["1,Infinity", 'Line 1: expected two finite numbers'],
+      ["[[1, 2], [3, null]]", 'Point 2: expected two finite numbers'],
+      ["[[1, 2, 3]]", 'Point 1: expected [x, y]'],
+      ['{"x": 1, "y": 2}', 'JSON must be an array of points'],
+      ["[[1, 2]", 'Invalid JSON']
+    ];
+    cases.forEach(([text, message]) => expect(() => parsePointCloud(text)).toThrow(message));
+  });
+
+  it('caps the number of points', () => {
+    const rows = (n: number) => Array.from({ length: n }, (_, i) => `${i},${-i}`).join("\n");
+    expect(parsePointCloud(rows(MAX_CLOUD_POINTS))).toHaveLength(MAX_CLOUD_POINTS);
+    expect(() => parsePointCloud(rows(MAX_CLOUD_POINTS + 1))).toThrow(`the limit is ${MAX_CLOUD_POINTS}`);
+  });
+});
@@ -0,0 +1,159 @@
+export type Point = [number, number];
+
+export interface ShapePart {
+  kind: 'polygon' | 'polyline' | 'points';
+  points: Point[];
+  // Overrides the stage colour, e.g. to tell basis vectors apart
+  color?: string;
+}
+
+export interface Shape {
+  id: string;
+  name: string;
+  parts: ShapePart[];
+}
+
+const circlePoints = (cx: number, cy: number, r: number, segments = 64, from = 0, to = 2 * Math.PI): Point[] => {
+  const closed = to - from >= 2 * Math.PI;
+  const count = closed ? segments : segments + 1;
+  return Array.from({ length: count }, (_, i) => {
+    const t = from + ((to - from) * i) / segments;
+    return [cx + r * Math.cos(t), cy + r * Math.sin(t)] as Point;
+  });
+};
+
+const arrow = (to: Point, color: string): ShapePart[] => {
+  const [x, y] = to;
+  const len = Math.hypot(x, y);
+  const [ux, uy] = [x / len, y / len];
+  const head = 0.15;
+  return [
+    { kind: 'polyline', points: [[0, 0], to], color },
+    {
+      kind: 'polygon',
+      points: [
+        to,
+        [x - head * ux - 0.5 * head * uy, y - head * uy + 0.5 * head * ux],
+        [x - head * ux + 0.5 * head * uy, y - head * uy - 0.5 * head * ux]
+      ],
+      color
+    }
+  ];
+};
+
+const gridLines = (): ShapePart[] => {
+  const ticks = [-1, -0.5, 0, 0.5, 1];
+  return [
+    ...ticks.map(x => ({ kind: 'polyline' as const, points: [[x, -1], [x, 1]] as Point[] })),
+    ...ticks.map(y => ({ kind: 'polyline' as const, points: [[-1, y], [1, y]] as Point[] }))
+  ];
+};
+
+export const SHAPES: Shape[] = [
+  {
+    id: 'f',
+    name: 'F',
+    parts: [
+      // Vertical bar
+      { kind: 'polygon', points: [[-0.5, -1], [-0.5, 1], [0, 1], [0, -1]] },
+      // Top horizontal bar
+      { kind: 'polygon', points: [[0, 0.7], [0.8, 0.7], [0.8, 1], [0, 1]] },
+      // Middle horizontal bar
+      { kind: 'polygon', points: [[0, 0], [0.5, 0], [0.5, 0.3], [0, 0.3]] }
+    ]
+  },
+  {
+    id: 'square',
+    name: 'Unit Square',
+    parts: [{ kind: 'polygon', points: [[0, 0], [1, 0], [1, 1], [0, 1]] }]
+  },
+  {
+    id: 'circle',
+    name: 'Unit Circle',
+    parts: [{ kind: 'polygon', points: circlePoints(0, 0, 1) }]
+  },
+  {
+    id: 'grid',
+    name: 'Grid',
+    parts: gridLines()
+  },
+  {
+    id: 'basis',
+    name: 'Basis Arrows',
+    parts: [...arrow([1, 0], "#ef4444"), ...arrow([0, 1], "#22c55e")]
+  },
+  {
+    id: 'smiley',
+    name: 'Smiley',
+    parts: [
+      { kind: 'polygon', points: circlePoints(0, 0, 1) },
+      // One open eye and one wink, so mirror images are easy to spot
+      { kind: 'polygon', points: circlePoints(-0.35, 0.3, 0.12, 24) },
+      { kind: 'polyline', points: [[0.2, 0.3], [0.5, 0.3]] },
+      { kind: 'polyline', points: circlePoints(0, 0, 0.55, 24, -Math.PI * 0.85, -Math.PI * 0.15) }
+    ]
+  }
+];
+
+export const DEFAULT_SHAPE = SHAPES[0];
+
+export function customPolygon(points: Point[]): Shape {
+  // Fewer than three vertices can't enclose anything yet
+  const kind = points.length >= 3 ? 'polygon' : points.length === 2 ? 'polyline' : 'points';
+  return { id: 'custom', name: 'Custom Polygon', parts: [{ kind, points }] };
+}
+
+export function pointCloud(points: Point[], name = 'Point Cloud'): Shape {
+  return { id: 'cloud', name, parts: [{ kind: 'points', points }] };
+}
+
+export const MAX_CLOUD_POINTS = 5000;
+
+const toPoint = (x: unknown, y: unknown, where: string): Point => {
+  const px = typeof x === 'string' ? Number(x.trim()) : x;
+  const py = typeof y === 'string' ? Number(y.trim()) : y;
+  if (typeof px !== 'number' || typeof py !== 'number' || !Number.isFinite(px) || !Number.isFinite(py)) {
+    throw new Error(`${where}: expected two finite numbers`);
+  }
+  return [px, py];
+};
+
+// Accepts a JSON array of [x, y] pairs or {x, y} objects, or CSV/TSV text
+// with one "x,y" pair per line (an optional header row is skipped).
+export function parsePointCloud(text: string): Point[] {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('The file is empty');
+
+  let points: Point[];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Invalid JSON');
+    }
+    if (!Array.isArray(data)) throw new Error('JSON must be an array of points');
+    points = data.map((entry, i) => {
+      if (Array.isArray(entry) && entry.length === 2) return toPoint(entry[0], entry[1], `Point ${i + 1}`);
+      if (entry && typeof entry === 'object' && 'x' in entry && 'y' in entry) {
+        return toPoint(entry.x, entry.y, `Point ${i + 1}`);
+      }
+      throw new Error(`Point ${i + 1}: expected [x, y] or {"x": ..., "y": ...}`);
+    });
+  } else {
+    const lines = trimmed.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const rows = lines.map(line => line.split(/[,;\t ]+/));
+    // Skip a header row such as "x,y"
+    const start = rows[0].some(cell => Number.isNaN(Number(cell))) ? 1 : 0;
+    points = rows.slice(start).map((cells, i) => {
+      if (cells.length !== 2) throw new Error(`Line ${i + start + 1}: expected two columns`);
+      return toPoint(cells[0], cells[1], `Line ${i + start + 1}`);
+    });
+  }
+
+  if (points.length === 0) throw new Error('No points found');
+  if (points.length > MAX_CLOUD_POINTS) {
+    throw new Error(`Too many points (${points.length}); the limit is ${MAX_CLOUD_POINTS}`);
+  }
+  return points;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import * as math from 'mathjs';
+import { Matrix2x2, computeSVD, fromAngle, multiply } from './matrix';
+import { toExact, toPiFraction, decompositionSnippet, SNIPPET_FORMATS } from './snippets';
+
+describe('exact forms', () => {
+  it('recognizes fractions, square roots and multiples of π', () => {
+    expect(toExact(0.5)).toEqual({ negative: false, numerator: 1, radicand: 1, denominator: 2 });
+    expect(toExact(-Math.SQRT1_2)).toEqual({ negative: true, numerator: 1, radicand: 2, denominator: 2 });
+    expect(toExact(3 * Math.sqrt(3) / 4)).toEqual({ negative: false, numerator: 3, radicand: 3, denominator: 4 });
+    expect(toExact(0.123456789)).toBeNull();
+    expect(toPiFraction(Math.PI / 4)).toEqual([1, 4]);
+    expect(toPiFraction(-2 * Math.PI / 3)).toEqual([-2, 3]);
+  });
+
+  it('writes exact entries in each syntax', () => {
+    // U = R(π/4), Σ = diag(2, 1), V = I
+    const a = multiply(fromAngle(Math.PI / 4), [[2, 0], [0, 1]]);
+    const svd = computeSVD(a);
+    const options = { precision: 4, exact: true };
+    expect(decompositionSnippet('latex', a, svd, options)).toContain("\\frac{\\sqrt{2}}{2}");
+    expect(decompositionSnippet('numpy', a, svd, options)).toContain("np.sqrt(2)/2");
+    expect(decompositionSnippet('matlab', a, svd, options)).toContain("-sqrt(2)/2");
+    expect(decompositionSnippet('latex', a, svd, options)).toContain("R(π/4)");
+  });
+
+  it('falls back to the chosen precision', () => {
+    const a: Matrix2x2 = [[1.23456, 0], [0, 1]];
+    const snippet = decompositionSnippet('numpy', a, computeSVD(a), { precision: 2, exact: false });
+    expect(snippet).toContain("[[1.23, 0], [0, 1]]");
+  });
+});
+
+describe('mathjs snippet', () => {
+  const run = (a: Matrix2x2, options: { precision: number; exact: boolean }, svd = computeSVD(a)) => {
+    const code = decompositionSnippet('mathjs', a, svd, options)
+      .replace(/^import .*$/m, '')
+      .replace(/console\.assert\((.*)\);/g, 'if (!($1)) throw new Error("check failed");');
+    new Function('math', code)(math);
+  };
+
+  it('runs and passes its own checks', () => {
+    for (const a of [[[1.5, 0.5], [0.5, 1.5]], [[2, 1], [-0.5, 1]], [[1, 2], [0.5, 1]]] as Matrix2x2[]) {
+      expect(() => run(a, { precision: 12, exact: true })).not.toThrow();
+    }
+  });
+
+  it('passes its checks with rounded factors at every precision', () => {
+    const matrices: Matrix2x2[] = [[[1.3, 0.7], [0.2, 0.9]], [[12.5, -3.1], [4.2, 7.7]], [[1, 2], [2, 4]]];
+    for (const a of matrices) {
+      for (const precision of [1, 2, 4, 8]) {
+        expect(() => run(a, { precision, exact: true })).not.toThrow();
+        expect(() => run(a, { precision, exact: false })).not.toThrow();
+      }
+    }
+  });
+
+  it('fails when a printed factor is off by a few units in the last digit', () => {
+    // The bound is 2·(1 + σ₁) units, so 5 units of σ only show when σ₁ < 1.5
+    const a: Matrix2x2 = [[1.3, 0.7], [0.2, 0.9]];
+    const half: Matrix2x2 = [[0.65, 0.35], [0.1, 0.45]];
+    for (const precision of [2, 4, 6]) {
+      const unit = 10 ** -precision;
+      const options = { precision, exact: false };
+      const svd = computeSVD(a);
+      const u: Matrix2x2 = [[svd.u[0][0] + 5 * unit, svd.u[0][1]], svd.u[1]];
+      expect(() => run(a, options, { ...svd, u })).toThrow("check failed");
+      const small = computeSVD(half);
+      const s: [number, number] = [small.s[0] + 5 * unit, small.s[1]];
+      expect(() => run(half, options, { ...small, s })).toThrow("check failed");
+    }
+  });
+
+  it('sizes the tolerance from the rounding error', () => {
+    const a: Matrix2x2 = [[1.3, 0.7], [0.2, 0.9]];
+    // 4 · ½·10⁻⁴ · (1 + σ₁) with σ₁ ≈ 1.62, rounded up
+    expect(decompositionSnippet('numpy', a, computeSVD(a), { precision: 4, exact: true })).toContain("A, rtol=0, atol=0.00053)");
+    // Past 7 digits the √λ floor takes over
+    expect(decompositionSnippet('julia', a, computeSVD(a), { precision: 12, exact: true })).toContain("atol=2.7e-7)");
+  });
+
+  it('covers every format', () => {
+    const a: Matrix2x2 = [[1, 2], [3, 4]];
+    SNIPPET_FORMATS.forEach(format => expect(decompositionSnippet(format, a, computeSVD(a), { precision: 4, exact: false })).toContain("4"));
+  });
+});
@@ -0,0 +1,222 @@
+import { Matrix2x2, SVDResult, toOrthogonalFactor } from './matrix';
+
+// Copy-able renderings of the current A = U Σ V^T for papers and code
+
+export type SnippetFormat = 'latex' | 'numpy' | 'matlab' | 'julia' | 'mathjs';
+
+export const SNIPPET_FORMATS: SnippetFormat[] = ['latex', 'numpy', 'matlab', 'julia', 'mathjs'];
+
+export const SNIPPET_LABELS: Record<SnippetFormat, string> = {
+  latex: "LaTeX",
+  numpy: "NumPy",
+  matlab: "MATLAB",
+  julia: "Julia",
+  mathjs: "mathjs",
+};
+
+export interface SnippetOptions {
+  precision: number;
+  // Write recognizable values as fractions, square roots and multiples of π
+  exact: boolean;
+}
+
+// --- Exact forms ---
+
+// ±(numerator · √radicand) / denominator, in lowest terms
+export interface ExactValue {
+  negative: boolean;
+  numerator: number;
+  radicand: number;
+  denominator: number;
+}
+
+const RADICANDS = [1, 2, 3, 5, 6];
+const MAX_DENOMINATOR = 12;
+const MAX_NUMERATOR = 100;
+// Values within this relative distance of an exact form are taken as it
+const EXACT_TOLERANCE = 1e-9;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+export function toExact(val: number): ExactValue | null {
+  if (!Number.isFinite(val)) return null;
+  if (Math.abs(val) < EXACT_TOLERANCE) return { negative: false, numerator: 0, radicand: 1, denominator: 1 };
+  // Simplest form first: plain fractions before roots, small denominators first
+  for (const radicand of RADICANDS) {
+    for (let denominator = 1; denominator <= MAX_DENOMINATOR; denominator++) {
+      const scaled = (Math.abs(val) * denominator) / Math.sqrt(radicand);
+      const numerator = Math.round(scaled);
+      if (numerator === 0 || numerator > MAX_NUMERATOR) continue;
+      if (Math.abs(scaled - numerator) <= EXACT_TOLERANCE * scaled) {
+        const common = gcd(numerator, denominator);
+        return { negative: val < 0, numerator: numerator / common, radicand, denominator: denominator / common };
+      }
+    }
+  }
+  return null;
+}
+
+// angle / π as a fraction, e.g. π/4 -> [1, 4]
+export function toPiFraction(angle: number): [number, number] | null {
+  const exact = toExact(angle / Math.PI);
+  if (!exact || exact.radicand !== 1) return null;
+  return [exact.negative ? -exact.numerator : exact.numerator, exact.denominator];
+}
+
+const exactLatex = ({ negative, numerator, radicand, denominator }: ExactValue) => {
+  if (numerator === 0) return "0";
+  const root = radicand === 1 ? "" : `\\sqrt{${radicand}}`;
+  const top = numerator === 1 && root ? root : `${numerator}${root}`;
+  return `${negative ? "-" : ""}${denominator === 1 ? top : `\\frac{${top}}{${denominator}}`}`;
+};
+
+const exactCode = ({ negative, numerator, radicand, denominator }: ExactValue, sqrt: string) => {
+  if (numerator === 0) return "0";
+  const root = radicand === 1 ? "" : `${sqrt}(${radicand})`;
+  const top = !root ? String(numerator) : numerator === 1 ? root : `${numerator}*${root}`;
+  return `${negative ? "-" : ""}${denominator === 1 ? top : `${top}/${denominator}`}`;
+};
+
+const piText = ([k, q]: [number, number]) => {
+  if (k === 0) return "0";
+  const top = k === 1 ? "π" : k === -1 ? "-π" : `${k}π`;
+  return q === 1 ? top : `${top}/${q}`;
+};
+
+// --- Formatting ---
+
+const decimal = (val: number, precision: number) => {
+  const text = String(Number(val.toFixed(precision)));
+  return text === "-0" ? "0" : text;
+};
+
+const SQRT: Record<Exclude<SnippetFormat, 'latex'>, string> = {
+  numpy: "np.sqrt",
+  matlab: "sqrt",
+  julia: "sqrt",
+  mathjs: "Math.sqrt",
+};
+
+function formatValue(val: number, format: SnippetFormat, options: SnippetOptions): string {
+  const exact = options.exact ? toExact(val) : null;
+  if (format === 'latex') return exact ? exactLatex(exact) : val.toFixed(options.precision);
+  return exact ? exactCode(exact, SQRT[format]) : decimal(val, options.precision);
+}
+
+function formatMatrix(m: Matrix2x2, format: SnippetFormat, options: SnippetOptions): string {
+  const rows = m.map(row => row.map(val => formatValue(val, format, options)));
+  switch (format) {
+    case 'latex': return `\\begin{bmatrix} ${rows.map(row => row.join(" & ")).join(" \\\\ ")} \\end{bmatrix}`;
+    case 'numpy': return `np.array([${rows.map(row => `[${row.join(", ")}]`).join(", ")}])`;
+    case 'matlab': return `[${rows.map(row => row.join(", ")).join("; ")}]`;
+    case 'julia': return `[${rows.map(row => row.join(" ")).join("; ")}]`;
+    case 'mathjs': return `[${rows.map(row => `[${row.join(", ")}]`).join(", ")}]`;
+  }
+}
+
+function formatVector(v: number[], format: SnippetFormat, options: SnippetOptions): string {
+  const items = v.map(val => formatValue(val, format, options));
+  switch (format) {
+    case 'numpy': return `np.array([${items.join(", ")}])`;
+    case 'matlab': return `diag([${items.join(", ")}])`;
+    default: return `[${items.join(", ")}]`;
+  }
+}
+
+// Angle of each orthogonal factor, with its mirror flag, for the comments
+function factorAngles(svd: SVDResult): string {
+  const describe = (m: Matrix2x2, name: string) => {
+    const { angle, reflect } = toOrthogonalFactor(m);
+    const fraction = toPiFraction(angle);
+    const value = fraction ? piText(fraction) : `${(angle * 180 / Math.PI).toFixed(2)}°`;
+    return `${name} = R(${value})${reflect ? "·F" : ""}`;
+  };
+  const mirrored = toOrthogonalFactor(svd.u).reflect || toOrthogonalFactor(svd.vt).reflect;
+  return `${describe(svd.u, "U")}, ${describe(svd.vt, "Vᵀ")}${mirrored ? ", F = diag(1, -1)" : ""}`;
+}
+
+// Tolerance for the snippet's own checks. Each printed entry is off by at
+// most half a unit in the last place, h; through U, Σ, Vᵀ and A that moves
+// the rebuilt A, and the σ, by at most 4h·(1 + σ₁). The floor covers σ taken
+// as the square root of a computed eigenvalue, good to about √ε·σ₁.
+// Rounded up, so the printed bound never falls below the real one.
+function checkTolerance(svd: SVDResult, precision: number): string {
+  const tol = Math.max(4 * 0.5 * 10 ** -precision, 1e-7) * (1 + svd.s[0]);
+  const unit = 10 ** (Math.floor(Math.log10(tol)) - 1);
+  return String(Number((Math.ceil(tol / unit) * unit).toPrecision(2)));
+}
+
+export function decompositionSnippet(format: SnippetFormat, a: Matrix2x2, svd: SVDResult, options: SnippetOptions): string {
+  const m = (matrix: Matrix2x2) => formatMatrix(matrix, format, options);
+  const s = formatVector(svd.s, format, options);
+  const sigma: Matrix2x2 = [[svd.s[0], 0], [0, svd.s[1]]];
+  const angles = factorAngles(svd);
+  const tol = checkTolerance(svd, options.precision);
+
+  switch (format) {
+    case 'latex':
+      return [
+        `% ${angles}`,
+        `A = ${m(a)}`,
+        `  = \\underbrace{${m(svd.u)}}_{U}`,
+        `    \\underbrace{${m(sigma)}}_{\\Sigma}`,
+        `    \\underbrace{${m(svd.vt)}}_{V^\\top}`
+      ].join("\n");
+    case 'numpy':
+      return [
+        "import numpy as np",
+        "",
+        `# ${angles}`,
+        `A = ${m(a)}`,
+        `U = ${m(svd.u)}`,
+        `S = ${s}`,
+        `Vt = ${m(svd.vt)}`,
+        "",
+        "# The factors rebuild A, and NumPy's own SVD finds the same σ",
+        `assert np.allclose(U @ np.diag(S) @ Vt, A, rtol=0, atol=${tol})`,
+        `assert np.allclose(np.linalg.svd(A, compute_uv=False), np.sort(S)[::-1], rtol=0, atol=${tol})`
+      ].join("\n");
+    case 'matlab':
+      return [
+        `% ${angles}`,
+        `A = ${m(a)};`,
+        `U = ${m(svd.u)};`,
+        `S = ${s};`,
+        `Vt = ${m(svd.vt)};`,
+        "",
+        "% The factors rebuild A, and svd() finds the same σ",
+        `assert(norm(U*S*Vt - A) < ${tol})`,
+        `assert(norm(svd(A) - sort(diag(S), 'descend')) < ${tol})`
+      ].join("\n");
+    case 'julia':
+      return [
+        "using LinearAlgebra",
+        "",
+        `# ${angles}`,
+        `A = ${m(a)}`,
+        `U = ${m(svd.u)}`,
+        `S = ${s}`,
+        `Vt = ${m(svd.vt)}`,
+        "",
+        "# The factors rebuild A, and svdvals finds the same σ",
+        `@assert isapprox(U * Diagonal(S) * Vt, A; atol=${tol})`,
+        `@assert isapprox(svdvals(A), sort(S, rev=true); atol=${tol})`
+      ].join("\n");
+    case 'mathjs':
+      return [
+        "import * as math from 'mathjs';",
+        "",
+        `// ${angles}`,
+        `const A = ${m(a)};`,
+        `const U = ${m(svd.u)};`,
+        `const S = ${s};`,
+        `const Vt = ${m(svd.vt)};`,
+        "",
+        "// The factors rebuild A; mathjs has no SVD, so σ² comes from the eigenvalues of AᵀA",
+        "const rebuilt = math.multiply(math.multiply(U, math.diag(S)), Vt);",
+        `console.assert(math.norm(math.subtract(rebuilt, A)) < ${tol});`,
+        "const sigma = math.eigs(math.multiply(math.transpose(A), A)).values.map(l => Math.sqrt(Math.max(0, l))).reverse();",
+        `console.assert(math.norm(math.subtract(sigma, [...S].sort((x, y) => y - x))) < ${tol});`
+      ].join("\n");
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { Matrix, transposeN } from './matrix';
+import { VerifyError, decompose, parseMatrix, toSingularValues, verifySVD } from './verify';
+
+const A: Matrix = [[1, 2], [3, 4], [5, 6]];
+
+const failed = (a: Matrix, factors: Parameters<typeof verifySVD>[1]) =>
+  verifySVD(a, factors).checks.filter(check => !check.passed).map(check => check.name);
+
+describe('parseMatrix', () => {
+  it('accepts numbers and expressions', () => {
+    expect(parseMatrix('[[1, "1/4"], ["2^3", -2]]')).toEqual([[1, 0.25], [8, -2]]);
+  });
+
+  it('rejects ragged or non-numeric input', () => {
+    expect(() => parseMatrix('[[1, 2], [3]]')).toThrow(VerifyError);
+    expect(() => parseMatrix('[[1, "x +"]]')).toThrow(/matrix\[0\]\[1\]/);
+    expect(() => parseMatrix('[1, 2]')).toThrow(VerifyError);
+  });
+
+  it('reads Σ as a list or as its diagonal', () => {
+    expect(toSingularValues([3, 1])).toEqual([3, 1]);
+    expect(toSingularValues([[3, 0], [0, 1], [0, 0]])).toEqual([3, 1]);
+    expect(() => toSingularValues([[3, 1], [0, 1]])).toThrow(/diagonal/);
+  });
+});
+
+describe('verifySVD', () => {
+  it("passes the engine's own thin SVD of a rectangular matrix", () => {
+    const svd = decompose(A);
+    expect(verifySVD(A, svd).passed).toBe(true);
+    expect(verifySVD(transposeN(A), { u: svd.v, s: svd.s, vt: transposeN(svd.u) }).passed).toBe(true);
+  });
+
+  it('names what is wrong with a bad submission', () => {
+    const { u, s, vt } = decompose(A);
+    expect(failed(A, { u, s: [s[1], s[0]], vt })).toEqual(["σ descending", "UΣVᵀ = A"]);
+    expect(failed(A, { u, s: s.map(x => x * 1.01), vt })).toEqual(["UΣVᵀ = A", "σ match"]);
+    expect(failed(A, { u: u.map(row => row.map(x => 2 * x)), s: s.map(x => x / 2), vt })).toEqual(["UᵀU = I", "σ match"]);
+    expect(failed(A, { u, s, vt: vt.slice(0, 1) })).toEqual(["shapes"]);
+  });
+
+  it('accepts a compact SVD of a rank-deficient matrix', () => {
+    const rankOne: Matrix = [[1, 2], [2, 4]];
+    const { u, s, vt } = decompose(rankOne);
+    expect(verifySVD(rankOne, { u: u.map(row => [row[0]]), s: [s[0]], vt: [vt[0]] }).passed).toBe(true);
+  });
+});
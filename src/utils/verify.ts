@@ -0,0 +1,150 @@
+import {
+  Matrix,
+  Matrix2x2,
+  SVDResultN,
+  computeSVD,
+  computeSVDN,
+  identityN,
+  multiplyN,
+  reconstructMatrixN,
+  transposeN
+} from './matrix';
+import { evaluateEntry } from './expressions';
+
+export class VerifyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VerifyError';
+  }
+}
+
+// --- Input ---
+
+// Entries may be numbers or expression strings such as "sqrt(2)/2"
+function toEntry(val: unknown, where: string): number {
+  if (typeof val === 'number' && Number.isFinite(val)) return val;
+  if (typeof val === 'string') {
+    try {
+      return evaluateEntry(val);
+    } catch (err) {
+      throw new VerifyError(`${where}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  throw new VerifyError(`${where}: expected a number or expression`);
+}
+
+// A rectangular, non-empty array of rows, e.g. [[1, 2], [3, 4]]
+export function toMatrix(data: unknown, name = "matrix"): Matrix {
+  if (!Array.isArray(data) || data.length === 0 || !data.every(Array.isArray)) {
+    throw new VerifyError(`${name}: expected a non-empty array of rows`);
+  }
+  const cols = data[0].length;
+  if (cols === 0 || data.some(row => row.length !== cols)) {
+    throw new VerifyError(`${name}: every row needs the same, non-zero number of entries`);
+  }
+  return data.map((row, i) => row.map((val: unknown, j: number) => toEntry(val, `${name}[${i}][${j}]`)));
+}
+
+// Singular values as a list, or the diagonal of a Σ matrix (whose
+// off-diagonal entries must then be zero)
+export function toSingularValues(data: unknown, name = "S", tolerance = 0): number[] {
+  if (Array.isArray(data) && data.length > 0 && !data.some(Array.isArray)) {
+    return data.map((val, i) => toEntry(val, `${name}[${i}]`));
+  }
+  const sigma = toMatrix(data, name);
+  sigma.forEach((row, i) => row.forEach((val, j) => {
+    if (i !== j && Math.abs(val) > tolerance) throw new VerifyError(`${name}[${i}][${j}]: Σ must be diagonal`);
+  }));
+  return Array.from({ length: Math.min(sigma.length, sigma[0].length) }, (_, i) => sigma[i][i]);
+}
+
+export function parseMatrix(text: string, name = "matrix"): Matrix {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new VerifyError(`${name}: invalid JSON`);
+  }
+  return toMatrix(data, name);
+}
+
+// --- Decomposition ---
+
+// 2×2 matrices go through the closed form the app uses; anything else
+// through the Jacobi engine. Both return the thin SVD.
+export function decompose(a: Matrix): SVDResultN {
+  if (a.length === 2 && a[0].length === 2) {
+    const { u, s, v, vt } = computeSVD(a as Matrix2x2);
+    return { u, s, v, vt };
+  }
+  return computeSVDN(a);
+}
+
+export const frobeniusNorm = (m: Matrix) => Math.hypot(...m.flat());
+
+const maxAbsDiff = (a: Matrix, b: Matrix) =>
+  Math.max(0, ...a.flatMap((row, i) => row.map((val, j) => Math.abs(val - b[i][j]))));
+
+// --- Verification ---
+
+export const DEFAULT_TOLERANCE = 1e-9;
+
+export interface VerificationCheck {
+  name: string;
+  passed: boolean;
+  // Size of the violation (0 when it doesn't apply)
+  error: number;
+  detail?: string;
+}
+
+export interface Verification {
+  passed: boolean;
+  checks: VerificationCheck[];
+}
+
+export interface Factors {
+  u: Matrix;
+  s: number[];
+  vt: Matrix;
+}
+
+// Checks a submitted A = UΣVᵀ: shapes, σ non-negative and descending, the
+// columns of U and rows of Vᵀ orthonormal, and UΣVᵀ = A. Errors are
+// relative to ‖A‖_F (or absolute when ‖A‖_F < 1). The σ are also compared
+// with the engine's, which catches a product that only matches by accident.
+export function verifySVD(a: Matrix, factors: Factors, tolerance = DEFAULT_TOLERANCE): Verification {
+  const { u, s, vt } = factors;
+  const [m, n, k] = [a.length, a[0].length, s.length];
+  const problems = [
+    u.length !== m && `U has ${u.length} rows, A has ${m}`,
+    u.some(row => row.length !== k) && `U needs ${k} columns, one per σ`,
+    vt.length !== k && `Vᵀ needs ${k} rows, one per σ`,
+    vt.some(row => row.length !== n) && `Vᵀ has ${vt[0]?.length ?? 0} columns, A has ${n}`,
+    k > Math.min(m, n) && `At most ${Math.min(m, n)} singular values, got ${k}`
+  ].filter(Boolean) as string[];
+  if (problems.length) {
+    return { passed: false, checks: [{ name: "shapes", passed: false, error: 0, detail: problems.join("; ") }] };
+  }
+
+  const scale = Math.max(1, frobeniusNorm(a));
+  const check = (name: string, error: number, limit: number, detail?: string): VerificationCheck =>
+    ({ name, passed: error <= limit, error, detail });
+
+  const negative = Math.max(0, ...s.map(sigma => -sigma));
+  const unsorted = Math.max(0, ...s.slice(1).map((sigma, i) => sigma - s[i]));
+  const residual = reconstructMatrixN(u, s, vt).map((row, i) => row.map((val, j) => val - a[i][j]));
+  const expected = decompose(a).s.slice(0, k);
+  const sorted = [...s].sort((x, y) => y - x);
+  const mismatch = Math.max(0, ...expected.map((sigma, i) => Math.abs(sigma - sorted[i])));
+
+  const checks = [
+    check("shapes", 0, 0, `U ${m}×${k}, Σ ${k}×${k}, Vᵀ ${k}×${n}`),
+    check("σ non-negative", negative, 0),
+    check("σ descending", unsorted, tolerance * scale),
+    check("UᵀU = I", maxAbsDiff(multiplyN(transposeN(u), u), identityN(k)), tolerance),
+    check("VᵀV = I", maxAbsDiff(multiplyN(vt, transposeN(vt)), identityN(k)), tolerance),
+    check("UΣVᵀ = A", frobeniusNorm(residual) / scale, tolerance),
+    check("σ match", mismatch / scale, tolerance, `expected ${expected.map(sigma => String(Number(sigma.toPrecision(10)))).join(", ")}`)
+  ];
+  return { passed: checks.every(c => c.passed), checks };
+}
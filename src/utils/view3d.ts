@@ -0,0 +1,69 @@
+import { Vec3 } from './rotation3d';
+
+// Orbit camera: yaw spins around the world z-axis, pitch tilts towards the viewer
+export interface Camera {
+  yaw: number;
+  pitch: number;
+}
+
+export const DEFAULT_CAMERA: Camera = { yaw: -0.6, pitch: 0.35 };
+
+export type Polyline3 = Vec3[];
+
+// Reference solid: the unit cube spanned by e1, e2, e3. Its image under A is
+// the parallelepiped spanned by the columns of A.
+export const UNIT_CUBE_EDGES: Polyline3[] = (() => {
+  const corners: Vec3[] = [];
+  for (let i = 0; i < 8; i++) corners.push([i & 1, (i >> 1) & 1, (i >> 2) & 1]);
+  const edges: Polyline3[] = [];
+  for (let i = 0; i < 8; i++) {
+    for (const bit of [1, 2, 4]) {
+      if (!(i & bit)) edges.push([corners[i], corners[i | bit]]);
+    }
+  }
+  return edges;
+})();
+
+export const BASIS_VECTORS: { vector: Vec3; color: string; label: string }[] = [
+  { vector: [1, 0, 0], color: "#ef4444", label: "e₁" },
+  { vector: [0, 1, 0], color: "#22c55e", label: "e₂" },
+  { vector: [0, 0, 1], color: "#3b82f6", label: "e₃" }
+];
+
+// Latitude and longitude rings of the unit sphere
+export function sphereWireframe(rings = 6, meridians = 8, segments = 32): Polyline3[] {
+  const lines: Polyline3[] = [];
+  for (let i = 1; i < rings; i++) {
+    const phi = (i / rings) * Math.PI - Math.PI / 2;
+    const ring: Polyline3 = [];
+    for (let k = 0; k <= segments; k++) {
+      const theta = (k / segments) * 2 * Math.PI;
+      ring.push([Math.cos(phi) * Math.cos(theta), Math.cos(phi) * Math.sin(theta), Math.sin(phi)]);
+    }
+    lines.push(ring);
+  }
+  for (let j = 0; j < meridians; j++) {
+    const theta = (j / meridians) * 2 * Math.PI;
+    const meridian: Polyline3 = [];
+    for (let k = 0; k <= segments; k++) {
+      const phi = (k / segments) * Math.PI - Math.PI / 2;
+      meridian.push([Math.cos(phi) * Math.cos(theta), Math.cos(phi) * Math.sin(theta), Math.sin(phi)]);
+    }
+    lines.push(meridian);
+  }
+  return lines;
+}
+
+// Orthographic projection. Returns screen [x, y] (y up) and a depth where
+// larger values are closer to the viewer.
+export function projectPoint([x, y, z]: Vec3, camera: Camera): [number, number, number] {
+  const cy = Math.cos(camera.yaw), sy = Math.sin(camera.yaw);
+  const cp = Math.cos(camera.pitch), sp = Math.sin(camera.pitch);
+  // Spin around z
+  const x1 = cy * x - sy * y;
+  const y1 = sy * x + cy * y;
+  // Tilt around the screen x-axis
+  const depth = -(cp * y1 - sp * z);
+  const up = sp * y1 + cp * z;
+  return [x1, up, depth];
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { Point } from './shapes';
+import {
+  FIXED_EXTENT,
+  NO_ADJUST,
+  adjustViewport,
+  baseViewport,
+  densify,
+  gridLines,
+  gridStep,
+  logFloor,
+  projectPoint,
+  viewScale,
+  unwarpPoint,
+  warpPoint,
+  zoomAt
+} from './viewport';
+
+describe('viewport', () => {
+  it('keeps the fixed window unless fit or log is on', () => {
+    const points: Point[] = [[300, 0], [0, -0.001]];
+    expect(baseViewport(points, { fit: false, log: false })).toEqual({ center: [0, 0], extent: FIXED_EXTENT, floor: null });
+    const fit = baseViewport(points, { fit: true, log: false });
+    expect(fit.extent).toBeGreaterThan(300);
+    expect(fit.extent).toBeLessThan(400);
+    // A zero matrix still gets a usable frame
+    expect(baseViewport([[0, 0]], { fit: true, log: false }).extent).toBe(FIXED_EXTENT);
+  });
+
+  it('warps radii logarithmically and back', () => {
+    const floor = logFloor([[1000, 0], [0, 0.001]]);
+    expect(floor).toBeLessThan(0.001);
+    const [big, small] = [warpPoint([1000, 0], floor), warpPoint([0, 0.001], floor)];
+    // Six decades apart, and both clear of the origin
+    expect(big[0] - small[1]).toBeCloseTo(6, 10);
+    expect(small[1]).toBeGreaterThan(0);
+    const p: Point = [-3, 4];
+    const back = unwarpPoint(warpPoint(p, floor), floor);
+    expect(back[0]).toBeCloseTo(-3, 10);
+    expect(back[1]).toBeCloseTo(4, 10);
+  });
+
+  it('limits how many decades a log view spans', () => {
+    const floor = logFloor([[1, 0], [1e-15, 0]]);
+    expect(floor).toBeGreaterThan(1e-8);
+  });
+
+  it('zooms about the anchor', () => {
+    const base = baseViewport([[2, 2]], { fit: true, log: false });
+    const anchor: Point = [1, -0.5];
+    const adjust = zoomAt(base, NO_ADJUST, 4, anchor);
+    const view = adjustViewport(base, adjust);
+    expect(view.extent).toBeCloseTo(base.extent / 4, 12);
+    // The anchor stays at the same spot on screen
+    const before = (anchor[0] - base.center[0]) / base.extent;
+    const after = (anchor[0] - view.center[0]) / view.extent;
+    expect(after).toBeCloseTo(before, 12);
+    expect(zoomAt(base, adjust, 1 / 4, anchor).zoom).toBeCloseTo(1, 12);
+  });
+
+  it('picks 1-2-5 grid steps', () => {
+    expect(gridStep(FIXED_EXTENT)).toBe(1);
+    expect(gridStep(9)).toBe(5);
+    expect(gridStep(450)).toBe(200);
+    expect(gridStep(0.05)).toBeCloseTo(0.02, 12);
+  });
+
+  it('maps the plane onto the canvas and lays out its grid', () => {
+    const fixed = baseViewport([], { fit: false, log: false });
+    expect(viewScale(fixed, 110, 20)).toBe(17.5);
+    expect(projectPoint(fixed, 110, 17.5, [2, 2])).toEqual([90, 20]);
+    expect(gridLines(fixed, 110, 17.5)).toEqual({ step: 1, xs: [-3, -2, -1, 0, 1, 2, 3], ys: [-3, -2, -1, 0, 1, 2, 3], rings: [] });
+    const log = baseViewport([[1000, 0], [0, 0.01]], { fit: false, log: true });
+    // Decades from just above the floor out to the far corner
+    expect(gridLines(log, 110, viewScale(log, 110, 20)).rings.slice(0, 6)).toEqual([0.01, 0.1, 1, 10, 100, 1000]);
+  });
+
+  it('splits edges for curved drawing', () => {
+    const square: Point[] = [[0, 0], [1, 0], [1, 1], [0, 1]];
+    expect(densify(square, true, 4)).toHaveLength(16);
+    expect(densify(square, false, 4)).toHaveLength(13);
+  });
+});
@@ -0,0 +1,179 @@
+import { Point } from './shapes';
+
+// How stage canvases map the plane onto the screen
+export interface ViewportOptions {
+  fit: boolean; // Frame the transformed shape instead of the fixed ±2 window
+  log: boolean; // Radial log scale, for very unequal singular values
+}
+
+export const DEFAULT_VIEWPORT: ViewportOptions = {
+  fit: false,
+  log: false,
+};
+
+export const VIEWPORT_LABELS: Record<keyof ViewportOptions, string> = {
+  fit: "Auto-fit",
+  log: "Log",
+};
+
+// Half-width of the fixed window, in plane units
+export const FIXED_EXTENT = 2;
+const FIT_MARGIN = 1.15;
+// A log view spans at most this many decades below its largest radius
+const MAX_DECADES = 6;
+const MIN_ZOOM = 1 / 64;
+const MAX_ZOOM = 64;
+
+export interface Viewport {
+  // Frame centre and half-width, in warped units when floor is set
+  center: Point;
+  extent: number;
+  // Log scale: radius that lands on the origin. null for a linear view.
+  floor: number | null;
+}
+
+// --- Radial log warp ---
+// Directions are kept and radius r is drawn at log10(r / floor), so circles
+// stay circles and each decade gets the same width.
+
+export function warpRadius(r: number, floor: number | null): number {
+  if (floor === null) return r;
+  return r <= floor ? 0 : Math.log10(r / floor);
+}
+
+export function warpPoint(p: Point, floor: number | null): Point {
+  const r = Math.hypot(p[0], p[1]);
+  if (floor === null || r === 0) return p;
+  const k = warpRadius(r, floor) / r;
+  return [p[0] * k, p[1] * k];
+}
+
+export function unwarpPoint(p: Point, floor: number | null): Point {
+  const r = Math.hypot(p[0], p[1]);
+  if (floor === null || r === 0) return p;
+  const k = (floor * 10 ** r) / r;
+  return [p[0] * k, p[1] * k];
+}
+
+// Puts the smallest radius of interest a little way out from the origin,
+// but never more than MAX_DECADES below the largest one
+export function logFloor(points: Point[]): number {
+  const radii = points.map(p => Math.hypot(p[0], p[1])).filter(r => r > 0);
+  if (!radii.length) return 1;
+  const largest = Math.max(...radii);
+  const smallest = Math.max(Math.min(...radii), largest * 10 ** -MAX_DECADES);
+  return smallest / 3;
+}
+
+// Straight edges bend under the log warp, so they're split before drawing
+export function densify(points: Point[], closed: boolean, pieces: number): Point[] {
+  if (pieces <= 1 || points.length < 2) return points;
+  const out: Point[] = [];
+  const edges = closed ? points.length : points.length - 1;
+  for (let i = 0; i < edges; i++) {
+    const [a, b] = [points[i], points[(i + 1) % points.length]];
+    for (let j = 0; j < pieces; j++) {
+      const t = j / pieces;
+      out.push([a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]);
+    }
+  }
+  if (!closed) out.push(points[points.length - 1]);
+  return out;
+}
+
+// --- Framing ---
+
+// Auto-fit frames the largest radius rather than the bounding box, so the
+// frame doesn't shift while a shape rotates and the origin stays in view
+export function baseViewport(points: Point[], options: ViewportOptions): Viewport {
+  const floor = options.log ? logFloor(points) : null;
+  if (!options.fit && !options.log) return { center: [0, 0], extent: FIXED_EXTENT, floor };
+  const radius = Math.max(0, ...points.map(p => warpRadius(Math.hypot(p[0], p[1]), floor)));
+  // A zero matrix collapses everything onto the origin
+  const extent = radius > 1e-12 ? radius * FIT_MARGIN : options.log ? 1 : FIXED_EXTENT;
+  return { center: [0, 0], extent, floor };
+}
+
+// Per-stage zoom and pan on top of the base frame. Pan is measured in base
+// extents so it keeps its meaning when auto-fit rescales the frame.
+export interface ViewAdjust {
+  zoom: number;
+  pan: Point;
+}
+
+export const NO_ADJUST: ViewAdjust = { zoom: 1, pan: [0, 0] };
+
+export function adjustViewport(base: Viewport, adjust: ViewAdjust): Viewport {
+  return {
+    ...base,
+    center: [base.center[0] + adjust.pan[0] * base.extent, base.center[1] + adjust.pan[1] * base.extent],
+    extent: base.extent / adjust.zoom
+  };
+}
+
+// Zooms by factor while keeping anchor (in warped units) at the same spot
+export function zoomAt(base: Viewport, adjust: ViewAdjust, factor: number, anchor: Point): ViewAdjust {
+  const view = adjustViewport(base, adjust);
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, adjust.zoom * factor));
+  const ratio = adjust.zoom / zoom;
+  const center = [0, 1].map(i => anchor[i] + (view.center[i] - anchor[i]) * ratio);
+  return { zoom, pan: [(center[0] - base.center[0]) / base.extent, (center[1] - base.center[1]) / base.extent] };
+}
+
+// --- Drawing ---
+
+// Pixels per (warped) plane unit on a size × size canvas padded on each side
+export function viewScale(view: Viewport, size: number, padding: number): number {
+  return (size - padding * 2) / (2 * view.extent);
+}
+
+// Plane coordinates -> canvas pixels, y up
+export function projectPoint(view: Viewport, size: number, scale: number, p: Point): Point {
+  const [x, y] = warpPoint(p, view.floor);
+  return [size / 2 + (x - view.center[0]) * scale, size / 2 - (y - view.center[1]) * scale];
+}
+
+export interface GridLines {
+  step: number | null;
+  xs: number[];
+  ys: number[];
+  // Log scale only: one radius per decade
+  rings: number[];
+}
+
+// Lines across the visible window, or under the log warp one ring per decade
+// out to the far corner
+export function gridLines(view: Viewport, size: number, scale: number): GridLines {
+  const half = size / 2 / scale;
+  if (view.floor === null) {
+    const step = gridStep(view.extent);
+    const ticks = (c: number) => {
+      const out: number[] = [];
+      for (let k = Math.ceil((c - half) / step); k <= Math.floor((c + half) / step); k++) out.push(k * step);
+      return out;
+    };
+    return { step, xs: ticks(view.center[0]), ys: ticks(view.center[1]), rings: [] };
+  }
+  const reach = Math.hypot(Math.abs(view.center[0]) + half, Math.abs(view.center[1]) + half);
+  const rings: number[] = [];
+  for (let k = Math.floor(Math.log10(view.floor)) + 1; rings.length < 12; k++) {
+    if (warpRadius(10 ** k, view.floor) > reach) break;
+    rings.push(10 ** k);
+  }
+  return { step: null, xs: [], ys: [], rings };
+}
+
+// Grid spacing of 1, 2 or 5 × 10^k giving about two lines each side
+export function gridStep(extent: number): number {
+  const raw = extent / 2;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const m = raw / magnitude;
+  return (m < 1.5 ? 1 : m < 3.5 ? 2 : m < 7.5 ? 5 : 10) * magnitude;
+}
+
+// Compact tick label: 0.25, 40, 1e+6
+export function formatTick(val: number): string {
+  const abs = Math.abs(val);
+  if (abs !== 0 && (abs < 1e-3 || abs >= 1e5)) return val.toExponential(0);
+  return String(Number(val.toPrecision(6)));
+}
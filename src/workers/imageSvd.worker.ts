@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SVDResultN } from '../utils/matrix';
+import {
+  ImageWorkerRequest,
+  ImageWorkerResponse,
+  splitChannels,
+  decomposeChannels,
+  reconstructPixels
+} from '../utils/imageSvd';
+
+// The DOM lib types don't describe worker scope; Worker has the same surface
+const ctx = self as unknown as Worker;
+
+// Only the latest image is kept; requests for older ids are ignored
+let current: { id: number; width: number; height: number; svds: SVDResultN[] } | null = null;
+
+const post = (message: ImageWorkerResponse, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+ctx.onmessage = (e: MessageEvent<ImageWorkerRequest>) => {
+  const request = e.data;
+  try {
+    if (request.type === 'decompose') {
+      const { id, width, height, pixels } = request;
+      const channels = splitChannels(pixels, width, height);
+      const svds = decomposeChannels(channels, channel => post({ type: 'progress', id, channel }));
+      current = { id, width, height, svds };
+      post({ type: 'decomposed', id, spectra: svds.map(svd => svd.s) });
+    } else if (request.type === 'reconstruct') {
+      if (!current || current.id !== request.id) return;
+      const pixels = reconstructPixels(current.svds, request.k, current.width, current.height);
+      post({ type: 'reconstructed', id: request.id, k: request.k, pixels }, [pixels.buffer]);
+    }
+  } catch (err) {
+    post({ type: 'error', id: request.id, message: err instanceof Error ? err.message : String(err) });
+  }
+};